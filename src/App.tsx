@@ -1,14 +1,106 @@
-import { useEffect, useState } from "react";
+import { Fragment, useCallback, useEffect, useRef, useState } from "react";
 import { XmlComparison } from "./components/XmlComparison";
 import XmlEditor from "./components/XmlEditor";
 import BulkXmlEditor from "./components/BulkXmlEditor";
-
-type ViewMode = "comparison" | "editor";
-type EditorMode = "normal" | "bulk";
+import XmlMerge from "./components/XmlMerge";
+import FleetComparison from "./components/FleetComparison";
+import WorkspaceBar from "./components/WorkspaceBar";
+import type { DataModel } from "./utils/dataModel";
+import type { SchemaSet } from "./utils/xsd";
+import {
+  type Autosave,
+  type ComparisonMode,
+  type EditorMode,
+  type SaveStatus,
+  type ViewMode,
+  type Workspace,
+  type WorkspaceState,
+  createAutosave,
+  emptyWorkspaceState,
+  markSessionClosed,
+  markSessionOpen,
+} from "./utils/workspaces";
 
 function App() {
   const [currentView, setCurrentView] = useState<ViewMode>("comparison");
+  const [comparisonMode, setComparisonMode] =
+    useState<ComparisonMode>("twoWay");
   const [editorMode, setEditorMode] = useState<EditorMode>("normal");
+  // Shared by the tabs so definitions and schemas are loaded once per session
+  const [dataModel, setDataModel] = useState<DataModel | null>(null);
+  const [schemas, setSchemas] = useState<SchemaSet | null>(null);
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  // What a tab starts from when it mounts; the live state is in stateRef
+  const [restored, setRestored] = useState<WorkspaceState>(emptyWorkspaceState);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>({ state: "idle" });
+  const workspaceRef = useRef<Workspace | null>(null);
+  const stateRef = useRef<WorkspaceState>(emptyWorkspaceState);
+  const autosaveRef = useRef<Autosave | null>(null);
+
+  useEffect(() => {
+    const autosave = createAutosave(setSaveStatus);
+    autosaveRef.current = autosave;
+    // A page closed with nothing left to write is not reported as a crash
+    const handlePageHide = () => {
+      void autosave.flush();
+      if (autosave.isIdle()) markSessionClosed();
+    };
+    const handlePageShow = (e: PageTransitionEvent) => {
+      if (e.persisted) markSessionOpen();
+    };
+    window.addEventListener("pagehide", handlePageHide);
+    window.addEventListener("pageshow", handlePageShow);
+    return () => {
+      window.removeEventListener("pagehide", handlePageHide);
+      window.removeEventListener("pageshow", handlePageShow);
+      autosave.dispose();
+      autosaveRef.current = null;
+    };
+  }, []);
+
+  const recordState = useCallback(
+    <K extends keyof WorkspaceState>(key: K, value: WorkspaceState[K]) => {
+      stateRef.current = { ...stateRef.current, [key]: value };
+      if (workspaceRef.current) {
+        autosaveRef.current?.schedule(workspaceRef.current, stateRef.current);
+      }
+    },
+    [],
+  );
+
+  useEffect(() => {
+    if (!workspaceRef.current) return;
+    recordState("view", { view: currentView, comparisonMode, editorMode });
+  }, [currentView, comparisonMode, editorMode, recordState]);
+
+  const openWorkspace = (next: Workspace, state: WorkspaceState) => {
+    workspaceRef.current = next;
+    stateRef.current = state;
+    setWorkspace(next);
+    setRestored(state);
+    setCurrentView(state.view.view);
+    setComparisonMode(state.view.comparisonMode);
+    setEditorMode(state.view.editorMode);
+  };
+
+  const renameWorkspace = (renamed: Workspace) => {
+    workspaceRef.current = renamed;
+    setWorkspace(renamed);
+  };
+
+  // Tabs unmount when hidden, so the one shown next starts from the live state
+  const showView = (view: ViewMode) => {
+    setRestored(stateRef.current);
+    setCurrentView(view);
+  };
+  const showComparisonMode = (mode: ComparisonMode) => {
+    setRestored(stateRef.current);
+    setComparisonMode(mode);
+  };
+  const showEditorMode = (mode: EditorMode) => {
+    setRestored(stateRef.current);
+    setEditorMode(mode);
+  };
 
   useEffect(() => {
     document.title = "FemtoXML Studio — XML Comparator & Editor";
@@ -43,9 +135,17 @@ function App() {
   return (
     <div className="min-h-full bg-slate-50">
       <div className="mx-auto flex w-full max-w-7xl flex-col gap-5 px-4 py-6">
+        <WorkspaceBar
+          workspace={workspace}
+          status={saveStatus}
+          flush={() => autosaveRef.current?.flush() ?? Promise.resolve()}
+          getState={() => stateRef.current}
+          onOpen={openWorkspace}
+          onRename={renameWorkspace}
+        />
         <div className="flex gap-2 border-b border-slate-200">
           <button
-            onClick={() => setCurrentView("comparison")}
+            onClick={() => showView("comparison")}
             className={`px-4 py-2 text-sm font-semibold transition ${
               currentView === "comparison"
                 ? "border-b-2 border-primary text-primary"
@@ -55,7 +155,7 @@ function App() {
             XML Comparison
           </button>
           <button
-            onClick={() => setCurrentView("editor")}
+            onClick={() => showView("editor")}
             className={`px-4 py-2 text-sm font-semibold transition ${
               currentView === "editor"
                 ? "border-b-2 border-primary text-primary"
@@ -66,33 +166,105 @@ function App() {
           </button>
         </div>
 
-        {currentView === "comparison" && <XmlComparison />}
-        {currentView === "editor" && (
-          <div className="flex flex-col gap-4">
-            <div className="flex gap-2 border-b border-slate-200 pb-2">
-              <button
-                onClick={() => setEditorMode("normal")}
-                className={`px-3 py-1.5 text-xs font-semibold transition ${
-                  editorMode === "normal"
-                    ? "rounded-md bg-[#2596be] text-white"
-                    : "rounded-md text-slate-600 hover:bg-slate-100"
-                }`}
-              >
-                Basic
-              </button>
-              <button
-                onClick={() => setEditorMode("bulk")}
-                className={`px-3 py-1.5 text-xs font-semibold transition ${
-                  editorMode === "bulk"
-                    ? "rounded-md bg-[#2596be] text-white"
-                    : "rounded-md text-slate-600 hover:bg-slate-100"
-                }`}
-              >
-                Bulk
-              </button>
-            </div>
-            {editorMode === "normal" ? <XmlEditor /> : <BulkXmlEditor />}
-          </div>
+        {!workspace && (
+          <p className="text-sm text-slate-500">Opening workspace…</p>
+        )}
+        {workspace && (
+          <Fragment key={workspace.id}>
+            {currentView === "comparison" && (
+              <div className="flex flex-col gap-5">
+                <div className="flex gap-2 border-b border-slate-200 pb-2">
+                  <button
+                    onClick={() => showComparisonMode("twoWay")}
+                    className={`px-3 py-1.5 text-xs font-semibold transition ${
+                      comparisonMode === "twoWay"
+                        ? "rounded-md bg-[#2596be] text-white"
+                        : "rounded-md text-slate-600 hover:bg-slate-100"
+                    }`}
+                  >
+                    Two-way
+                  </button>
+                  <button
+                    onClick={() => showComparisonMode("merge")}
+                    className={`px-3 py-1.5 text-xs font-semibold transition ${
+                      comparisonMode === "merge"
+                        ? "rounded-md bg-[#2596be] text-white"
+                        : "rounded-md text-slate-600 hover:bg-slate-100"
+                    }`}
+                  >
+                    Three-way merge
+                  </button>
+                  <button
+                    onClick={() => showComparisonMode("fleet")}
+                    className={`px-3 py-1.5 text-xs font-semibold transition ${
+                      comparisonMode === "fleet"
+                        ? "rounded-md bg-[#2596be] text-white"
+                        : "rounded-md text-slate-600 hover:bg-slate-100"
+                    }`}
+                  >
+                    Fleet
+                  </button>
+                </div>
+                {comparisonMode === "twoWay" && (
+                  <XmlComparison
+                    dataModel={dataModel}
+                    onDataModelChange={setDataModel}
+                    schemas={schemas}
+                    onSchemasChange={setSchemas}
+                    workspaceState={restored.comparison}
+                    onWorkspaceStateChange={(state) =>
+                      recordState("comparison", state)
+                    }
+                  />
+                )}
+                {comparisonMode === "merge" && <XmlMerge />}
+                {comparisonMode === "fleet" && <FleetComparison />}
+              </div>
+            )}
+            {currentView === "editor" && (
+              <div className="flex flex-col gap-4">
+                <div className="flex gap-2 border-b border-slate-200 pb-2">
+                  <button
+                    onClick={() => showEditorMode("normal")}
+                    className={`px-3 py-1.5 text-xs font-semibold transition ${
+                      editorMode === "normal"
+                        ? "rounded-md bg-[#2596be] text-white"
+                        : "rounded-md text-slate-600 hover:bg-slate-100"
+                    }`}
+                  >
+                    Basic
+                  </button>
+                  <button
+                    onClick={() => showEditorMode("bulk")}
+                    className={`px-3 py-1.5 text-xs font-semibold transition ${
+                      editorMode === "bulk"
+                        ? "rounded-md bg-[#2596be] text-white"
+                        : "rounded-md text-slate-600 hover:bg-slate-100"
+                    }`}
+                  >
+                    Bulk
+                  </button>
+                </div>
+                {editorMode === "normal" ? (
+                  <XmlEditor
+                    dataModel={dataModel}
+                    onDataModelChange={setDataModel}
+                    schemas={schemas}
+                    onSchemasChange={setSchemas}
+                    workspaceState={restored.editor}
+                    onWorkspaceStateChange={(state) => recordState("editor", state)}
+                  />
+                ) : (
+                  <BulkXmlEditor
+                    schemas={schemas}
+                    onSchemasChange={setSchemas}
+                    workspaceState={restored.bulk}
+                    onWorkspaceStateChange={(state) => recordState("bulk", state)}
+                  />
+                )}
+              </div>
+            )}
+          </Fragment>
         )}
 
         <footer className="mt-8 border-t border-slate-200 pt-6 pb-4 text-center text-xs text-slate-500">
@@ -1,12 +1,33 @@
-import { useState, useRef } from "react";
-import { xml2js, js2xml } from "xml-js";
+import { useEffect, useState, useRef } from "react";
 import * as XLSX from "xlsx";
 import {
   type EditableNode,
-  buildEditableTree,
-  buildXmlFromEditable,
+  type XmlDocumentShell,
+  parseEditableXml,
+  serializeEditableXml,
   setNodeValueByPath,
 } from "../utils/xmlTree";
+import {
+  type SourceMap,
+  createSourceMap,
+  patchSourceXml,
+} from "../utils/sourcePatch";
+import { type FileEncoding, decodeXml, encodeXml } from "../utils/encoding";
+import {
+  type SchemaSet,
+  type SchemaViolation,
+  allowInvalidDownload,
+  validateXml,
+} from "../utils/xsd";
+import {
+  type BulkEditorState,
+  base64ToBytes,
+  bytesToBase64,
+  lowestUid,
+  rebaseUids,
+} from "../utils/workspaces";
+import EncodingSelect from "./EncodingSelect";
+import SchemaPanel from "./SchemaPanel";
 
 type BulkResult = {
   path: string;
@@ -14,18 +35,95 @@ type BulkResult = {
   status: "updated" | "not_found";
 };
 
-export default function BulkXmlEditor() {
-  const [xmlContent, setXmlContent] = useState("");
-  const [xmlFileName, setXmlFileName] = useState<string | null>(null);
-  const [excelFileName, setExcelFileName] = useState<string | null>(null);
-  const [excelFile, setExcelFile] = useState<File | null>(null);
-  const [results, setResults] = useState<BulkResult[]>([]);
+type BulkXmlEditorProps = {
+  schemas?: SchemaSet | null;
+  onSchemasChange?: (schemas: SchemaSet | null) => void;
+  /** State restored from the open workspace. */
+  workspaceState?: BulkEditorState;
+  onWorkspaceStateChange?: (state: BulkEditorState) => void;
+};
+
+export default function BulkXmlEditor({
+  schemas = null,
+  onSchemasChange,
+  workspaceState: saved,
+  onWorkspaceStateChange,
+}: BulkXmlEditorProps) {
+  const [xmlContent, setXmlContent] = useState(saved?.xml ?? "");
+  const [xmlFileName, setXmlFileName] = useState<string | null>(
+    saved?.xmlFileName ?? null,
+  );
+  const [xmlBuffer, setXmlBuffer] = useState<ArrayBuffer | null>(null);
+  const [encoding, setEncoding] = useState<FileEncoding | null>(
+    saved?.encoding ?? null,
+  );
+  const [excelFileName, setExcelFileName] = useState<string | null>(
+    saved?.excelFileName ?? null,
+  );
+  const [excelFile, setExcelFile] = useState<File | null>(() =>
+    saved?.excelData && saved.excelFileName
+      ? new File([base64ToBytes(saved.excelData)], saved.excelFileName)
+      : null,
+  );
+  const [excelData, setExcelData] = useState<string | null>(
+    saved?.excelData ?? null,
+  );
+  const [results, setResults] = useState<BulkResult[]>(saved?.results ?? []);
   const [editedTree, setEditedTree] = useState<EditableNode[] | null>(null);
+  const [uidBase, setUidBase] = useState(0);
+  const [shell, setShell] = useState<XmlDocumentShell | undefined>();
+  const [sourceMap, setSourceMap] = useState<SourceMap | null>(null);
+  const [keepFormatting, setKeepFormatting] = useState(
+    saved?.keepFormatting ?? true,
+  );
+  const [saveNote, setSaveNote] = useState<string | null>(null);
+  const [schemaViolations, setSchemaViolations] = useState<
+    SchemaViolation[] | null
+  >(null);
   const [error, setError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const xmlInputRef = useRef<HTMLInputElement>(null);
   const excelInputRef = useRef<HTMLInputElement>(null);
 
+  // The applied result of the workspace, renumbered to a fresh parse of its
+  // document so patching into the original text still lines up
+  useEffect(() => {
+    if (!saved?.editedTree) return;
+    try {
+      const { tree, shell: documentShell } = parseEditableXml(saved.xml);
+      const base = lowestUid(tree);
+      setEditedTree(rebaseUids(saved.editedTree, base - saved.uidBase));
+      setUidBase(base);
+      setShell(documentShell);
+      setSourceMap(createSourceMap(saved.xml, tree));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    onWorkspaceStateChange?.({
+      xml: xmlContent,
+      xmlFileName,
+      encoding,
+      excelFileName,
+      excelData,
+      results,
+      editedTree,
+      uidBase,
+      keepFormatting,
+    });
+  }, [
+    xmlContent,
+    xmlFileName,
+    encoding,
+    excelFileName,
+    excelData,
+    results,
+    editedTree,
+    keepFormatting,
+  ]);
+
   const pathHeaderNames = [
     "parameter path",
     "full parameter path",
@@ -62,10 +160,27 @@ export default function BulkXmlEditor() {
     setEditedTree(null);
     const reader = new FileReader();
     reader.onload = () => {
-      const content = reader.result?.toString() ?? "";
-      setXmlContent(content);
+      const buffer = reader.result as ArrayBuffer;
+      const { text, ...detected } = decodeXml(buffer);
+      setXmlBuffer(buffer);
+      setEncoding(detected);
+      setXmlContent(text);
     };
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
+  };
+
+  // Re-decode the loaded bytes; a previous run has to be applied again
+  const handleEncodingChange = (override: string | null) => {
+    if (!xmlBuffer) return;
+    try {
+      const { text, ...chosen } = decodeXml(xmlBuffer, override);
+      setEncoding(chosen);
+      setXmlContent(text);
+      setResults([]);
+      setEditedTree(null);
+    } catch (err) {
+      setError(`Failed to decode XML: ${(err as Error).message}`);
+    }
   };
 
   const handleExcelLoad = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -73,6 +188,11 @@ export default function BulkXmlEditor() {
     if (!file) return;
     setExcelFileName(file.name);
     setExcelFile(file);
+    setExcelData(null);
+    file
+      .arrayBuffer()
+      .then((buffer) => setExcelData(bytesToBase64(buffer)))
+      .catch(() => setExcelData(null));
     setError(null);
     setResults([]);
     setEditedTree(null);
@@ -120,12 +240,7 @@ export default function BulkXmlEditor() {
           if (path) updates.push({ path, value });
         }
 
-        const parsed = xml2js(xmlContent, {
-          compact: false,
-          ignoreDeclaration: true,
-        });
-        const rootElements = (parsed as any).elements ?? [];
-        const tree = buildEditableTree(rootElements);
+        const { tree, shell: documentShell } = parseEditableXml(xmlContent);
         const treeCopy = JSON.parse(JSON.stringify(tree)) as EditableNode[];
 
         const resultList: BulkResult[] = [];
@@ -140,6 +255,10 @@ export default function BulkXmlEditor() {
 
         setResults(resultList);
         setEditedTree(treeCopy);
+        setUidBase(lowestUid(tree));
+        setShell(documentShell);
+        setSourceMap(createSourceMap(xmlContent, tree));
+        setSaveNote(null);
       } catch (err) {
         setError((err as Error).message);
         setResults([]);
@@ -150,13 +269,50 @@ export default function BulkXmlEditor() {
     reader.readAsArrayBuffer(excelFile);
   };
 
+  // The edited document as it would be saved
+  const buildXml = (tree: EditableNode[]) => {
+    const patched =
+      keepFormatting && sourceMap ? patchSourceXml(sourceMap, tree) : null;
+    return { patched, xmlString: patched ?? serializeEditableXml(tree, shell) };
+  };
+
+  const handleValidateSchema = () => {
+    if (!editedTree || !schemas) return;
+    try {
+      setSchemaViolations(validateXml(schemas, buildXml(editedTree).xmlString));
+    } catch (err) {
+      setError(`Failed to generate XML: ${(err as Error).message}`);
+    }
+  };
+
+  // Check each result as soon as it is applied, before it is downloaded
+  useEffect(() => {
+    if (editedTree && schemas) handleValidateSchema();
+    else setSchemaViolations(null);
+  }, [editedTree, schemas]);
+
   const handleDownloadResult = () => {
     if (!editedTree) return;
     try {
-      const xmlElements = buildXmlFromEditable(editedTree);
-      const xmlObj = { elements: xmlElements };
-      const xmlString = js2xml(xmlObj, { compact: false, spaces: 2 });
-      const blob = new Blob([xmlString], { type: "application/xml" });
+      const { patched, xmlString } = buildXml(editedTree);
+      setSaveNote(
+        keepFormatting && patched === null
+          ? "The edits could not be patched into the original text, so the whole document was reformatted."
+          : null,
+      );
+      if (schemas) {
+        const found = validateXml(schemas, xmlString);
+        setSchemaViolations(found);
+        if (!allowInvalidDownload(found)) {
+          setError(
+            "Download blocked: the edited document breaks the loaded schemas. See Schema validation for the details.",
+          );
+          return;
+        }
+      }
+      const blob = new Blob([encodeXml(xmlString, encoding)], {
+        type: "application/xml",
+      });
       const url = URL.createObjectURL(blob);
       const link = document.createElement("a");
       link.href = url;
@@ -178,6 +334,7 @@ export default function BulkXmlEditor() {
         <p className="mt-1 text-sm text-slate-600">
           Load an XML file and an Excel file with two columns: <strong>Parameter path</strong> and <strong>Value</strong>.
           Paths can use dots or slashes (e.g. <code className="rounded bg-slate-200 px-1">Root.Child.Param</code> or <code className="rounded bg-slate-200 px-1">Root/Child/Param</code>).
+          Append <code className="rounded bg-slate-200 px-1">/@name</code> to set an attribute. Change sheets exported from the comparison view load here directly.
         </p>
       </div>
 
@@ -196,7 +353,14 @@ export default function BulkXmlEditor() {
           />
         </label>
         {xmlFileName && (
-          <span className="text-sm text-slate-600">XML: {xmlFileName}</span>
+          <span className="flex items-center gap-2 text-sm text-slate-600">
+            XML: {xmlFileName}
+            <EncodingSelect
+              encoding={encoding}
+              onChange={handleEncodingChange}
+              disabled={!xmlBuffer}
+            />
+          </span>
         )}
 
         <label className="flex cursor-pointer items-center gap-2 rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50">
@@ -225,21 +389,52 @@ export default function BulkXmlEditor() {
         </button>
 
         {editedTree && (
-          <button
-            onClick={handleDownloadResult}
-            className="rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
-          >
-            Download Edited XML
-          </button>
+          <>
+            <button
+              onClick={handleDownloadResult}
+              className="rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Download Edited XML
+            </button>
+            <label
+              className="flex items-center gap-2 text-sm text-slate-700"
+              title="Patch only the updated values into the original text"
+            >
+              <input
+                type="checkbox"
+                checked={keepFormatting}
+                onChange={(e) => setKeepFormatting(e.target.checked)}
+              />
+              Keep original formatting
+            </label>
+          </>
         )}
       </div>
 
+      {saveNote && (
+        <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          {saveNote}
+        </div>
+      )}
+
       {error && (
         <div className="mb-4 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
           {error}
         </div>
       )}
 
+      {onSchemasChange && (
+        <div className="mb-4">
+          <SchemaPanel
+            schemas={schemas}
+            onSchemasChange={onSchemasChange}
+            violations={schemaViolations}
+            onValidate={editedTree ? handleValidateSchema : undefined}
+            showDownloadPolicy
+          />
+        </div>
+      )}
+
       {results.length > 0 && (
         <div className="mb-6 rounded-lg border border-slate-200 bg-white p-4">
           <h2 className="mb-2 text-lg font-semibold text-slate-800">Result summary</h2>
@@ -0,0 +1,153 @@
+import { useState } from "react";
+import {
+  type DataModel,
+  type ValueViolation,
+  parseDataModel,
+} from "../utils/dataModel";
+import { decodeXml } from "../utils/encoding";
+
+type DataModelPanelProps = {
+  model: DataModel | null;
+  onModelChange: (model: DataModel | null) => void;
+  violations: ValueViolation[];
+  /** Jump to the value of a violation; rows are plain text without it. */
+  onSelect?: (violation: ValueViolation) => void;
+};
+
+// Long lists are cut off; the count in the header stays exact
+const maxListed = 500;
+
+/** Load a Broadband Forum definition file and list values that break it. */
+export default function DataModelPanel({
+  model,
+  onModelChange,
+  violations,
+  onSelect,
+}: DataModelPanelProps) {
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleLoad = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setIsLoading(true);
+    try {
+      const { text } = decodeXml(await file.arrayBuffer());
+      onModelChange(parseDataModel(text, file.name));
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(`Failed to load ${file.name}: ${(err as Error).message}`);
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <details className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+      <summary className="cursor-pointer text-base font-semibold text-slate-900">
+        Data model validation
+        {model && (
+          <span
+            className={`ml-2 rounded-full px-2 py-0.5 text-xs font-semibold ${
+              violations.length > 0
+                ? "bg-rose-50 text-rose-700"
+                : "bg-emerald-50 text-emerald-700"
+            }`}
+          >
+            {violations.length > 0
+              ? `${violations.length} violation${violations.length === 1 ? "" : "s"}`
+              : "No violations"}
+          </span>
+        )}
+      </summary>
+      <p className="mt-2 text-sm text-slate-600">
+        Load a TR-181, TR-196 or TR-098 definition file (
+        <span className="font-mono">dm:document</span> XML) to check values
+        against their declared type, ranges, enumerations, lengths and patterns.
+        Instance elements such as <span className="font-mono">i1</span> map to{" "}
+        <span className="font-mono">{"{i}"}</span>; parameters the model does
+        not define are not checked.
+      </p>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <label className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-primary-200 bg-primary-50 px-3 py-1.5 text-sm font-semibold text-primary-700 hover:bg-primary-100">
+          <input
+            type="file"
+            accept=".xml"
+            className="hidden"
+            onChange={handleLoad}
+          />
+          {model ? "Replace definition" : "Load definition"}
+        </label>
+        {isLoading && (
+          <span className="text-xs text-slate-500">Parsing definition…</span>
+        )}
+        {model && (
+          <>
+            <span className="text-sm text-slate-700">
+              <span className="font-semibold">{model.name}</span> ·{" "}
+              {model.parameters.size} parameters · {model.fileName}
+            </span>
+            <button
+              type="button"
+              onClick={() => onModelChange(null)}
+              className="text-xs text-slate-500 underline hover:text-slate-700"
+            >
+              Remove
+            </button>
+          </>
+        )}
+      </div>
+
+      {loadError && (
+        <div className="mt-2 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {loadError}
+        </div>
+      )}
+
+      {violations.length > 0 && (
+        <div className="mt-3 max-h-72 overflow-auto rounded-xl border border-slate-200">
+          <table className="w-full text-left text-xs">
+            <thead className="sticky top-0 bg-slate-50 text-slate-600">
+              <tr>
+                <th className="px-3 py-2 font-semibold">Path</th>
+                <th className="px-3 py-2 font-semibold">Value</th>
+                <th className="px-3 py-2 font-semibold">Problem</th>
+              </tr>
+            </thead>
+            <tbody>
+              {violations.slice(0, maxListed).map((v, i) => (
+                <tr
+                  key={`${v.side ?? ""}${v.path}-${i}`}
+                  onClick={onSelect ? () => onSelect(v) : undefined}
+                  className={`border-t border-slate-100 ${
+                    onSelect ? "cursor-pointer hover:bg-slate-50" : ""
+                  }`}
+                  title={v.parameter}
+                >
+                  <td className="break-all px-3 py-1.5 font-mono text-slate-800">
+                    {v.side && (
+                      <span className="mr-1 rounded bg-slate-100 px-1 font-sans font-semibold capitalize text-slate-600">
+                        {v.side}
+                      </span>
+                    )}
+                    {v.path}
+                  </td>
+                  <td className="break-all px-3 py-1.5 font-mono text-slate-800">
+                    {v.value}
+                  </td>
+                  <td className="px-3 py-1.5 text-rose-700">{v.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {violations.length > maxListed && (
+            <p className="px-3 py-2 text-xs text-slate-500">
+              Showing the first {maxListed} of {violations.length}.
+            </p>
+          )}
+        </div>
+      )}
+    </details>
+  );
+}
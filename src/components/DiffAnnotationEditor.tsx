@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import {
+  type AnnotationStatus,
+  type DiffAnnotation,
+  annotationColors,
+  annotationStatusLabels,
+} from "../utils/annotations";
+
+type DiffAnnotationEditorProps = {
+  path: string;
+  annotation: DiffAnnotation | undefined;
+  /** Receives null when the verdict and note were cleared. */
+  onSave: (annotation: DiffAnnotation | null) => void;
+  onClose: () => void;
+};
+
+const statuses = Object.keys(annotationStatusLabels) as AnnotationStatus[];
+
+/** Verdict and note for one comparison row. */
+export default function DiffAnnotationEditor({
+  path,
+  annotation,
+  onSave,
+  onClose,
+}: DiffAnnotationEditorProps) {
+  const [status, setStatus] = useState<AnnotationStatus | null>(
+    annotation?.status ?? null,
+  );
+  const [note, setNote] = useState(annotation?.note ?? "");
+
+  useEffect(() => {
+    setStatus(annotation?.status ?? null);
+    setNote(annotation?.note ?? "");
+  }, [path, annotation]);
+
+  const save = () => {
+    onSave(
+      status || note.trim()
+        ? { status, note: note.trim(), updatedAt: new Date().toISOString() }
+        : null,
+    );
+    onClose();
+  };
+
+  return (
+    <div className="mt-4 rounded-xl border border-primary-200 bg-primary-50/40 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="min-w-0 text-xs">
+          <span className="font-semibold text-slate-700">Annotate </span>
+          <span className="break-all font-mono text-slate-900">{path}</span>
+          {annotation && (
+            <span className="ml-2 text-slate-500">
+              last changed {new Date(annotation.updatedAt).toLocaleString()}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {statuses.map((s) => (
+            <button
+              key={s}
+              type="button"
+              onClick={() => setStatus(status === s ? null : s)}
+              aria-pressed={status === s}
+              style={
+                status === s
+                  ? {
+                      backgroundColor: annotationColors[s].bg,
+                      color: annotationColors[s].fg,
+                    }
+                  : undefined
+              }
+              className={`rounded-full border border-slate-200 px-3 py-1 text-xs font-semibold transition ${
+                status === s ? "" : "bg-white text-slate-600 hover:bg-slate-50"
+              }`}
+            >
+              {annotationStatusLabels[s]}
+            </button>
+          ))}
+        </div>
+      </div>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) save();
+          if (e.key === "Escape") onClose();
+        }}
+        rows={2}
+        autoFocus
+        placeholder="Note (optional), e.g. ticket number or reason"
+        className="mt-2 w-full rounded border border-slate-300 bg-white px-2 py-1 text-sm focus:border-[#2596be] focus:outline-none focus:ring-1 focus:ring-[#2596be]"
+      />
+      <div className="mt-2 flex items-center justify-end gap-2">
+        {annotation && (
+          <button
+            type="button"
+            onClick={() => {
+              onSave(null);
+              onClose();
+            }}
+            className="mr-auto text-xs text-slate-500 underline hover:text-slate-700"
+          >
+            Remove annotation
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-medium text-slate-700 hover:bg-slate-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          className="rounded-lg bg-[#2596be] px-3 py-1.5 text-sm font-semibold text-white hover:bg-[#1e7a9a]"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import {
+  type FileEncoding,
+  encodingChoices,
+  encodingLabel,
+} from "../utils/encoding";
+
+type EncodingSelectProps = {
+  encoding: FileEncoding | null;
+  /** Called with the chosen encoding, or null to go back to detection. */
+  onChange: (override: string | null) => void;
+  /** Set when the file's bytes are not held (e.g. a restored workspace), so there is nothing to re-decode. */
+  disabled?: boolean;
+};
+
+/** Per-file encoding picker: "Auto" shows what detection found. */
+export default function EncodingSelect({
+  encoding,
+  onChange,
+  disabled = false,
+}: EncodingSelectProps) {
+  return (
+    <select
+      value={encoding?.overridden ? encoding.encoding : ""}
+      onChange={(e) => onChange(e.target.value || null)}
+      disabled={disabled || !encoding}
+      title={
+        disabled
+          ? "Load the file again to change its encoding"
+          : "Character encoding of the loaded file"
+      }
+      className="rounded border border-slate-300 bg-white px-2 py-1 text-xs text-slate-700 disabled:cursor-not-allowed disabled:opacity-50"
+    >
+      <option value="">
+        Auto ({encodingLabel(encoding?.detected ?? "utf-8")})
+      </option>
+      {encodingChoices.map((c) => (
+        <option key={c.value} value={c.value}>
+          {c.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,478 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import type { Diff } from "../workers/xmlDiffWorker";
+import { type FleetMatrixRow, exportFleetToExcel } from "../utils/export";
+import {
+  type ComparisonPool,
+  ComparisonCancelledError,
+  createComparisonPool,
+} from "../utils/comparisonPool";
+import { loadProfiles } from "../utils/ignoreRules";
+import { loadValueComparisonSettings } from "../utils/valueComparison";
+import { toUtf8Buffer } from "../utils/encoding";
+
+type DeviceStatus = "pending" | "running" | "done" | "error";
+
+type FleetDevice = {
+  id: string;
+  file: File;
+  status: DeviceStatus;
+  error?: string;
+  deviations: number;
+};
+
+const COLUMN_WIDTH = 180;
+const PATH_WIDTH = 420;
+
+function formatValue(value?: string) {
+  if (value === undefined) return "—";
+  if (value === "") return "(empty)";
+  return value;
+}
+
+const cellStyles: Record<Diff["change"], string> = {
+  added: "bg-cyan-50 text-cyan-900",
+  removed: "bg-rose-50 text-rose-900",
+  changed: "bg-amber-50 text-amber-900",
+  renumbered: "bg-violet-50 text-violet-900",
+  equivalent: "bg-emerald-50 text-emerald-900",
+};
+
+export default function FleetComparison() {
+  const [baselineFile, setBaselineFile] = useState<File | null>(null);
+  const [devices, setDevices] = useState<FleetDevice[]>([]);
+  const [diffsByDevice, setDiffsByDevice] = useState<Record<string, Diff[]>>(
+    {},
+  );
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<{
+    index: number;
+    percent: number;
+  } | null>(null);
+  const [minDevices, setMinDevices] = useState(1);
+  const [filter, setFilter] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const poolRef = useRef<ComparisonPool | null>(null);
+
+  useEffect(() => {
+    poolRef.current = createComparisonPool();
+    return () => {
+      poolRef.current?.dispose();
+      poolRef.current = null;
+    };
+  }, []);
+
+  // Rows are paths deviating on at least one device; cells follow device order.
+  // Renumbered rows carry instance positions, not values, so they show no
+  // baseline value.
+  const rows = useMemo<FleetMatrixRow[]>(() => {
+    const byPath = new Map<string, FleetMatrixRow>();
+    devices.forEach((device, index) => {
+      for (const diff of diffsByDevice[device.id] ?? []) {
+        if (diff.change === "equivalent") continue;
+        let row = byPath.get(diff.path);
+        if (!row) {
+          row = {
+            path: diff.path,
+            cells: new Array(devices.length).fill(undefined),
+            deviceCount: 0,
+          };
+          byPath.set(diff.path, row);
+        }
+        row.cells[index] = diff;
+        row.deviceCount += 1;
+        if (row.baselineValue === undefined && diff.change !== "renumbered") {
+          row.baselineValue = diff.leftValue;
+        }
+      }
+    });
+    return [...byPath.values()].sort((a, b) => a.path.localeCompare(b.path));
+  }, [devices, diffsByDevice]);
+
+  const filteredRows = useMemo(() => {
+    const q = filter.trim().toLowerCase();
+    return rows.filter(
+      (row) =>
+        row.deviceCount >= minDevices &&
+        (!q ||
+          row.path.toLowerCase().includes(q) ||
+          row.cells.some((c) => c?.rightValue?.toLowerCase().includes(q))),
+    );
+  }, [rows, minDevices, filter]);
+
+  const parentRef = useRef<HTMLDivElement | null>(null);
+  const rowVirtualizer = useVirtualizer({
+    count: filteredRows.length,
+    getScrollElement: () => parentRef.current,
+    estimateSize: () => 40,
+    overscan: 16,
+  });
+
+  const handleDeviceFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) return;
+    setDevices((prev) => [
+      ...prev,
+      ...files.map((file, i) => ({
+        id: `${Date.now()}-${i}-${file.name}`,
+        file,
+        status: "pending" as const,
+        deviations: 0,
+      })),
+    ]);
+  };
+
+  const removeDevice = (id: string) => {
+    setDevices((prev) => prev.filter((d) => d.id !== id));
+    setDiffsByDevice((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const updateDevice = (id: string, patch: Partial<FleetDevice>) => {
+    setDevices((prev) => prev.map((d) => (d.id === id ? { ...d, ...patch } : d)));
+  };
+
+  const handleRun = async () => {
+    const pool = poolRef.current;
+    if (!pool || !baselineFile || devices.length === 0) return;
+
+    // Same settings as the two-way comparison: active ignore profile and value comparison
+    const store = loadProfiles();
+    const profile = store.profiles.find((p) => p.id === store.activeProfileId);
+    const options = {
+      ignoreRules: profile?.rules ?? [],
+      valueComparison: loadValueComparisonSettings(),
+    };
+
+    setIsRunning(true);
+    setError(null);
+    setDiffsByDevice({});
+    setDevices((prev) =>
+      prev.map((d) => ({ ...d, status: "pending", error: undefined, deviations: 0 })),
+    );
+
+    try {
+      const baseline = toUtf8Buffer(await baselineFile.arrayBuffer());
+      for (let index = 0; index < devices.length; index++) {
+        const device = devices[index];
+        updateDevice(device.id, { status: "running" });
+        setProgress({ index, percent: 0 });
+        // The buffer is transferred to the worker, so each run gets its own copy
+        const result = await pool.run(
+          baseline.slice(0),
+          toUtf8Buffer(await device.file.arrayBuffer()),
+          options,
+          ({ phase, percent }) =>
+            setProgress({
+              index,
+              percent:
+                phase === "diff" ? 90 + percent / 10 : Math.round(percent * 0.9),
+            }),
+        );
+        if (result.type === "done") {
+          const deviations = result.differences.filter(
+            (d) => d.change !== "equivalent",
+          ).length;
+          setDiffsByDevice((prev) => ({ ...prev, [device.id]: result.differences }));
+          updateDevice(device.id, { status: "done", deviations });
+        } else if (result.leftError) {
+          setError(`Baseline XML error: ${result.leftError}`);
+          break;
+        } else {
+          updateDevice(device.id, { status: "error", error: result.rightError });
+        }
+      }
+    } catch (err) {
+      if (!(err instanceof ComparisonCancelledError)) {
+        setError((err as Error).message);
+      }
+    }
+    setIsRunning(false);
+    setProgress(null);
+  };
+
+  const handleCancel = () => {
+    poolRef.current?.cancel();
+    setDevices((prev) =>
+      prev.map((d) => (d.status === "running" ? { ...d, status: "pending" } : d)),
+    );
+  };
+
+  const handleExportExcel = () => {
+    const baseName = baselineFile?.name.replace(/\.xml$/i, "") || "fleet";
+    exportFleetToExcel(
+      filteredRows,
+      devices.map((d) => ({ name: d.file.name, deviations: d.deviations })),
+      `${baseName}-fleet-report`,
+    );
+  };
+
+  const maxDevices = Math.max(1, devices.length);
+
+  return (
+    <>
+      <header className="flex flex-col gap-3 rounded-2xl border border-slate-200 bg-white p-5 shadow-sm sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-xl font-semibold tracking-tight text-slate-900">
+            Fleet Comparison
+          </h1>
+          <p className="mt-1 text-sm text-slate-600">
+            Compare many device XMLs against one golden baseline. Uses the
+            active ignore profile and value comparison settings.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={handleRun}
+            disabled={isRunning || !baselineFile || devices.length === 0}
+            className="inline-flex items-center justify-center rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-primary-600 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isRunning
+              ? `Comparing ${(progress?.index ?? 0) + 1}/${devices.length}…`
+              : "Compare fleet"}
+          </button>
+          {isRunning && (
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="inline-flex items-center justify-center rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:bg-slate-50"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </header>
+
+      {/* Baseline and device inputs */}
+      <section className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+        <div className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+          <h2 className="text-base font-semibold text-slate-900">Baseline</h2>
+          <p className="mt-1 truncate text-xs text-slate-500">
+            {baselineFile?.name ?? "Golden configuration XML"}
+          </p>
+          <label className="mt-3 inline-flex cursor-pointer items-center gap-2 rounded-lg border border-primary-200 bg-primary-50 px-3 py-2 text-sm font-semibold text-primary-700 hover:bg-primary-100">
+            <input
+              type="file"
+              accept=".xml"
+              className="hidden"
+              onChange={(e) => {
+                setBaselineFile(e.target.files?.[0] ?? null);
+                setDiffsByDevice({});
+              }}
+            />
+            Load baseline
+          </label>
+        </div>
+
+        <div className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm lg:col-span-2">
+          <div className="flex items-center justify-between gap-3">
+            <h2 className="text-base font-semibold text-slate-900">
+              Devices ({devices.length})
+            </h2>
+            <label className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-primary-200 bg-primary-50 px-3 py-2 text-sm font-semibold text-primary-700 hover:bg-primary-100">
+              <input
+                type="file"
+                accept=".xml"
+                multiple
+                className="hidden"
+                onChange={handleDeviceFiles}
+              />
+              Add device files
+            </label>
+          </div>
+          <ul className="mt-3 max-h-48 overflow-y-auto text-sm">
+            {devices.length === 0 && (
+              <li className="text-slate-500">No device files loaded yet.</li>
+            )}
+            {devices.map((device, index) => (
+              <li
+                key={device.id}
+                className="flex items-center justify-between gap-3 border-b border-slate-100 py-1.5"
+              >
+                <span className="truncate font-mono text-xs text-slate-800">
+                  {device.file.name}
+                </span>
+                <span className="flex items-center gap-2 text-xs">
+                  {device.status === "running" && progress?.index === index && (
+                    <span className="text-primary">{progress.percent}%</span>
+                  )}
+                  {device.status === "done" && (
+                    <span className="font-semibold text-amber-700">
+                      {device.deviations} deviation
+                      {device.deviations === 1 ? "" : "s"}
+                    </span>
+                  )}
+                  {device.status === "error" && (
+                    <span className="text-rose-700" title={device.error}>
+                      XML error
+                    </span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => removeDevice(device.id)}
+                    disabled={isRunning}
+                    className="rounded px-2 py-0.5 text-red-600 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </section>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Deviation matrix: rows = parameter paths, columns = devices */}
+      <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <h2 className="text-base font-semibold text-slate-900">
+              Deviation matrix
+            </h2>
+            <p className="mt-1 text-sm text-slate-600">
+              {filteredRows.length} of {rows.length} deviating paths shown.
+              Highlighted cells differ from the baseline.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <label className="flex items-center gap-2 text-sm text-slate-700">
+              Differ on at least
+              <input
+                type="number"
+                min={1}
+                max={maxDevices}
+                value={minDevices}
+                onChange={(e) =>
+                  setMinDevices(
+                    Math.min(maxDevices, Math.max(1, Number(e.target.value) || 1)),
+                  )
+                }
+                className="w-16 rounded border border-slate-300 px-2 py-1 text-sm"
+              />
+              device(s)
+            </label>
+            <input
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              placeholder="Search path/value…"
+              className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900 shadow-sm outline-none placeholder:text-slate-400 focus:border-primary focus:ring-2 focus:ring-primary-200"
+            />
+            <button
+              onClick={handleExportExcel}
+              disabled={filteredRows.length === 0}
+              className="inline-flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 px-3 py-1.5 text-sm font-semibold text-green-700 hover:bg-green-100 disabled:cursor-not-allowed disabled:opacity-50"
+              title="Export the filtered matrix to Excel"
+            >
+              Export Excel
+            </button>
+          </div>
+        </div>
+
+        {filteredRows.length === 0 ? (
+          <div className="mt-4 rounded-xl border border-slate-200 px-4 py-8 text-center text-sm text-slate-600">
+            {isRunning
+              ? "Comparing…"
+              : rows.length === 0
+                ? "No results yet. Load a baseline and device files, then click Compare fleet."
+                : "No paths match the current filters."}
+          </div>
+        ) : (
+          <div
+            ref={parentRef}
+            className="mt-4 h-[520px] overflow-auto rounded-xl border border-slate-200 bg-white"
+          >
+            <div
+              style={{
+                width: PATH_WIDTH + COLUMN_WIDTH * (devices.length + 1),
+              }}
+            >
+              {/* Sticky header with per-device deviation counts */}
+              <div className="sticky top-0 z-10 flex bg-slate-50 text-xs font-semibold uppercase tracking-wide text-slate-600">
+                <div className="shrink-0 px-3 py-2" style={{ width: PATH_WIDTH }}>
+                  Path
+                </div>
+                <div className="shrink-0 px-3 py-2" style={{ width: COLUMN_WIDTH }}>
+                  Baseline
+                </div>
+                {devices.map((device) => (
+                  <div
+                    key={device.id}
+                    className="shrink-0 truncate px-3 py-2 normal-case"
+                    style={{ width: COLUMN_WIDTH }}
+                    title={device.file.name}
+                  >
+                    {device.file.name}
+                    <div className="font-normal text-amber-700">
+                      {device.deviations} deviation
+                      {device.deviations === 1 ? "" : "s"}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div
+                className="relative w-full"
+                style={{ height: `${rowVirtualizer.getTotalSize()}px` }}
+              >
+                {rowVirtualizer.getVirtualItems().map((virtualRow) => {
+                  const row = filteredRows[virtualRow.index]!;
+                  return (
+                    <div
+                      key={row.path}
+                      className="absolute left-0 top-0 flex w-full border-b border-slate-100 text-xs"
+                      style={{
+                        transform: `translateY(${virtualRow.start}px)`,
+                        height: `${virtualRow.size}px`,
+                      }}
+                    >
+                      <div
+                        className="shrink-0 truncate px-3 py-2 font-mono text-slate-900"
+                        style={{ width: PATH_WIDTH }}
+                        title={`${row.path} — differs on ${row.deviceCount} device(s)`}
+                      >
+                        {row.path}
+                      </div>
+                      <div
+                        className="shrink-0 truncate px-3 py-2 font-mono text-slate-700"
+                        style={{ width: COLUMN_WIDTH }}
+                      >
+                        {formatValue(row.baselineValue)}
+                      </div>
+                      {row.cells.map((cell, i) => (
+                        <div
+                          key={devices[i]?.id ?? i}
+                          className={`shrink-0 truncate px-3 py-2 font-mono ${
+                            cell ? cellStyles[cell.change] : "text-slate-400"
+                          }`}
+                          style={{ width: COLUMN_WIDTH }}
+                          title={cell ? cell.change : "Same as baseline"}
+                        >
+                          {cell
+                            ? cell.change === "removed"
+                              ? "(missing)"
+                              : formatValue(cell.rightValue)
+                            : formatValue(row.baselineValue)}
+                        </div>
+                      ))}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,290 @@
+import { useState } from "react";
+import {
+  type ComparisonProfile,
+  type IgnoreRule,
+  type IgnoreRuleKind,
+  type IgnoreRuleTarget,
+  createId,
+  createIgnoreRule,
+  exportProfileJson,
+  parseProfileJson,
+  validateIgnoreRule,
+} from "../utils/ignoreRules";
+
+type IgnoreProfilesPanelProps = {
+  profiles: ComparisonProfile[];
+  activeProfileId: string | null;
+  onProfilesChange: (profiles: ComparisonProfile[]) => void;
+  onActiveProfileChange: (id: string | null) => void;
+};
+
+const kindOptions: { value: IgnoreRuleKind; label: string }[] = [
+  { value: "prefix", label: "Prefix" },
+  { value: "glob", label: "Glob" },
+  { value: "regex", label: "Regex" },
+];
+
+const targetOptions: { value: IgnoreRuleTarget; label: string }[] = [
+  { value: "path", label: "Path" },
+  { value: "attribute", label: "Attribute name" },
+  { value: "value", label: "Value" },
+  { value: "namespace", label: "Namespace" },
+];
+
+const patternPlaceholders: Record<IgnoreRuleKind, string> = {
+  prefix: "Device[1].FaultMgmt[1]",
+  glob: "Device[1].**.NeighborList[*].LTECell[*]",
+  regex: "\\.X_[0-9A-F]{6}_",
+};
+
+export default function IgnoreProfilesPanel({
+  profiles,
+  activeProfileId,
+  onProfilesChange,
+  onActiveProfileChange,
+}: IgnoreProfilesPanelProps) {
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const activeProfile = profiles.find((p) => p.id === activeProfileId) ?? null;
+  const enabledCount = activeProfile
+    ? activeProfile.rules.filter((r) => r.enabled && r.pattern).length
+    : 0;
+
+  const updateActiveProfile = (patch: Partial<ComparisonProfile>) => {
+    if (!activeProfile) return;
+    onProfilesChange(
+      profiles.map((p) => (p.id === activeProfile.id ? { ...p, ...patch } : p)),
+    );
+  };
+
+  const updateRule = (id: string, patch: Partial<IgnoreRule>) => {
+    if (!activeProfile) return;
+    updateActiveProfile({
+      rules: activeProfile.rules.map((r) =>
+        r.id === id ? { ...r, ...patch } : r,
+      ),
+    });
+  };
+
+  const addProfile = () => {
+    const name = window.prompt("Profile name", `Profile ${profiles.length + 1}`);
+    if (!name?.trim()) return;
+    const profile: ComparisonProfile = {
+      id: createId("profile"),
+      name: name.trim(),
+      rules: [],
+    };
+    onProfilesChange([...profiles, profile]);
+    onActiveProfileChange(profile.id);
+  };
+
+  const renameProfile = () => {
+    if (!activeProfile) return;
+    const name = window.prompt("Rename profile", activeProfile.name);
+    if (!name?.trim()) return;
+    updateActiveProfile({ name: name.trim() });
+  };
+
+  const deleteProfile = () => {
+    if (!activeProfile) return;
+    if (!window.confirm(`Delete profile "${activeProfile.name}"?`)) return;
+    const remaining = profiles.filter((p) => p.id !== activeProfile.id);
+    onProfilesChange(remaining);
+    onActiveProfileChange(remaining[0]?.id ?? null);
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const imported = parseProfileJson(reader.result?.toString() ?? "");
+        onProfilesChange([...profiles, ...imported]);
+        onActiveProfileChange(imported[0].id);
+        setImportError(null);
+      } catch (err) {
+        setImportError(`Import failed: ${(err as Error).message}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <details className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+      <summary className="cursor-pointer text-base font-semibold text-slate-900">
+        Ignore rules
+        {enabledCount > 0 && (
+          <span className="ml-2 rounded-full bg-primary-50 px-2 py-0.5 text-xs font-semibold text-primary-700">
+            {enabledCount} active in “{activeProfile?.name}”
+          </span>
+        )}
+      </summary>
+      <p className="mt-2 text-sm text-slate-600">
+        Matching entries are skipped before diffing, so the counters reflect the
+        filtered result. Globs use <span className="font-mono">*</span> within a
+        path segment (e.g. <span className="font-mono">LTECell[*]</span>) and{" "}
+        <span className="font-mono">**</span> across segments. Namespace rules
+        match the URI or prefix of any element or attribute in the path.
+      </p>
+
+      {/* Profile selector and actions */}
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <select
+          value={activeProfileId ?? ""}
+          onChange={(e) => onActiveProfileChange(e.target.value || null)}
+          className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm text-slate-900 focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary-200"
+        >
+          <option value="">No profile (compare everything)</option>
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name} ({p.rules.length})
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={addProfile}
+          className="rounded border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50"
+        >
+          New
+        </button>
+        <button
+          type="button"
+          onClick={renameProfile}
+          disabled={!activeProfile}
+          className="rounded border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Rename
+        </button>
+        <button
+          type="button"
+          onClick={deleteProfile}
+          disabled={!activeProfile}
+          className="rounded border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Delete
+        </button>
+        <span className="mx-1 h-5 w-px bg-slate-200" />
+        <button
+          type="button"
+          onClick={() => activeProfile && exportProfileJson(activeProfile)}
+          disabled={!activeProfile}
+          className="rounded border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Export JSON
+        </button>
+        <label className="cursor-pointer rounded border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50">
+          Import JSON
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </label>
+      </div>
+
+      {importError && (
+        <div className="mt-2 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {importError}
+        </div>
+      )}
+
+      {/* Rules of the active profile */}
+      {activeProfile && (
+        <div className="mt-3 flex flex-col gap-2">
+          {activeProfile.rules.map((rule) => {
+            const ruleError = validateIgnoreRule(rule);
+            return (
+              <div key={rule.id} className="flex flex-wrap items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) =>
+                    updateRule(rule.id, { enabled: e.target.checked })
+                  }
+                  title="Enable rule"
+                />
+                <select
+                  value={rule.kind}
+                  onChange={(e) =>
+                    updateRule(rule.id, {
+                      kind: e.target.value as IgnoreRuleKind,
+                    })
+                  }
+                  className="rounded border border-slate-300 bg-white px-2 py-1 text-xs"
+                >
+                  {kindOptions.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={rule.target}
+                  onChange={(e) =>
+                    updateRule(rule.id, {
+                      target: e.target.value as IgnoreRuleTarget,
+                    })
+                  }
+                  className="rounded border border-slate-300 bg-white px-2 py-1 text-xs"
+                >
+                  {targetOptions.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={rule.pattern}
+                  onChange={(e) =>
+                    updateRule(rule.id, { pattern: e.target.value })
+                  }
+                  placeholder={
+                    rule.target === "namespace"
+                      ? "urn:broadband-forum-org:cwmp"
+                      : patternPlaceholders[rule.kind]
+                  }
+                  spellCheck={false}
+                  className={`min-w-[260px] flex-1 rounded border px-2 py-1 font-mono text-xs focus:outline-none focus:ring-1 ${
+                    ruleError
+                      ? "border-rose-300 focus:ring-rose-300"
+                      : "border-slate-300 focus:border-primary focus:ring-primary-200"
+                  }`}
+                  title={ruleError ?? undefined}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    updateActiveProfile({
+                      rules: activeProfile.rules.filter((r) => r.id !== rule.id),
+                    })
+                  }
+                  className="rounded px-2 py-1 text-xs text-red-600 hover:bg-red-50"
+                >
+                  Remove
+                </button>
+              </div>
+            );
+          })}
+          <div>
+            <button
+              type="button"
+              onClick={() =>
+                updateActiveProfile({
+                  rules: [...activeProfile.rules, createIgnoreRule()],
+                })
+              }
+              className="rounded border border-primary-200 bg-primary-50 px-3 py-1.5 text-xs font-semibold text-primary-700 hover:bg-primary-100"
+            >
+              + Add rule
+            </button>
+          </div>
+        </div>
+      )}
+    </details>
+  );
+}
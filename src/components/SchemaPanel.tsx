@@ -0,0 +1,252 @@
+import { useEffect, useState } from "react";
+import {
+  type InvalidDownloadPolicy,
+  type SchemaSet,
+  type SchemaViolation,
+  loadSchemaSettings,
+  loadSchemas,
+  maxSchemaViolations,
+  saveSchemaSettings,
+} from "../utils/xsd";
+import { decodeXml } from "../utils/encoding";
+
+type SchemaPanelProps = {
+  schemas: SchemaSet | null;
+  onSchemasChange: (schemas: SchemaSet | null) => void;
+  /** Null until the document has been checked. */
+  violations: SchemaViolation[] | null;
+  onValidate?: () => void;
+  /** The document changed after the listed check. */
+  stale?: boolean;
+  /** Offer the download setting; only the editors download documents. */
+  showDownloadPolicy?: boolean;
+  /** Jump to the element of a violation; rows are plain text without it. */
+  onSelect?: (violation: SchemaViolation) => void;
+};
+
+// Long lists are cut off; the count in the header stays exact
+const maxListed = 500;
+
+/** Load XSD files and list the places where a document breaks them. */
+export default function SchemaPanel({
+  schemas,
+  onSchemasChange,
+  violations,
+  onValidate,
+  stale = false,
+  showDownloadPolicy = false,
+  onSelect,
+}: SchemaPanelProps) {
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [settings, setSettings] = useState(loadSchemaSettings);
+
+  useEffect(() => {
+    saveSchemaSettings(settings);
+  }, [settings]);
+
+  // Schemas compile together, so a file loaded again replaces its earlier copy
+  const compile = (sources: SchemaSet["sources"]) => {
+    try {
+      onSchemasChange(sources.length > 0 ? loadSchemas(sources) : null);
+      setLoadError(null);
+    } catch (err) {
+      setLoadError((err as Error).message);
+    }
+  };
+
+  const handleLoad = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) return;
+    setIsLoading(true);
+    try {
+      const loaded = await Promise.all(
+        files.map(async (file) => ({
+          name: file.name,
+          text: decodeXml(await file.arrayBuffer()).text,
+        })),
+      );
+      const names = new Set(loaded.map((s) => s.name));
+      compile([
+        ...(schemas?.sources ?? []).filter((s) => !names.has(s.name)),
+        ...loaded,
+      ]);
+    } catch (err) {
+      setLoadError(`Failed to read schema: ${(err as Error).message}`);
+    }
+    setIsLoading(false);
+  };
+
+  const handleRemove = (name: string) =>
+    compile((schemas?.sources ?? []).filter((s) => s.name !== name));
+
+  const count = violations?.length ?? 0;
+
+  return (
+    <details className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+      <summary className="cursor-pointer text-base font-semibold text-slate-900">
+        Schema validation
+        {schemas && violations && (
+          <span
+            className={`ml-2 rounded-full px-2 py-0.5 text-xs font-semibold ${
+              count > 0
+                ? "bg-rose-50 text-rose-700"
+                : "bg-emerald-50 text-emerald-700"
+            }`}
+          >
+            {count > 0
+              ? `${count}${count >= maxSchemaViolations ? "+" : ""} violation${count === 1 ? "" : "s"}`
+              : "Valid"}
+          </span>
+        )}
+      </summary>
+      <p className="mt-2 text-sm text-slate-600">
+        Load the vendor's XSD files to check element order and occurrence,
+        required and undeclared attributes, and value types and facets.
+        Schemas that include or import each other only need to be loaded
+        together.
+      </p>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <label className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-primary-200 bg-primary-50 px-3 py-1.5 text-sm font-semibold text-primary-700 hover:bg-primary-100">
+          <input
+            type="file"
+            accept=".xsd,.xml"
+            multiple
+            className="hidden"
+            onChange={handleLoad}
+          />
+          {schemas ? "Add schema files" : "Load schema files"}
+        </label>
+        {onValidate && schemas && (
+          <button
+            type="button"
+            onClick={onValidate}
+            className="rounded-lg bg-[#2596be] px-3 py-1.5 text-sm font-semibold text-white hover:bg-[#1e7a9a]"
+          >
+            Validate
+          </button>
+        )}
+        {isLoading && (
+          <span className="text-xs text-slate-500">Reading schemas…</span>
+        )}
+        {showDownloadPolicy && (
+          <label className="ml-auto flex items-center gap-2 text-sm text-slate-700">
+            Invalid documents on download:
+            <select
+              value={settings.onInvalidDownload}
+              onChange={(e) =>
+                setSettings({
+                  onInvalidDownload: e.target.value as InvalidDownloadPolicy,
+                })
+              }
+              className="rounded border border-slate-300 px-2 py-1 text-sm"
+            >
+              <option value="warn">Warn</option>
+              <option value="block">Block</option>
+            </select>
+          </label>
+        )}
+      </div>
+
+      {schemas && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {schemas.sources.map((source) => (
+            <span
+              key={source.name}
+              className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-700"
+            >
+              {source.name}
+              <button
+                type="button"
+                onClick={() => handleRemove(source.name)}
+                className="text-slate-400 hover:text-slate-700"
+                title="Remove"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {loadError && (
+        <div className="mt-2 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {loadError}
+        </div>
+      )}
+
+      {schemas && schemas.warnings.length > 0 && (
+        <details className="mt-2 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800">
+          <summary className="cursor-pointer">
+            {schemas.warnings.length} schema warning
+            {schemas.warnings.length === 1 ? "" : "s"}: references to
+            undefined components are not checked
+          </summary>
+          <ul className="mt-1 list-disc pl-5">
+            {schemas.warnings.slice(0, maxListed).map((w) => (
+              <li key={w} className="break-all">
+                {w}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {stale && violations && (
+        <p className="mt-2 text-xs text-amber-700">
+          The document changed since this check; validate again to update the
+          list.
+        </p>
+      )}
+
+      {violations && count > 0 && (
+        <div className="mt-3 max-h-72 overflow-auto rounded-xl border border-slate-200">
+          <table className="w-full text-left text-xs">
+            <thead className="sticky top-0 bg-slate-50 text-slate-600">
+              <tr>
+                <th className="px-3 py-2 font-semibold">Line</th>
+                <th className="px-3 py-2 font-semibold">Path</th>
+                <th className="px-3 py-2 font-semibold">Rule</th>
+                <th className="px-3 py-2 font-semibold">Problem</th>
+              </tr>
+            </thead>
+            <tbody>
+              {violations.slice(0, maxListed).map((v, i) => (
+                <tr
+                  key={`${v.side ?? ""}${v.path}-${i}`}
+                  onClick={onSelect ? () => onSelect(v) : undefined}
+                  className={`border-t border-slate-100 ${
+                    onSelect ? "cursor-pointer hover:bg-slate-50" : ""
+                  }`}
+                >
+                  <td className="px-3 py-1.5 font-mono text-slate-500">
+                    {v.line}
+                  </td>
+                  <td className="break-all px-3 py-1.5 font-mono text-slate-800">
+                    {v.side && (
+                      <span className="mr-1 rounded bg-slate-100 px-1 font-sans font-semibold capitalize text-slate-600">
+                        {v.side}
+                      </span>
+                    )}
+                    {v.path}
+                  </td>
+                  <td className="whitespace-nowrap px-3 py-1.5 font-mono text-slate-600">
+                    {v.rule}
+                  </td>
+                  <td className="px-3 py-1.5 text-rose-700">{v.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {count > maxListed && (
+            <p className="px-3 py-2 text-xs text-slate-500">
+              Showing the first {maxListed} of {count}.
+            </p>
+          )}
+        </div>
+      )}
+    </details>
+  );
+}
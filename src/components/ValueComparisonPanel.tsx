@@ -0,0 +1,197 @@
+import {
+  type ValueComparisonOptions,
+  type ValueComparisonRule,
+  type ValueComparisonSettings,
+  createValueComparisonRule,
+  isStrict,
+} from "../utils/valueComparison";
+
+type ValueComparisonPanelProps = {
+  settings: ValueComparisonSettings;
+  onChange: (settings: ValueComparisonSettings) => void;
+};
+
+const modeLabels: {
+  key: Exclude<
+    keyof ValueComparisonOptions,
+    "absTolerance" | "relTolerance"
+  >;
+  label: string;
+  title: string;
+}[] = [
+  {
+    key: "numeric",
+    label: "Numeric",
+    title: "Compare numbers with a tolerance (20 = 20.0)",
+  },
+  { key: "boolean", label: "Boolean", title: "TR-069 booleans: true = 1, false = 0" },
+  { key: "whitespace", label: "Whitespace", title: "Trim and collapse whitespace" },
+  { key: "ignoreCase", label: "Ignore case", title: "Case-insensitive comparison" },
+  {
+    key: "unorderedList",
+    label: "Unordered list",
+    title: "Comma-separated lists compare as sets (a,b = b,a)",
+  },
+];
+
+function OptionsEditor({
+  options,
+  onChange,
+}: {
+  options: ValueComparisonOptions;
+  onChange: (options: ValueComparisonOptions) => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs text-slate-700">
+      {modeLabels.map(({ key, label, title }) => (
+        <label key={key} className="flex items-center gap-1" title={title}>
+          <input
+            type="checkbox"
+            checked={options[key]}
+            onChange={(e) => onChange({ ...options, [key]: e.target.checked })}
+          />
+          <span>{label}</span>
+        </label>
+      ))}
+      {options.numeric && (
+        <>
+          <label className="flex items-center gap-1">
+            <span>abs ±</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={options.absTolerance}
+              onChange={(e) =>
+                onChange({
+                  ...options,
+                  absTolerance: Math.max(0, Number(e.target.value) || 0),
+                })
+              }
+              className="w-20 rounded border border-slate-300 px-1.5 py-0.5 font-mono"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            <span>rel ±</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={options.relTolerance * 100}
+              onChange={(e) =>
+                onChange({
+                  ...options,
+                  relTolerance: Math.max(0, Number(e.target.value) || 0) / 100,
+                })
+              }
+              className="w-20 rounded border border-slate-300 px-1.5 py-0.5 font-mono"
+            />
+            <span>%</span>
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function ValueComparisonPanel({
+  settings,
+  onChange,
+}: ValueComparisonPanelProps) {
+  const activeRules = settings.rules.filter((r) => r.enabled && r.pattern);
+
+  const updateRule = (id: string, patch: Partial<ValueComparisonRule>) => {
+    onChange({
+      ...settings,
+      rules: settings.rules.map((r) => (r.id === id ? { ...r, ...patch } : r)),
+    });
+  };
+
+  return (
+    <details className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+      <summary className="cursor-pointer text-base font-semibold text-slate-900">
+        Value comparison
+        {(!isStrict(settings.global) || activeRules.length > 0) && (
+          <span className="ml-2 rounded-full bg-primary-50 px-2 py-0.5 text-xs font-semibold text-primary-700">
+            {isStrict(settings.global) ? "strict" : "semantic"} globally
+            {activeRules.length > 0 && ` · ${activeRules.length} path rule(s)`}
+          </span>
+        )}
+      </summary>
+      <p className="mt-2 text-sm text-slate-600">
+        Values that only differ by the selected normalizations are reported as{" "}
+        <span className="font-semibold">equivalent</span> instead of changed.
+        Path rules (globs, first match wins) replace the global settings for
+        matching parameters.
+      </p>
+
+      <div className="mt-3 rounded-xl border border-slate-200 bg-slate-50 p-3">
+        <div className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+          Global
+        </div>
+        <OptionsEditor
+          options={settings.global}
+          onChange={(global) => onChange({ ...settings, global })}
+        />
+      </div>
+
+      <div className="mt-3 flex flex-col gap-2">
+        {settings.rules.map((rule) => (
+          <div
+            key={rule.id}
+            className="flex flex-col gap-2 rounded-xl border border-slate-200 p-3"
+          >
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) =>
+                  updateRule(rule.id, { enabled: e.target.checked })
+                }
+                title="Enable rule"
+              />
+              <input
+                type="text"
+                value={rule.pattern}
+                onChange={(e) => updateRule(rule.id, { pattern: e.target.value })}
+                placeholder="Device[1].**.RAN[1].RF[1].*"
+                spellCheck={false}
+                className="flex-1 rounded border border-slate-300 px-2 py-1 font-mono text-xs focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary-200"
+              />
+              <button
+                type="button"
+                onClick={() =>
+                  onChange({
+                    ...settings,
+                    rules: settings.rules.filter((r) => r.id !== rule.id),
+                  })
+                }
+                className="rounded px-2 py-1 text-xs text-red-600 hover:bg-red-50"
+              >
+                Remove
+              </button>
+            </div>
+            <OptionsEditor
+              options={rule.options}
+              onChange={(options) => updateRule(rule.id, { options })}
+            />
+          </div>
+        ))}
+        <div>
+          <button
+            type="button"
+            onClick={() =>
+              onChange({
+                ...settings,
+                rules: [...settings.rules, createValueComparisonRule()],
+              })
+            }
+            className="rounded border border-primary-200 bg-primary-50 px-3 py-1.5 text-xs font-semibold text-primary-700 hover:bg-primary-100"
+          >
+            + Add path rule
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
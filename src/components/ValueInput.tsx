@@ -0,0 +1,179 @@
+import { useEffect, useId, useState } from "react";
+import {
+  type ValueEditorType,
+  doubtValue,
+  integerBounds,
+  maskValue,
+  rejectValue,
+} from "../utils/valueEditors";
+
+type ValueInputProps = {
+  value: string;
+  type: ValueEditorType;
+  /** Receives only values the type accepts, so rejected input never reaches the undo history. */
+  onChange: (value: string) => void;
+  /** Problem reported for the current value (e.g. a data-model violation). */
+  problem?: string;
+  className?: string;
+};
+
+const sourceLabels: Record<ValueEditorType["source"], string> = {
+  model: "from the data model",
+  attribute: "from the type attribute",
+  inferred: "inferred from the value",
+};
+
+const inputClass =
+  "rounded border px-2 py-1 text-xs font-mono focus:border-[#2596be] focus:outline-none focus:ring-1 focus:ring-[#2596be]/50";
+
+/**
+ * Value editor matching the value's type: checkbox, dropdown, spinner or masked
+ * text. Types guessed from the loaded value accept any text and only warn.
+ */
+export default function ValueInput({
+  value,
+  type,
+  onChange,
+  problem,
+  className = "",
+}: ValueInputProps) {
+  // Input the type rejects stays local until it becomes valid or the field loses focus
+  const [draft, setDraft] = useState<string | null>(null);
+  const [rejection, setRejection] = useState<string | null>(null);
+  const listId = useId();
+
+  useEffect(() => {
+    setDraft(null);
+    setRejection(null);
+  }, [value]);
+
+  // An inferred type only picks the widget: any text is accepted, with a warning
+  const guessed = type.source === "inferred";
+  const warning = doubtValue(type, draft ?? value);
+  const message = rejection ?? problem ?? warning;
+  const typeName = type.syntax.dataType ?? type.syntax.type;
+  const title =
+    message ??
+    (type.kind === "text" && type.source === "inferred"
+      ? undefined
+      : `${typeName} (${sourceLabels[type.source]})`);
+  const stateClass =
+    rejection || problem
+      ? "border-rose-400 bg-rose-50"
+      : warning
+        ? "border-amber-400 bg-amber-50"
+        : "border-slate-300 bg-white";
+
+  const edit = (raw: string) => {
+    const next = guessed ? raw : maskValue(type.kind, raw);
+    const reason = rejectValue(type, next);
+    setDraft(next);
+    setRejection(reason);
+    if (!reason && next !== value) onChange(next);
+  };
+
+  const revert = () => {
+    setDraft(null);
+    setRejection(null);
+  };
+
+  if (type.kind === "boolean" && !guessed) {
+    // Keep the document's spelling: "1"/"0" stay numeric
+    const numeric = value === "1" || value === "0";
+    return (
+      <label
+        className={`inline-flex items-center gap-2 rounded border px-2 py-1 text-xs font-mono ${stateClass} ${className}`}
+        title={title}
+      >
+        <input
+          type="checkbox"
+          checked={value === "true" || value === "1"}
+          onChange={(e) =>
+            onChange(
+              numeric
+                ? e.target.checked
+                  ? "1"
+                  : "0"
+                : String(e.target.checked),
+            )
+          }
+        />
+        {value || "(empty)"}
+      </label>
+    );
+  }
+
+  if (type.kind === "enumeration") {
+    const options = type.syntax.enumerations;
+    return (
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        title={title}
+        className={`${inputClass} ${stateClass} ${className}`}
+      >
+        {!options.includes(value) && (
+          <option value={value} disabled>
+            {value || "(empty)"} (not allowed)
+          </option>
+        )}
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {option || "(empty)"}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  const common = {
+    value: draft ?? value,
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => edit(e.target.value),
+    onBlur: revert,
+    spellCheck: false,
+    title,
+    className: `${inputClass} ${stateClass} ${className}`,
+  };
+
+  if (type.kind === "integer") {
+    const { min, max, step } = integerBounds(type.syntax);
+    return (
+      <input
+        {...common}
+        type={guessed ? "text" : "number"}
+        inputMode="numeric"
+        min={min}
+        max={max}
+        step={step ?? 1}
+      />
+    );
+  }
+
+  if (type.kind === "boolean") {
+    return (
+      <>
+        <input {...common} type="text" list={listId} />
+        <datalist id={listId}>
+          <option value="true" />
+          <option value="false" />
+        </datalist>
+      </>
+    );
+  }
+
+  return (
+    <input
+      {...common}
+      type="text"
+      placeholder={
+        type.kind === "mac"
+          ? "00:00:00:00:00:00"
+          : type.kind === "ipv4"
+            ? "0.0.0.0"
+            : type.kind === "ip"
+              ? "IPv4 or IPv6 address"
+              : "..."
+      }
+    />
+  );
+}
@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import {
+  type SaveStatus,
+  type Workspace,
+  type WorkspaceState,
+  deleteWorkspace,
+  emptyWorkspaceState,
+  exportWorkspaceJson,
+  listWorkspaces,
+  loadWorkspaceState,
+  newWorkspace,
+  openStartupWorkspace,
+  parseWorkspaceJson,
+  saveWorkspace,
+  setActiveWorkspace,
+  uniqueWorkspaceName,
+} from "../utils/workspaces";
+
+type WorkspaceBarProps = {
+  workspace: Workspace | null;
+  status: SaveStatus;
+  /** Writes the pending autosave of the open workspace. */
+  flush: () => Promise<void>;
+  /** Current state of the open workspace, for export. */
+  getState: () => WorkspaceState;
+  onOpen: (workspace: Workspace, state: WorkspaceState) => void;
+  onRename: (workspace: Workspace) => void;
+};
+
+const buttonClass =
+  "rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50";
+
+/** Workspace switcher with autosave status; opens the last workspace on load. */
+export default function WorkspaceBar({
+  workspace,
+  status,
+  flush,
+  getState,
+  onOpen,
+  onRename,
+}: WorkspaceBarProps) {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [recovered, setRecovered] = useState<Workspace | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [available, setAvailable] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    openStartupWorkspace()
+      .then((opened) => {
+        if (cancelled) return;
+        setWorkspaces(opened.workspaces);
+        if (opened.recovered) setRecovered(opened.workspace);
+        onOpen(opened.workspace, opened.state);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setAvailable(false);
+        setError(
+          `Workspaces are not saved in this browser: ${(err as Error).message}`,
+        );
+        onOpen(newWorkspace("Unsaved workspace"), emptyWorkspaceState);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Every action saves the open workspace first so switching never loses edits
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await flush();
+      await action();
+      setError(null);
+    } catch (err) {
+      setError(`Workspace action failed: ${(err as Error).message}`);
+    }
+  };
+
+  const open = async (target: Workspace) => {
+    const state = (await loadWorkspaceState(target.id)) ?? emptyWorkspaceState;
+    setWorkspaces(await listWorkspaces());
+    setActiveWorkspace(target.id);
+    setRecovered(null);
+    onOpen(target, state);
+  };
+
+  const handleSwitch = (id: string) => {
+    const target = workspaces.find((w) => w.id === id);
+    if (target) void run(() => open(target));
+  };
+
+  const handleCreate = () => {
+    const name = window.prompt(
+      "Workspace name",
+      uniqueWorkspaceName(`Workspace ${workspaces.length + 1}`, workspaces),
+    );
+    if (!name?.trim()) return;
+    void run(async () =>
+      open(
+        await saveWorkspace(
+          newWorkspace(uniqueWorkspaceName(name.trim(), workspaces)),
+          emptyWorkspaceState,
+        ),
+      ),
+    );
+  };
+
+  const handleRename = () => {
+    if (!workspace) return;
+    const name = window.prompt("Rename workspace", workspace.name);
+    if (!name?.trim() || name.trim() === workspace.name) return;
+    void run(async () => {
+      const others = workspaces.filter((w) => w.id !== workspace.id);
+      const renamed = await saveWorkspace({
+        ...workspace,
+        name: uniqueWorkspaceName(name.trim(), others),
+      });
+      setWorkspaces(await listWorkspaces());
+      onRename(renamed);
+    });
+  };
+
+  const handleDelete = () => {
+    if (!workspace) return;
+    if (
+      !window.confirm(
+        `Delete workspace "${workspace.name}"? Its documents and history are removed from this browser.`,
+      )
+    ) {
+      return;
+    }
+    void run(async () => {
+      await deleteWorkspace(workspace.id);
+      const remaining = await listWorkspaces();
+      await open(
+        remaining[0] ??
+          (await saveWorkspace(newWorkspace("Workspace 1"), emptyWorkspaceState)),
+      );
+    });
+  };
+
+  const handleExport = () => {
+    if (workspace) exportWorkspaceJson(workspace, getState());
+  };
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    void run(async () => {
+      const imported = parseWorkspaceJson(await file.text());
+      const saved = await saveWorkspace(
+        {
+          ...imported.workspace,
+          name: uniqueWorkspaceName(imported.workspace.name, workspaces),
+        },
+        imported.state,
+      );
+      await open(saved);
+    });
+  };
+
+  const statusText =
+    status.state === "pending" || status.state === "saving"
+      ? "Saving…"
+      : status.state === "saved"
+        ? `Saved ${new Date(status.workspace.updatedAt).toLocaleTimeString()}`
+        : status.state === "failed"
+          ? `Not saved: ${status.error}`
+          : "";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+          Workspace
+          <select
+            value={workspace?.id ?? ""}
+            onChange={(e) => handleSwitch(e.target.value)}
+            disabled={!available || !workspace}
+            className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-sm font-normal text-slate-900 focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary-200"
+          >
+            {!available && workspace && (
+              <option value={workspace.id}>{workspace.name}</option>
+            )}
+            {workspaces.map((w) => (
+              <option key={w.id} value={w.id}>
+                {w.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={handleCreate}
+          disabled={!available}
+          className={buttonClass}
+        >
+          New
+        </button>
+        <button
+          type="button"
+          onClick={handleRename}
+          disabled={!available || !workspace}
+          className={buttonClass}
+        >
+          Rename
+        </button>
+        <button
+          type="button"
+          onClick={handleDelete}
+          disabled={!available || !workspace}
+          className={buttonClass}
+        >
+          Delete
+        </button>
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={!workspace}
+          className={buttonClass}
+          title="Download the workspace as a single file"
+        >
+          Export
+        </button>
+        <label
+          className={`${buttonClass} ${available ? "cursor-pointer" : "pointer-events-none opacity-50"}`}
+        >
+          Import
+          <input
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </label>
+        {available && statusText && (
+          <span
+            className={`ml-auto text-xs ${
+              status.state === "failed" ? "text-rose-700" : "text-slate-500"
+            }`}
+          >
+            {statusText}
+          </span>
+        )}
+      </div>
+
+      {recovered && (
+        <div className="flex items-center justify-between gap-3 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          <span>
+            The previous session did not close cleanly. “{recovered.name}” was
+            reopened as autosaved at{" "}
+            {new Date(recovered.updatedAt).toLocaleString()}.
+          </span>
+          <button
+            type="button"
+            onClick={() => setRecovered(null)}
+            className="text-xs font-semibold underline hover:text-amber-900"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
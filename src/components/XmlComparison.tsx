@@ -1,16 +1,107 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useVirtualizer } from "@tanstack/react-virtual";
-import type { Diff } from "../workers/xmlDiffWorker";
-import { exportToCSV, exportToExcel } from "../utils/export";
+import type { ComparisonSide, Diff } from "../workers/xmlDiffWorker";
+import {
+  type ChangeSheetTarget,
+  exportChangeSheet,
+  exportToCSV,
+  exportToExcel,
+  exportToHtml,
+  exportToJson,
+  exportUnifiedDiff,
+} from "../utils/export";
+import { flatLines } from "../utils/unifiedDiff";
+import type { ReportContext, ReportSide } from "../utils/report";
+import { type LoadedReport, loadReportFile } from "../utils/reportImport";
+import { parseMatchKeyRules } from "../utils/matchKeys";
+import { type InstanceMaps, applyDiffsToTree } from "../utils/cherryPick";
+import {
+  flattenEditableTree,
+  parseEditableXml,
+  serializeEditableXml,
+} from "../utils/xmlTree";
+import { type NamespaceTable, pathNamespaces } from "../utils/namespaces";
+import {
+  type FileEncoding,
+  decodeXml,
+  encodeXml,
+  toUtf8Buffer,
+} from "../utils/encoding";
+import {
+  type ComparisonPool,
+  ComparisonCancelledError,
+  createComparisonPool,
+} from "../utils/comparisonPool";
+import { loadProfiles, saveProfiles } from "../utils/ignoreRules";
+import {
+  loadValueComparisonSettings,
+  saveValueComparisonSettings,
+} from "../utils/valueComparison";
+import {
+  type DataModel,
+  type ValueViolation,
+  validateValues,
+} from "../utils/dataModel";
+import IgnoreProfilesPanel from "./IgnoreProfilesPanel";
+import ValueComparisonPanel from "./ValueComparisonPanel";
+import XmlTreeDiff from "./XmlTreeDiff";
+import EncodingSelect from "./EncodingSelect";
+import {
+  type SchemaSet,
+  type SchemaViolation,
+  validateXml,
+} from "../utils/xsd";
+import {
+  type AnnotationScope,
+  type AnnotationStatus,
+  annotationColors,
+  annotationScope,
+  annotationStatusLabels,
+  annotationsFor,
+  loadAnnotations,
+  saveAnnotations,
+  setAnnotation,
+} from "../utils/annotations";
+import type { ComparisonState } from "../utils/workspaces";
+import DataModelPanel from "./DataModelPanel";
+import SchemaPanel from "./SchemaPanel";
+import DiffAnnotationEditor from "./DiffAnnotationEditor";
 
-type ChangeKind = "added" | "removed" | "changed";
+type XmlComparisonProps = {
+  dataModel?: DataModel | null;
+  onDataModelChange?: (model: DataModel | null) => void;
+  schemas?: SchemaSet | null;
+  onSchemasChange?: (schemas: SchemaSet | null) => void;
+  /** State restored from the open workspace. */
+  workspaceState?: ComparisonState;
+  onWorkspaceStateChange?: (state: ComparisonState) => void;
+};
+
+type ChangeKind =
+  | "added"
+  | "removed"
+  | "changed"
+  | "renumbered"
+  | "equivalent";
 type Stats = Record<ChangeKind, number>;
 type Progress = {
-  percent: number;
+  left: number;
+  right: number;
+  diff: number;
   message?: string;
-  phase?: "left" | "right" | "diff";
 } | null;
 type QuickFilterKey = "FaultMgmt" | "NeighborList" | "NeighborListInUse";
+type AnnotationFilter = "all" | "unannotated" | AnnotationStatus;
+
+const emptyInstances: InstanceMaps = { left: {}, right: {} };
+
+const emptyStats: Stats = {
+  added: 0,
+  removed: 0,
+  changed: 0,
+  renumbered: 0,
+  equivalent: 0,
+};
 
 const sampleLeft = `<device>
   <name>Femto A</name>
@@ -80,6 +171,45 @@ function extractValueFromXml(xmlString: string, path: string): string | null {
   }
 }
 
+/** UTF-8 bytes of the input: the original file when unedited, else the textarea text. */
+async function toXmlBuffer(
+  file: File | null,
+  xml: string,
+  encoding: FileEncoding | null,
+): Promise<ArrayBuffer> {
+  if (file) {
+    return toUtf8Buffer(
+      await file.arrayBuffer(),
+      encoding?.overridden ? encoding.encoding : null,
+    );
+  }
+  return new TextEncoder().encode(xml).buffer as ArrayBuffer;
+}
+
+/** Device identifiers named in reports, read from each document when present. */
+const reportIdentifierPaths: { label: string; path: string }[] = [
+  { label: "Serial number", path: "Device[1].DeviceInfo[1].SerialNumber[1]" },
+  { label: "Product class", path: "Device[1].DeviceInfo[1].ProductClass[1]" },
+  {
+    label: "Software version",
+    path: "Device[1].DeviceInfo[1].SoftwareVersion[1]",
+  },
+  {
+    label: "Local ID",
+    path: "Device[1].IPsec[1].Profile[1].i1[1].X_2C7AF4_LocalId[1]",
+  },
+];
+
+function reportSide(fileName: string | null, xml: string): ReportSide {
+  return {
+    fileName,
+    identifiers: reportIdentifierPaths.flatMap(({ label, path }) => {
+      const value = extractValueFromXml(xml, path);
+      return value ? [{ label, value }] : [];
+    }),
+  };
+}
+
 const quickFilterPatterns: Record<QuickFilterKey, string | null> = {
   FaultMgmt: "Device[1].FaultMgmt[1]",
   NeighborList:
@@ -88,52 +218,196 @@ const quickFilterPatterns: Record<QuickFilterKey, string | null> = {
     "Device[1].Services[1].FAPService[1].i1[1].CellConfig[1].LTE[1].RAN[1].NeighborListInUse",
 };
 
-export function XmlComparison() {
-  const [leftXml, setLeftXml] = useState(sampleLeft);
-  const [rightXml, setRightXml] = useState(sampleRight);
+export function XmlComparison({
+  dataModel = null,
+  onDataModelChange,
+  schemas = null,
+  onSchemasChange,
+  workspaceState: saved,
+  onWorkspaceStateChange,
+}: XmlComparisonProps) {
+  const [leftXml, setLeftXml] = useState(saved?.left.xml ?? sampleLeft);
+  const [rightXml, setRightXml] = useState(saved?.right.xml ?? sampleRight);
   const [lastRun, setLastRun] = useState<Date | null>(null);
-  const [leftFileName, setLeftFileName] = useState<string | null>(null);
-  const [rightFileName, setRightFileName] = useState<string | null>(null);
-  const [leftFileValue, setLeftFileValue] = useState<string | null>(null);
-  const [rightFileValue, setRightFileValue] = useState<string | null>(null);
+  const [leftFileName, setLeftFileName] = useState<string | null>(
+    saved?.left.fileName ?? null,
+  );
+  const [rightFileName, setRightFileName] = useState<string | null>(
+    saved?.right.fileName ?? null,
+  );
+  // Loaded files are streamed to the worker as-is until the textarea is edited
+  const [leftFile, setLeftFile] = useState<File | null>(null);
+  const [rightFile, setRightFile] = useState<File | null>(null);
+  const [leftEncoding, setLeftEncoding] = useState<FileEncoding | null>(
+    saved?.left.encoding ?? null,
+  );
+  const [rightEncoding, setRightEncoding] = useState<FileEncoding | null>(
+    saved?.right.encoding ?? null,
+  );
+  const [leftFileValue, setLeftFileValue] = useState<string | null>(
+    saved?.left.fileValue ?? null,
+  );
+  const [rightFileValue, setRightFileValue] = useState<string | null>(
+    saved?.right.fileValue ?? null,
+  );
   const [leftFileLoading, setLeftFileLoading] = useState(false);
   const [rightFileLoading, setRightFileLoading] = useState(false);
   const [isComparing, setIsComparing] = useState(false);
   const [leftError, setLeftError] = useState<string | undefined>(undefined);
   const [rightError, setRightError] = useState<string | undefined>(undefined);
   const [differences, setDifferences] = useState<Diff[]>([]);
-  const [stats, setStats] = useState<Stats>({
-    added: 0,
-    removed: 0,
-    changed: 0,
-  });
-  const [filter, setFilter] = useState("");
+  const [stats, setStats] = useState<Stats>(emptyStats);
+  const [filter, setFilter] = useState(saved?.filter ?? "");
   const [changeFilter, setChangeFilter] = useState<Record<ChangeKind, boolean>>(
     {
       added: true,
       removed: true,
       changed: true,
+      renumbered: true,
+      // Values equal only after normalization are hidden unless asked for
+      equivalent: false,
+      ...saved?.changeFilter,
     },
   );
+  const [matchKeysText, setMatchKeysText] = useState(
+    saved?.matchKeysText ?? "",
+  );
+  const matchKeyRules = useMemo(
+    () => parseMatchKeyRules(matchKeysText),
+    [matchKeysText],
+  );
+  const [profileStore] = useState(loadProfiles);
+  const [profiles, setProfiles] = useState(profileStore.profiles);
+  const [activeProfileId, setActiveProfileId] = useState(
+    profileStore.activeProfileId,
+  );
+  const [ignoredCount, setIgnoredCount] = useState(0);
+  const [valueComparison, setValueComparison] = useState(
+    loadValueComparisonSettings,
+  );
   console.log("leftFileName............leftFileValue", leftFileValue);
   const [excludedQuickFilters, setExcludedQuickFilters] = useState<
     Set<Exclude<QuickFilterKey, "all">>
-  >(new Set());
-  const [valueView, setValueView] = useState<"both" | "valueOnly">("both");
+  >(() => new Set((saved?.excludedQuickFilters ?? []) as QuickFilterKey[]));
+  const [valueView, setValueView] = useState<"both" | "valueOnly">(
+    saved?.valueView ?? "both",
+  );
+  const [changeSheetTarget, setChangeSheetTarget] = useState<ChangeSheetTarget>(
+    saved?.changeSheetTarget ?? "left",
+  );
   const [progress, setProgress] = useState<Progress>(null);
+  const [resultsView, setResultsView] = useState<"list" | "tree">(
+    saved?.resultsView ?? "list",
+  );
+  const [instances, setInstances] = useState<InstanceMaps>(emptyInstances);
+  const [namespaces, setNamespaces] = useState<NamespaceTable>({});
+  const [namespaceFilter, setNamespaceFilter] = useState(
+    saved?.namespaceFilter ?? "",
+  );
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const [cherryPickNote, setCherryPickNote] = useState<string | null>(null);
+  // Results of an opened report replace the comparison until closed
+  const [review, setReview] = useState<LoadedReport | null>(null);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  // The Excel report loads its library on first use, which can take a while
+  const [isExportingExcel, setIsExportingExcel] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [schemaViolations, setSchemaViolations] = useState<
+    SchemaViolation[] | null
+  >(null);
+  const [annotationStore, setAnnotationStore] = useState(loadAnnotations);
+  // Files (and device) of the shown results; annotations are kept per pair
+  const [resultScope, setResultScope] = useState<AnnotationScope | null>(null);
+  const [annotationFilter, setAnnotationFilter] = useState<AnnotationFilter>(
+    (saved?.annotationFilter as AnnotationFilter | undefined) ?? "all",
+  );
+  const [editingPath, setEditingPath] = useState<string | null>(null);
 
-  const workerRef = useRef<Worker | null>(null);
+  const poolRef = useRef<ComparisonPool | null>(null);
+  // Bumped by every Compare and Cancel; a run that finds it changed was superseded
+  const runRef = useRef(0);
+
+  useEffect(() => {
+    saveProfiles(profiles, activeProfileId);
+  }, [profiles, activeProfileId]);
+
+  useEffect(() => {
+    saveValueComparisonSettings(valueComparison);
+  }, [valueComparison]);
 
   useEffect(() => {
-    workerRef.current = new Worker(
-      new URL("../workers/xmlDiffWorker.ts", import.meta.url),
-      {
-        type: "module",
+    saveAnnotations(annotationStore);
+  }, [annotationStore]);
+
+  useEffect(() => {
+    onWorkspaceStateChange?.({
+      left: {
+        xml: leftXml,
+        fileName: leftFileName,
+        fileValue: leftFileValue,
+        encoding: leftEncoding,
       },
-    );
+      right: {
+        xml: rightXml,
+        fileName: rightFileName,
+        fileValue: rightFileValue,
+        encoding: rightEncoding,
+      },
+      matchKeysText,
+      filter,
+      changeFilter,
+      excludedQuickFilters: [...excludedQuickFilters],
+      namespaceFilter,
+      annotationFilter,
+      valueView,
+      changeSheetTarget,
+      resultsView,
+    });
+  }, [
+    leftXml,
+    rightXml,
+    leftFileName,
+    rightFileName,
+    leftFileValue,
+    rightFileValue,
+    leftEncoding,
+    rightEncoding,
+    matchKeysText,
+    filter,
+    changeFilter,
+    excludedQuickFilters,
+    namespaceFilter,
+    annotationFilter,
+    valueView,
+    changeSheetTarget,
+    resultsView,
+  ]);
+
+  const annotations = useMemo(
+    () => (resultScope ? annotationsFor(annotationStore, resultScope) : {}),
+    [annotationStore, resultScope],
+  );
+
+  const annotationCounts = useMemo(() => {
+    const counts: Record<AnnotationStatus, number> = {
+      expected: 0,
+      unexpected: 0,
+      followUp: 0,
+    };
+    for (const d of differences) {
+      const status = annotations[d.path]?.status;
+      if (status) counts[status] += 1;
+    }
+    return counts;
+  }, [differences, annotations]);
+
+  useEffect(() => {
+    poolRef.current = createComparisonPool();
     return () => {
-      workerRef.current?.terminate();
-      workerRef.current = null;
+      poolRef.current?.dispose();
+      poolRef.current = null;
     };
   }, []);
 
@@ -183,8 +457,68 @@ export function XmlComparison() {
       });
     }
 
+    // keep rows naming an element or attribute in the selected namespace
+    if (namespaceFilter) {
+      byKind = byKind.filter((d) =>
+        pathNamespaces(d.path, namespaces).includes(namespaceFilter),
+      );
+    }
+
+    if (annotationFilter !== "all") {
+      byKind = byKind.filter((d) =>
+        annotationFilter === "unannotated"
+          ? !annotations[d.path]?.status
+          : annotations[d.path]?.status === annotationFilter,
+      );
+    }
+
     return byKind;
-  }, [differences, filter, changeFilter, excludedQuickFilters]);
+  }, [
+    differences,
+    filter,
+    changeFilter,
+    excludedQuickFilters,
+    namespaceFilter,
+    namespaces,
+    annotationFilter,
+    annotations,
+  ]);
+
+  // Values of both sides checked against the loaded data model
+  const violations = useMemo(() => {
+    if (!dataModel) return [];
+    const values: {
+      path: string;
+      value: string;
+      edited?: boolean;
+      side: "left" | "right";
+    }[] = [];
+    for (const d of differences) {
+      // Renumbered rows carry instance positions, not parameter values
+      if (d.change === "renumbered") continue;
+      if (d.leftValue !== undefined) {
+        values.push({ path: d.path, value: d.leftValue, side: "left" });
+      }
+      if (d.rightValue !== undefined) {
+        // Rows read left to right, so a read-only change is reported once
+        values.push({
+          path: d.path,
+          value: d.rightValue,
+          edited: d.change === "changed",
+          side: "right",
+        });
+      }
+    }
+    return validateValues(dataModel, values);
+  }, [dataModel, differences]);
+
+  const violationsByPath = useMemo(() => {
+    const byPath = new Map<string, ValueViolation[]>();
+    for (const v of violations) {
+      byPath.set(v.path, [...(byPath.get(v.path) ?? []), v]);
+    }
+    return byPath;
+  }, [violations]);
 
   const activeKindsCount = (Object.values(changeFilter).filter(Boolean)
     .length || 0) as number;
@@ -199,76 +533,178 @@ export function XmlComparison() {
     setLeftError(undefined);
     setRightError(undefined);
     setDifferences([]);
-    setStats({ added: 0, removed: 0, changed: 0 });
+    setStats(emptyStats);
+    setIgnoredCount(0);
     setLastRun(null);
+    setReview(null);
+    setSchemaViolations(null);
+    setResultScope(null);
+    setEditingPath(null);
   }, [leftXml, rightXml]);
 
-  const handleCompare = () => {
-    const worker = workerRef.current;
-    if (!worker) return;
+  // Both sides are checked on request: validating large inputs blocks the page
+  const handleValidateSchema = () => {
+    if (!schemas) return;
+    const check = (side: ComparisonSide, xml: string) =>
+      xml.trim()
+        ? validateXml(schemas, xml).map((v) => ({ ...v, side }))
+        : [];
+    setSchemaViolations([
+      ...check("left", leftXml),
+      ...check("right", rightXml),
+    ]);
+  };
+
+  useEffect(() => {
+    // Results of other schemas no longer apply
+    setSchemaViolations(null);
+  }, [schemas]);
+
+  useEffect(() => {
+    // A namespace filter only makes sense while that namespace is still present
+    if (namespaceFilter && !Object.values(namespaces).includes(namespaceFilter)) {
+      setNamespaceFilter("");
+    }
+  }, [namespaces, namespaceFilter]);
+
+  useEffect(() => {
+    // Selections refer to rows of one result set
+    setSelectedPaths(new Set());
+    setCherryPickNote(null);
+  }, [differences]);
+
+  const handleCompare = async () => {
+    const pool = poolRef.current;
+    if (!pool) return;
 
+    // A new compare supersedes a running one
+    const run = ++runRef.current;
+    pool.cancel();
+    setReview(null);
+    setReviewError(null);
     setIsComparing(true);
     setLeftError(undefined);
     setRightError(undefined);
-    setProgress({ percent: 0, message: "Starting…" });
-
-    const onMessage = (event: MessageEvent<any>) => {
-      const data = event.data as
-        | {
-            ok: true;
-            type: "progress";
-            phase: "left" | "right" | "diff";
-            percent: number;
-            message?: string;
-          }
-        | { ok: true; type: "done"; differences: Diff[]; stats: Stats }
-        | { ok: false; type: "error"; leftError?: string; rightError?: string };
-
-      if (data.ok && data.type === "progress") {
-        setProgress({
-          percent: data.percent,
-          message: data.message,
-          phase: data.phase,
-        });
-        return;
-      }
+    setProgress({ left: 0, right: 0, diff: 0, message: "Starting…" });
+
+    try {
+      const [left, right] = await Promise.all([
+        toXmlBuffer(leftFile, leftXml, leftEncoding),
+        toXmlBuffer(rightFile, rightXml, rightEncoding),
+      ]);
+      // Cancelled or restarted while the files were read
+      if (run !== runRef.current) return;
+      const activeProfile = profiles.find((p) => p.id === activeProfileId);
+      const result = await pool.run(
+        left,
+        right,
+        {
+          matchKeys: matchKeyRules,
+          ignoreRules: activeProfile?.rules ?? [],
+          valueComparison,
+        },
+        ({ phase, percent, message }) =>
+          setProgress((prev) =>
+            prev ? { ...prev, [phase]: percent, message } : prev,
+          ),
+      );
 
-      if (!data.ok && data.type === "error") {
-        setLeftError(data.leftError);
-        setRightError(data.rightError);
+      if (result.type === "done") {
+        setDifferences(result.differences);
+        setStats(result.stats);
+        setIgnoredCount(result.ignored);
+        setInstances(result.instances);
+        setNamespaces(result.namespaces);
+        setLastRun(new Date());
+        setResultScope(
+          annotationScope(
+            reportSide(leftFileName, leftXml),
+            reportSide(rightFileName, rightXml),
+            [leftXml, rightXml],
+          ),
+        );
+      } else {
+        setLeftError(result.leftError);
+        setRightError(result.rightError);
         setDifferences([]);
-        setStats({ added: 0, removed: 0, changed: 0 });
-        setIsComparing(false);
-        setProgress(null);
-        worker.removeEventListener("message", onMessage as any);
-        worker.removeEventListener("error", onError as any);
+        setStats(emptyStats);
+        setResultScope(null);
+      }
+    } catch (err) {
+      // Superseded runs leave the state to the comparison that replaced them
+      if (err instanceof ComparisonCancelledError || run !== runRef.current) {
         return;
       }
+      setLeftError((err as Error).message);
+      setDifferences([]);
+      setStats(emptyStats);
+      setResultScope(null);
+    }
+    setIsComparing(false);
+    setProgress(null);
+  };
 
-      if (data.ok && data.type === "done") {
-        setDifferences(data.differences);
-        setStats(data.stats);
-        setLastRun(new Date());
-        setIsComparing(false);
-        setProgress(null);
-        worker.removeEventListener("message", onMessage as any);
-        worker.removeEventListener("error", onError as any);
-      }
-    };
+  const handleCancelCompare = () => {
+    runRef.current += 1;
+    poolRef.current?.cancel();
+    setIsComparing(false);
+    setProgress(null);
+  };
 
-    const onError = (err: ErrorEvent) => {
-      setIsComparing(false);
-      setLeftError(`Worker error: ${err.message}`);
-      setDifferences([]);
-      setStats({ added: 0, removed: 0, changed: 0 });
-      setProgress(null);
-      worker.removeEventListener("message", onMessage as any);
-      worker.removeEventListener("error", onError as any);
-    };
+  const handleOpenReport = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
 
-    worker.addEventListener("message", onMessage as any);
-    worker.addEventListener("error", onError as any);
-    worker.postMessage({ leftXml, rightXml });
+    try {
+      const report = await loadReportFile(file);
+      // The report's rows stand in for any comparison still running
+      handleCancelCompare();
+      setReview(report);
+      setReviewError(null);
+      setResultsView("list");
+      setDifferences(report.diffs);
+      setStats(report.stats);
+      setIgnoredCount(report.ignoreProfile?.ignoredCount ?? 0);
+      setInstances(emptyInstances);
+      setNamespaces({});
+      setLastRun(report.comparedAt);
+      setResultScope(annotationScope(report.left, report.right));
+      if (report.filters) {
+        const { changeTypes, search, excludedObjects } = report.filters;
+        if (changeTypes.length > 0) {
+          setChangeFilter(
+            (Object.keys(emptyStats) as ChangeKind[]).reduce(
+              (next, k) => ({ ...next, [k]: changeTypes.includes(k) }),
+              {} as Record<ChangeKind, boolean>,
+            ),
+          );
+        }
+        setFilter(search);
+        setExcludedQuickFilters(
+          new Set(
+            excludedObjects.filter(
+              (k): k is QuickFilterKey => k in quickFilterPatterns,
+            ),
+          ),
+        );
+      }
+    } catch (err) {
+      setReviewError(
+        `Failed to open ${file.name}: ${(err as Error).message}`,
+      );
+    }
+  };
+
+  const handleCloseReport = () => {
+    setReview(null);
+    setDifferences([]);
+    setStats(emptyStats);
+    setIgnoredCount(0);
+    setLastRun(null);
+    setResultScope(null);
   };
 
   const handleFileLoad = (
@@ -288,19 +724,7 @@ export function XmlComparison() {
 
     const reader = new FileReader();
     reader.onload = () => {
-      const content = reader.result?.toString() ?? "";
-      const xmlPath = "Device[1].IPsec[1].Profile[1].i1[1].X_2C7AF4_LocalId[1]";
-      const extractedValue = extractValueFromXml(content, xmlPath);
-      
-      if (side === "left") {
-        setLeftXml(content);
-        setLeftFileValue(extractedValue);
-        setLeftFileLoading(false);
-      } else {
-        setRightXml(content);
-        setRightFileValue(extractedValue);
-        setRightFileLoading(false);
-      }
+      applyFileContent(side, file, reader.result as ArrayBuffer, null);
     };
     reader.onerror = () => {
       if (side === "left") {
@@ -311,14 +735,56 @@ export function XmlComparison() {
         setRightError("Failed to read right XML file.");
       }
     };
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
   };
 
+  const applyFileContent = (
+    side: "left" | "right",
+    file: File,
+    buffer: ArrayBuffer,
+    override: string | null,
+  ) => {
+    const { text: content, ...encoding } = decodeXml(buffer, override);
+    const xmlPath = "Device[1].IPsec[1].Profile[1].i1[1].X_2C7AF4_LocalId[1]";
+    const extractedValue = extractValueFromXml(content, xmlPath);
+
+    if (side === "left") {
+      setLeftXml(content);
+      setLeftFile(file);
+      setLeftEncoding(encoding);
+      setLeftFileValue(extractedValue);
+      setLeftFileLoading(false);
+    } else {
+      setRightXml(content);
+      setRightFile(file);
+      setRightEncoding(encoding);
+      setRightFileValue(extractedValue);
+      setRightFileLoading(false);
+    }
+  };
+
+  // Re-decode the loaded file; text pasted over it is replaced
+  const handleEncodingChange = async (
+    side: "left" | "right",
+    override: string | null,
+  ) => {
+    const file = side === "left" ? leftFile : rightFile;
+    if (!file) return;
+    try {
+      applyFileContent(side, file, await file.arrayBuffer(), override);
+    } catch (err) {
+      const message = `Failed to decode ${side} XML file: ${(err as Error).message}`;
+      if (side === "left") setLeftError(message);
+      else setRightError(message);
+    }
+  };
+
+  const changeCount = differences.length - stats.equivalent;
   const changesBadge =
     leftError || rightError
       ? "Fix XML errors to compare"
       : differences.length > 0
-        ? `${differences.length} change${differences.length === 1 ? "" : "s"} found`
+        ? `${changeCount} change${changeCount === 1 ? "" : "s"} found`
         : "Ready to compare";
 
   const parentRef = useRef<HTMLDivElement | null>(null);
@@ -331,12 +797,168 @@ export function XmlComparison() {
 
   const handleExportCSV = () => {
     const baseName = leftFileName || rightFileName || "femtoxml-studio-report";
-    exportToCSV(filteredDiffs, baseName.replace(/\.xml$/i, ""));
+    exportToCSV(filteredDiffs, baseName.replace(/\.xml$/i, ""), annotations);
   };
 
-  const handleExportExcel = () => {
+  const handleExportExcel = async () => {
     const baseName = leftFileName || rightFileName || "femtoxml-studio-report";
-    exportToExcel(filteredDiffs, baseName.replace(/\.xml$/i, ""));
+    setIsExportingExcel(true);
+    setExportError(null);
+    try {
+      await exportToExcel(
+        filteredDiffs,
+        buildReportContext(),
+        baseName.replace(/\.xml$/i, ""),
+      );
+    } catch (err) {
+      setExportError(`Failed to export Excel report: ${(err as Error).message}`);
+    } finally {
+      setIsExportingExcel(false);
+    }
+  };
+
+  const buildReportContext = (): ReportContext => {
+    const activeProfile = profiles.find((p) => p.id === activeProfileId);
+    return {
+      generatedAt: new Date(),
+      comparedAt: lastRun,
+      left: review?.left ?? reportSide(leftFileName, leftXml),
+      right: review?.right ?? reportSide(rightFileName, rightXml),
+      stats,
+      filters: {
+        changeTypes: (Object.keys(changeFilter) as ChangeKind[]).filter(
+          (k) => changeFilter[k],
+        ),
+        search: filter.trim(),
+        excludedObjects: [...excludedQuickFilters],
+        namespace: namespaceFilter,
+      },
+      ignoreProfile: review
+        ? review.ignoreProfile
+        : activeProfile
+          ? {
+              name: activeProfile.name,
+              rules: activeProfile.rules.filter((r) => r.enabled && r.pattern),
+              ignoredCount,
+            }
+          : null,
+      annotations,
+    };
+  };
+
+  const handleExportHtml = () => {
+    const baseName = leftFileName || rightFileName || "femtoxml-studio-report";
+    exportToHtml(
+      filteredDiffs,
+      buildReportContext(),
+      baseName.replace(/\.xml$/i, ""),
+    );
+  };
+
+  const handleExportJson = () => {
+    const baseName = leftFileName || rightFileName || "femtoxml-studio-report";
+    exportToJson(
+      filteredDiffs,
+      buildReportContext(),
+      baseName.replace(/\.xml$/i, ""),
+    );
+  };
+
+  // Flattens both inputs in full; paths use the comparison's namespace prefixes
+  const handleExportUnifiedDiff = () => {
+    const lines = (xml: string, setError: (error: string) => void) => {
+      try {
+        return flatLines(
+          flattenEditableTree(parseEditableXml(xml, namespaces).tree),
+        );
+      } catch (err) {
+        setError((err as Error).message);
+        return null;
+      }
+    };
+    const left = lines(leftXml, setLeftError);
+    const right = lines(rightXml, setRightError);
+    if (!left || !right) return;
+    const baseName = leftFileName || rightFileName || "femtoxml-studio";
+    exportUnifiedDiff(
+      left,
+      right,
+      { left: leftFileName ?? "left.xml", right: rightFileName ?? "right.xml" },
+      baseName.replace(/\.xml$/i, ""),
+    );
+  };
+
+  const selectedCount = selectedPaths.size;
+  const allFilteredSelected =
+    filteredDiffs.length > 0 &&
+    filteredDiffs.every((d) => selectedPaths.has(d.path));
+
+  const toggleSelected = (path: string) => {
+    setSelectedPaths((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const toggleSelectAllFiltered = () => {
+    setSelectedPaths((prev) => {
+      const next = new Set(prev);
+      for (const d of filteredDiffs) {
+        if (allFilteredSelected) next.delete(d.path);
+        else next.add(d.path);
+      }
+      return next;
+    });
+  };
+
+  // Builds the target document with the selected rows taken from the other side
+  const handleApplySelected = (target: ComparisonSide) => {
+    const selected = differences.filter((d) => selectedPaths.has(d.path));
+    if (selected.length === 0) return;
+    try {
+      const xml = target === "left" ? leftXml : rightXml;
+      const { tree, shell } = parseEditableXml(xml, namespaces);
+      const { applied, skipped } = applyDiffsToTree(
+        tree,
+        selected,
+        target,
+        instances,
+      );
+      const xmlString = serializeEditableXml(tree, shell);
+      const blob = new Blob(
+        [encodeXml(xmlString, target === "left" ? leftEncoding : rightEncoding)],
+        { type: "application/xml" },
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      const fileName = target === "left" ? leftFileName : rightFileName;
+      link.download = fileName
+        ? `cherry-picked-${fileName}`
+        : `cherry-picked-${target}.xml`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setCherryPickNote(
+        `Applied ${applied} change${applied === 1 ? "" : "s"} to the ${target} XML` +
+          (skipped.length > 0
+            ? `; skipped ${skipped.length} (renumberings are not applied, removals need the element to exist).`
+            : "."),
+      );
+    } catch (err) {
+      setCherryPickNote(`Failed to apply changes: ${(err as Error).message}`);
+    }
+  };
+
+  const handleExportChangeSheet = () => {
+    const targetName =
+      (changeSheetTarget === "left" ? leftFileName : rightFileName) || "device";
+    exportChangeSheet(
+      filteredDiffs,
+      changeSheetTarget,
+      `${targetName.replace(/\.xml$/i, "")}-change-sheet`,
+    );
   };
 
   return (
@@ -369,11 +991,36 @@ export function XmlComparison() {
             <button
               type="button"
               onClick={handleCompare}
-              disabled={isComparing}
               className="inline-flex items-center justify-center rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-primary-600 disabled:cursor-not-allowed disabled:opacity-60"
+              title={
+                isComparing
+                  ? "Start over with the current inputs"
+                  : "Compare left and right XML"
+              }
             >
-              {isComparing ? "Comparing…" : "Compare"}
+              {isComparing ? "Restart" : "Compare"}
             </button>
+            {isComparing && (
+              <button
+                type="button"
+                onClick={handleCancelCompare}
+                className="inline-flex items-center justify-center rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:bg-slate-50"
+              >
+                Cancel
+              </button>
+            )}
+            <label
+              className="inline-flex cursor-pointer items-center justify-center rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-semibold text-slate-700 shadow-sm transition hover:bg-slate-50"
+              title="Review an exported JSON, CSV or Excel report without the XML files"
+            >
+              <input
+                type="file"
+                accept=".json,.csv,.xlsx"
+                className="hidden"
+                onChange={handleOpenReport}
+              />
+              Open report
+            </label>
 
             <div className="flex items-center gap-2">
               <input
@@ -382,33 +1029,64 @@ export function XmlComparison() {
                 placeholder="Search path/value/status…"
                 className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 shadow-sm outline-none placeholder:text-slate-400 focus:border-primary focus:ring-2 focus:ring-primary-200 sm:w-72"
               />
+              {Object.keys(namespaces).length > 0 && (
+                <select
+                  value={namespaceFilter}
+                  onChange={(e) => setNamespaceFilter(e.target.value)}
+                  className="rounded-lg border border-slate-300 bg-white px-2 py-2 text-sm text-slate-700 shadow-sm"
+                  title="Only show paths with a name in this namespace"
+                >
+                  <option value="">All namespaces</option>
+                  {Object.entries(namespaces).map(([prefix, uri]) => (
+                    <option key={uri} value={uri}>
+                      {prefix ? `${prefix}: ` : "(default) "}
+                      {uri}
+                    </option>
+                  ))}
+                </select>
+              )}
             </div>
           </div>
         </div>
       </header>
 
-      {/* Progress indicator shown while comparing XMLs */}
+      {/* Progress indicator shown while comparing XMLs, one bar per document */}
       {isComparing && progress && (
         <div className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
           <div className="flex items-center gap-3">
             <div className="h-5 w-5 animate-spin rounded-full border-2 border-slate-300 border-t-primary" />
-            <div className="flex w-full flex-col gap-1">
+            <div className="flex w-full flex-col gap-2">
               <div className="flex items-baseline justify-between gap-3">
                 <div className="text-sm font-semibold text-slate-900">
                   {progress.message ?? "Comparing…"}
                 </div>
                 <div className="text-sm font-semibold text-slate-700">
-                  {progress.percent}%
+                  {Math.round(
+                    progress.left * 0.45 +
+                      progress.right * 0.45 +
+                      progress.diff * 0.1,
+                  )}
+                  %
                 </div>
               </div>
-              <div className="h-2 w-full overflow-hidden rounded-full bg-slate-100">
-                <div
-                  className="h-full rounded-full bg-primary transition-[width]"
-                  style={{
-                    width: `${Math.min(100, Math.max(0, progress.percent))}%`,
-                  }}
-                />
-              </div>
+              {(["left", "right", "diff"] as const).map((phase) => (
+                <div key={phase} className="flex items-center gap-3">
+                  <span className="w-10 text-xs font-semibold capitalize text-slate-600">
+                    {phase}
+                  </span>
+                  <div className="h-2 w-full overflow-hidden rounded-full bg-slate-100">
+                    <div
+                      className="h-full rounded-full bg-primary transition-[width]"
+                      style={{
+                        width: `${Math.min(100, Math.max(0, progress[phase]))}%`,
+                      }}
+                    />
+                  </div>
+                  <span className="w-10 text-right text-xs text-slate-600">
+                    {progress[phase]}%
+                  </span>
+                </div>
+              ))}
             </div>
           </div>
         </div>
@@ -433,6 +1111,15 @@ export function XmlComparison() {
                   <span className="max-w-[220px] truncate text-xs font-semibold text-primary">
                     {formatValue(leftFileValue ?? undefined)}
                   </span>
+                  {leftEncoding && (
+                    <EncodingSelect
+                      encoding={leftEncoding}
+                      onChange={(override) =>
+                        handleEncodingChange("left", override)
+                      }
+                      disabled={!leftFile}
+                    />
+                  )}
                 </div>
               )}
               {leftFileLoading && (
@@ -455,7 +1142,10 @@ export function XmlComparison() {
 
           <textarea
             value={leftXml}
-            onChange={(e) => setLeftXml(e.target.value)}
+            onChange={(e) => {
+              setLeftXml(e.target.value);
+              setLeftFile(null);
+            }}
             spellCheck={false}
             placeholder="Paste device XML here"
             className="h-72 w-full resize-y rounded-xl border border-slate-300 bg-slate-50 p-3 font-mono text-sm text-slate-900 shadow-sm outline-none focus:border-primary focus:ring-2 focus:ring-primary-200"
@@ -484,6 +1174,15 @@ export function XmlComparison() {
                   <span className="max-w-[220px] truncate text-xs font-semibold text-primary">
                     {formatValue(rightFileValue ?? undefined)}
                   </span>
+                  {rightEncoding && (
+                    <EncodingSelect
+                      encoding={rightEncoding}
+                      onChange={(override) =>
+                        handleEncodingChange("right", override)
+                      }
+                      disabled={!rightFile}
+                    />
+                  )}
                 </div>
               )}
               {rightFileLoading && (
@@ -506,7 +1205,10 @@ export function XmlComparison() {
 
           <textarea
             value={rightXml}
-            onChange={(e) => setRightXml(e.target.value)}
+            onChange={(e) => {
+              setRightXml(e.target.value);
+              setRightFile(null);
+            }}
             spellCheck={false}
             placeholder="Paste device XML here"
             className="h-72 w-full resize-y rounded-xl border border-slate-300 bg-slate-50 p-3 font-mono text-sm text-slate-900 shadow-sm outline-none focus:border-primary focus:ring-2 focus:ring-primary-200"
@@ -519,8 +1221,96 @@ export function XmlComparison() {
         </div>
       </section>
 
+      {/* Key-based matching rules for multi-instance objects */}
+      <details className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+        <summary className="cursor-pointer text-base font-semibold text-slate-900">
+          Instance matching
+          {matchKeyRules.length > 0 && (
+            <span className="ml-2 rounded-full bg-primary-50 px-2 py-0.5 text-xs font-semibold text-primary-700">
+              {matchKeyRules.length} rule(s)
+            </span>
+          )}
+        </summary>
+        <p className="mt-2 text-sm text-slate-600">
+          Pair instances of multi-instance objects by key parameters instead of
+          position, one rule per line as{" "}
+          <span className="font-mono">object path: key, key</span>. Instances
+          found at a different index are reported as{" "}
+          <span className="font-semibold">renumbered</span>.
+        </p>
+        <textarea
+          value={matchKeysText}
+          onChange={(e) => setMatchKeysText(e.target.value)}
+          spellCheck={false}
+          placeholder="NeighborList.LTECell: PhyCellID, EUTRACarrierARFCN"
+          className="mt-2 h-24 w-full resize-y rounded-xl border border-slate-300 bg-slate-50 p-3 font-mono text-sm text-slate-900 shadow-sm outline-none focus:border-primary focus:ring-2 focus:ring-primary-200"
+        />
+      </details>
+
+      {/* User-defined ignore rules grouped into saved profiles */}
+      <IgnoreProfilesPanel
+        profiles={profiles}
+        activeProfileId={activeProfileId}
+        onProfilesChange={setProfiles}
+        onActiveProfileChange={setActiveProfileId}
+      />
+
+      {/* Semantic value comparison modes */}
+      <ValueComparisonPanel
+        settings={valueComparison}
+        onChange={setValueComparison}
+      />
+
+      {/* XSD checks of both documents */}
+      {onSchemasChange && (
+        <SchemaPanel
+          schemas={schemas}
+          onSchemasChange={onSchemasChange}
+          violations={schemaViolations}
+          onValidate={handleValidateSchema}
+        />
+      )}
+
+      {/* Broadband Forum data model checks of the compared values */}
+      {onDataModelChange && (
+        <DataModelPanel
+          model={dataModel}
+          onModelChange={onDataModelChange}
+          violations={violations}
+          onSelect={(v) => setFilter(v.path)}
+        />
+      )}
+
       {/* Differences comparison results section */}
       <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+        {reviewError && (
+          <div className="mb-4 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+            {reviewError}
+          </div>
+        )}
+        {review && (
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-3 rounded-xl border border-primary-200 bg-primary-50 px-3 py-2 text-sm text-primary-700">
+            <div>
+              Reviewing report{" "}
+              <span className="font-semibold">{review.name}</span>
+              {(review.left.fileName || review.right.fileName) && (
+                <>
+                  {" "}
+                  ({review.left.fileName ?? "left"} vs{" "}
+                  {review.right.fileName ?? "right"})
+                </>
+              )}
+              . Rows come from the report; the XML inputs are not compared.
+            </div>
+            <button
+              type="button"
+              onClick={handleCloseReport}
+              className="rounded-lg border border-primary-200 bg-white px-3 py-1.5 text-xs font-semibold text-primary-700 hover:bg-primary-100"
+            >
+              Close report
+            </button>
+          </div>
+        )}
         <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
           <div>
             <h2 className="text-base font-semibold text-slate-900">
@@ -548,9 +1338,30 @@ export function XmlComparison() {
               <span className="rounded-full border border-amber-200 bg-amber-50 px-3 py-1 text-sm font-semibold text-amber-800">
                 Changed: {stats.changed}
               </span>
+              {stats.renumbered > 0 && (
+                <span className="rounded-full border border-violet-200 bg-violet-50 px-3 py-1 text-sm font-semibold text-violet-800">
+                  Renumbered: {stats.renumbered}
+                </span>
+              )}
+              {stats.equivalent > 0 && (
+                <span
+                  className="rounded-full border border-emerald-200 bg-emerald-50 px-3 py-1 text-sm font-semibold text-emerald-800"
+                  title="Values that differ textually but are equal under the value comparison settings"
+                >
+                  Equivalent: {stats.equivalent}
+                </span>
+              )}
               <span className="rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-sm font-semibold text-slate-700">
                 Showing: {filteredDiffs.length}
               </span>
+              {ignoredCount > 0 && (
+                <span
+                  className="rounded-full border border-slate-200 bg-white px-3 py-1 text-sm font-semibold text-slate-500"
+                  title="Entries skipped by the active ignore profile"
+                >
+                  Ignored: {ignoredCount}
+                </span>
+              )}
             </div>
               <div className="flex flex-wrap items-center gap-2 mt-2">
                
@@ -565,6 +1376,8 @@ export function XmlComparison() {
                       added: true,
                       removed: false,
                       changed: false,
+                      renumbered: false,
+                      equivalent: false,
                     })
                   }
                   className={`rounded-full border px-3 py-1 text-xs font-semibold transition ${
@@ -578,7 +1391,15 @@ export function XmlComparison() {
                 </button>
 
 
-                  {(["added", "removed", "changed"] as const).map((k) => {
+                  {(
+                    [
+                      "added",
+                      "removed",
+                      "changed",
+                      "renumbered",
+                      "equivalent",
+                    ] as const
+                  ).map((k) => {
                     const on = changeFilter[k];
                     const colors =
                       k === "added"
@@ -589,9 +1410,17 @@ export function XmlComparison() {
                           ? on
                             ? "bg-rose-100 text-rose-900"
                             : "text-slate-600 hover:bg-slate-50"
-                          : on
-                            ? "bg-amber-100 text-amber-900"
-                            : "text-slate-600 hover:bg-slate-50";
+                          : k === "changed"
+                            ? on
+                              ? "bg-amber-100 text-amber-900"
+                              : "text-slate-600 hover:bg-slate-50"
+                            : k === "renumbered"
+                              ? on
+                                ? "bg-violet-100 text-violet-900"
+                                : "text-slate-600 hover:bg-slate-50"
+                              : on
+                                ? "bg-emerald-100 text-emerald-900"
+                                : "text-slate-600 hover:bg-slate-50";
                     return (
                       <button
                         key={k}
@@ -600,11 +1429,7 @@ export function XmlComparison() {
                           setChangeFilter((prev) => {
                             const next = { ...prev, [k]: !prev[k] };
                             // Prevent "none selected" (keep at least one on)
-                            if (
-                              !next.added &&
-                              !next.removed &&
-                              !next.changed
-                            ) {
+                            if (!Object.values(next).some(Boolean)) {
                               return prev;
                             }
                             return next;
@@ -659,22 +1484,84 @@ export function XmlComparison() {
                   </button>
                 );
               })}
+              {/* Review annotations of the rows */}
+              <label className="ml-2 flex items-center gap-1 text-xs text-slate-600">
+                Annotation
+                <select
+                  value={annotationFilter}
+                  onChange={(e) =>
+                    setAnnotationFilter(e.target.value as AnnotationFilter)
+                  }
+                  className="rounded border border-slate-200 bg-white px-2 py-1 text-xs"
+                >
+                  <option value="all">All rows</option>
+                  <option value="unannotated">No verdict</option>
+                  {(
+                    Object.keys(annotationStatusLabels) as AnnotationStatus[]
+                  ).map((status) => (
+                    <option key={status} value={status}>
+                      {annotationStatusLabels[status]} (
+                      {annotationCounts[status]})
+                    </option>
+                  ))}
+                </select>
+              </label>
             </div>
           </div>
         </div>
 
+        <div className={`mt-4 flex gap-2 ${review ? "hidden" : ""}`}>
+          {(["list", "tree"] as const).map((view) => (
+            <button
+              key={view}
+              type="button"
+              onClick={() => setResultsView(view)}
+              className={`px-3 py-1.5 text-xs font-semibold transition ${
+                resultsView === view
+                  ? "rounded-md bg-[#2596be] text-white"
+                  : "rounded-md text-slate-600 hover:bg-slate-100"
+              }`}
+            >
+              {view === "list" ? "Path list" : "Tree view"}
+            </button>
+          ))}
+        </div>
+
+        {resultsView === "tree" && differences.length > 0 && (
+          <XmlTreeDiff
+            leftXml={leftXml}
+            rightXml={rightXml}
+            differences={filteredDiffs}
+            instances={instances}
+            namespaces={namespaces}
+          />
+        )}
+
         {/* Differences results table */}
-        <div className="mt-4 overflow-hidden rounded-xl border border-slate-200">
+        <div
+          className={`mt-4 overflow-hidden rounded-xl border border-slate-200 ${
+            resultsView === "tree" && differences.length > 0 ? "hidden" : ""
+          }`}
+        >
           <div
             className={`grid bg-slate-50 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600 ${
               showLeftCol && showRightCol ? "grid-cols-12" : "grid-cols-12"
             }`}
           >
             <div
-              className={
+              className={`flex items-center gap-2 ${
                 showLeftCol && showRightCol ? "col-span-6" : "col-span-8"
-              }
+              }`}
             >
+              {!review && (
+                <input
+                  type="checkbox"
+                  checked={allFilteredSelected}
+                  onChange={toggleSelectAllFiltered}
+                  disabled={filteredDiffs.length === 0}
+                  title="Select all filtered rows"
+                />
+              )}
               Path
             </div>
             {showLeftCol && <div className="col-span-2">Left</div>}
@@ -702,28 +1589,42 @@ export function XmlComparison() {
               >
                 {rowVirtualizer.getVirtualItems().map((virtualRow) => {
                   const diff = filteredDiffs[virtualRow.index]!;
+                  const rowViolations = violationsByPath.get(diff.path);
+                  const annotation = annotations[diff.path];
                   const rowBg =
                     diff.change === "added"
                       ? "bg-cyan-50"
                       : diff.change === "removed"
                         ? "bg-rose-50"
-                        : "bg-amber-50";
+                        : diff.change === "renumbered"
+                          ? "bg-violet-50"
+                          : diff.change === "equivalent"
+                            ? "bg-emerald-50"
+                            : "bg-amber-50";
 
                   return (
                     <div
                       key={`${diff.path}-${diff.change}-${virtualRow.index}`}
-                      className={`absolute left-0 top-0 w-full border-b border-slate-100 px-3 py-2 text-sm ${rowBg}`}
+                      className={`group absolute left-0 top-0 w-full border-b border-slate-100 px-3 py-2 text-sm ${rowBg}`}
                       style={{
                         transform: `translateY(${virtualRow.start}px)`,
                         height: `${virtualRow.size}px`,
                       }}
                     >
                       <div className="grid grid-cols-12 gap-2">
-                        <div
-                          className={`${showLeftCol && showRightCol ? "col-span-6" : "col-span-8"} break-words font-mono text-xs text-slate-900`}
+                        <label
+                          className={`${showLeftCol && showRightCol ? "col-span-6" : "col-span-8"} flex items-start gap-2 break-all font-mono text-xs text-slate-900`}
                         >
-                          {diff.path}
-                        </div>
+                          {!review && (
+                            <input
+                              type="checkbox"
+                              className="mt-0.5 shrink-0"
+                              checked={selectedPaths.has(diff.path)}
+                              onChange={() => toggleSelected(diff.path)}
+                            />
+                          )}
+                          <span>{diff.path}</span>
+                        </label>
                         {showLeftCol && (
                           <div className="col-span-2 break-words font-mono text-xs text-slate-800">
                             {formatValue(diff.leftValue)}
@@ -736,6 +1637,57 @@ export function XmlComparison() {
                         )}
                         <div className="col-span-2 text-right text-xs font-semibold capitalize text-slate-900">
                           {diff.change}
+                          {diff.comparison && (
+                            <div className="font-normal normal-case text-slate-500">
+                              {diff.comparison}
+                            </div>
+                          )}
+                          {rowViolations && (
+                            <div
+                              className="font-normal normal-case text-rose-700"
+                              title={rowViolations
+                                .map((v) => `${v.side}: ${v.message}`)
+                                .join("\n")}
+                            >
+                              ⚠ {rowViolations.map((v) => v.side).join(", ")}{" "}
+                              invalid
+                            </div>
+                          )}
+                          {resultScope && (
+                            <button
+                              type="button"
+                              onClick={() => setEditingPath(diff.path)}
+                              title={annotation?.note || "Annotate this row"}
+                              className={`mt-0.5 text-[11px] normal-case ${
+                                annotation
+                                  ? ""
+                                  : "font-normal text-slate-400 opacity-0 hover:text-slate-600 group-hover:opacity-100"
+                              }`}
+                            >
+                              {annotation ? (
+                                <span
+                                  className="rounded-full bg-slate-100 px-2 py-0.5 text-slate-700"
+                                  style={
+                                    annotation.status
+                                      ? {
+                                          backgroundColor:
+                                            annotationColors[annotation.status].bg,
+                                          color:
+                                            annotationColors[annotation.status].fg,
+                                        }
+                                      : undefined
+                                  }
+                                >
+                                  {annotation.status
+                                    ? annotationStatusLabels[annotation.status]
+                                    : "Note"}
+                                  {annotation.note && " ✎"}
+                                </span>
+                              ) : (
+                                "+ Annotate"
+                              )}
+                            </button>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -746,6 +1698,62 @@ export function XmlComparison() {
           )}
         </div>
 
+        {editingPath && resultScope && (
+          <DiffAnnotationEditor
+            path={editingPath}
+            annotation={annotations[editingPath]}
+            onSave={(annotation) =>
+              setAnnotationStore((store) =>
+                setAnnotation(store, resultScope, editingPath, annotation),
+              )
+            }
+            onClose={() => setEditingPath(null)}
+          />
+        )}
+
+        {/* Cherry-pick selected rows into one side */}
+        {selectedCount > 0 && !review && (
+          <div className="flex flex-wrap items-center justify-between gap-3 pt-4">
+            <div className="text-sm text-slate-700">
+              <span className="font-semibold">{selectedCount}</span> row
+              {selectedCount === 1 ? "" : "s"} selected
+              <button
+                type="button"
+                onClick={() => setSelectedPaths(new Set())}
+                className="ml-2 text-xs text-slate-500 underline hover:text-slate-700"
+              >
+                Clear
+              </button>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => handleApplySelected("left")}
+                className="rounded-lg border border-primary-200 bg-primary-50 px-3 py-1.5 text-sm font-semibold text-primary-700 hover:bg-primary-100"
+                title="Download the left XML with the selected right-side values applied"
+              >
+                Apply selected to left
+              </button>
+              <button
+                type="button"
+                onClick={() => handleApplySelected("right")}
+                className="rounded-lg border border-primary-200 bg-primary-50 px-3 py-1.5 text-sm font-semibold text-primary-700 hover:bg-primary-100"
+                title="Download the right XML with the selected left-side values applied"
+              >
+                Apply selected to right
+              </button>
+            </div>
+          </div>
+        )}
+        {cherryPickNote && (
+          <p className="pt-2 text-xs text-slate-600">{cherryPickNote}</p>
+        )}
+        {exportError && (
+          <div className="mt-4 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+            {exportError}
+          </div>
+        )}
+
         {/* Export options */}
         <div>
           {filteredDiffs.length > 0 && (
@@ -776,7 +1784,8 @@ export function XmlComparison() {
                 </button>
                 <button
                   onClick={handleExportExcel}
-                  className="inline-flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 px-3 py-1.5 text-sm font-semibold text-green-700 hover:bg-green-100"
+                  disabled={isExportingExcel}
+                  className="inline-flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 px-3 py-1.5 text-sm font-semibold text-green-700 hover:bg-green-100 disabled:cursor-not-allowed disabled:opacity-50"
                   title="Export to Excel"
                 >
                   <svg
@@ -792,7 +1801,87 @@ export function XmlComparison() {
                       d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
                     />
                   </svg>
-                  Export Excel
+                  {isExportingExcel ? "Exporting…" : "Export Excel"}
+                </button>
+                <button
+                  onClick={handleExportHtml}
+                  className="inline-flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 px-3 py-1.5 text-sm font-semibold text-green-700 hover:bg-green-100"
+                  title="Export a self-contained HTML report with search"
+                >
+                  <svg
+                    className="h-4 w-4"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                    />
+                  </svg>
+                  Export HTML
+                </button>
+                <button
+                  onClick={handleExportJson}
+                  className="inline-flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 px-3 py-1.5 text-sm font-semibold text-green-700 hover:bg-green-100"
+                  title="Export rows, stats, file names and filters as versioned JSON"
+                >
+                  <svg
+                    className="h-4 w-4"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                    />
+                  </svg>
+                  Export JSON
+                </button>
+                {!review && (
+                  <button
+                    onClick={handleExportUnifiedDiff}
+                    className="inline-flex items-center gap-2 rounded-lg border border-green-200 bg-green-50 px-3 py-1.5 text-sm font-semibold text-green-700 hover:bg-green-100"
+                    title="Export a unified diff of both documents' path = value lines"
+                  >
+                    <svg
+                      className="h-4 w-4"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                      />
+                    </svg>
+                    Unified diff
+                  </button>
+                )}
+                <select
+                  value={changeSheetTarget}
+                  onChange={(e) =>
+                    setChangeSheetTarget(e.target.value as ChangeSheetTarget)
+                  }
+                  className="rounded-lg border border-slate-300 bg-white px-2 py-1.5 text-sm text-slate-700"
+                  title="Document the change sheet will edit in the Bulk Editor"
+                >
+                  <option value="left">Edit left (right values)</option>
+                  <option value="right">Edit right (left values)</option>
+                </select>
+                <button
+                  onClick={handleExportChangeSheet}
+                  className="inline-flex items-center gap-2 rounded-lg border border-primary-200 bg-primary-50 px-3 py-1.5 text-sm font-semibold text-primary-700 hover:bg-primary-100"
+                  title="Export a Parameter path / Value sheet for the Bulk Editor"
+                >
+                  Bulk change sheet
                 </button>
               </div>
             </div>
@@ -1,169 +1,245 @@
-import { useState, useEffect, useRef, useCallback } from "react";
-import { xml2js, js2xml } from "xml-js";
+import { useState, useEffect, useRef } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { splitFlatPath } from "../utils/xmlTree";
+import { type FileEncoding, encodeXml } from "../utils/encoding";
+import type { DataModel, ValueViolation } from "../utils/dataModel";
+import { valueEditorType } from "../utils/valueEditors";
 import {
-  type EditableNode,
-  buildEditableTree,
-  buildXmlFromEditable,
-} from "../utils/xmlTree";
+  type SchemaSet,
+  type SchemaViolation,
+  allowInvalidDownload,
+  validateXml,
+} from "../utils/xsd";
+import type { EditorState } from "../utils/workspaces";
+import {
+  type EditorSession,
+  type LoadProgress,
+  EditorLoadCancelledError,
+  createEditorSession,
+} from "../utils/editorSession";
+import type {
+  EditorChange,
+  EditorRowView,
+  EditorRows,
+  NodeView,
+  SearchMode,
+} from "../workers/xmlEditorWorker";
+import EncodingSelect from "./EncodingSelect";
+import DataModelPanel from "./DataModelPanel";
+import SchemaPanel from "./SchemaPanel";
+import ValueInput from "./ValueInput";
 
 type XmlEditorProps = {
   onNavigateToComparison?: () => void;
+  dataModel?: DataModel | null;
+  onDataModelChange?: (model: DataModel | null) => void;
+  schemas?: SchemaSet | null;
+  onSchemasChange?: (schemas: SchemaSet | null) => void;
+  /** State restored from the open workspace. */
+  workspaceState?: EditorState;
+  onWorkspaceStateChange?: (state: EditorState) => void;
 };
 
-function deepCloneNode(node: EditableNode): EditableNode {
-  return {
-    ...node,
-    attributes: { ...node.attributes },
-    children: node.children.map(deepCloneNode),
-  };
-}
-
-function findNodeById(nodes: EditableNode[], id: string): EditableNode | null {
-  for (const node of nodes) {
-    if (node.id === id) return node;
-    const found = findNodeById(node.children, id);
-    if (found) return found;
-  }
-  return null;
-}
-
-function findParentNodes(
-  nodes: EditableNode[],
-  targetId: string,
-  parentList: EditableNode[] = [],
-): EditableNode[] | null {
-  for (const node of nodes) {
-    if (node.id === targetId) {
-      return parentList;
+// Rows fetched beyond the rendered ones, so scrolling rarely shows placeholders
+const rowMargin = 60;
+
+// Snapshots copy the whole document out of the worker, so they wait for a
+// pause in editing
+const snapshotDelay = 800;
+
+const attributeKey = (id: string, name: string) => `${id}@${name}`;
+
+/**
+ * Typed values are shown at once and kept until the worker sends them back,
+ * so keystrokes are not lost while it is busy with a large document.
+ */
+function settleDrafts(drafts: Map<string, string>, views: NodeView[]) {
+  if (drafts.size === 0) return drafts;
+  const next = new Map(drafts);
+  for (const { node } of views) {
+    if (next.get(node.id) === node.value) next.delete(node.id);
+    for (const [name, value] of Object.entries(node.attributes)) {
+      if (next.get(attributeKey(node.id, name)) === value) {
+        next.delete(attributeKey(node.id, name));
+      }
     }
-    const found = findParentNodes(node.children, targetId, [
-      ...parentList,
-      node,
-    ]);
-    if (found) return found;
   }
-  return null;
+  return next.size === drafts.size ? drafts : next;
 }
 
-function regenerateIds(
-  nodes: EditableNode[],
-  parentPath: string = "",
-  siblingCounts: Record<string, number> = {},
-): EditableNode[] {
-  return nodes.map((node) => {
-    const name = node.name;
-    const count = (siblingCounts[name] || 0) + 1;
-    siblingCounts[name] = count;
-    const currentPath = parentPath
-      ? `${parentPath}.${name}[${count}]`
-      : `${name}[${count}]`;
-
-    return {
-      ...node,
-      id: currentPath,
-      path: currentPath,
-      children: regenerateIds(node.children, currentPath, {}),
-    };
-  });
-}
-
-export default function XmlEditor({ onNavigateToComparison }: XmlEditorProps) {
-  const [xmlContent, setXmlContent] = useState("");
-  const [fileName, setFileName] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+export default function XmlEditor({
+  onNavigateToComparison,
+  dataModel = null,
+  onDataModelChange,
+  schemas = null,
+  onSchemasChange,
+  workspaceState: saved,
+  onWorkspaceStateChange,
+}: XmlEditorProps) {
+  const [fileName, setFileName] = useState<string | null>(
+    saved?.fileName ?? null,
+  );
+  const [fileBuffer, setFileBuffer] = useState<ArrayBuffer | null>(null);
+  const [encoding, setEncoding] = useState<FileEncoding | null>(
+    saved?.encoding ?? null,
+  );
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const [loadCount, setLoadCount] = useState(0);
   const [error, setError] = useState<string | null>(null);
-  const [tree, setTree] = useState<EditableNode[]>([]);
-  const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set());
-  const [searchQuery, setSearchQuery] = useState("");
-  const [searchResults, setSearchResults] = useState<EditableNode[]>([]);
+  // Latest change notification and rows from the editor worker
+  const [view, setView] = useState<EditorChange>({
+    type: "change",
+    revision: 0,
+    version: 0,
+    rowCount: 0,
+    nodeCount: 0,
+    canUndo: false,
+    canRedo: false,
+  });
+  const [slice, setSlice] = useState<EditorRows>({
+    type: "rows",
+    revision: 0,
+    start: 0,
+    rows: [],
+  });
+  const [violations, setViolations] = useState<ValueViolation[]>([]);
+  const [drafts, setDrafts] = useState<Map<string, string>>(() => new Map());
+  const [keepFormatting, setKeepFormatting] = useState(
+    saved?.keepFormatting ?? true,
+  );
+  const [saveNote, setSaveNote] = useState<string | null>(null);
+  const [schemaViolations, setSchemaViolations] = useState<
+    SchemaViolation[] | null
+  >(null);
+  // Document version the listed violations were found in; edits make the list stale
+  const [schemaCheckedVersion, setSchemaCheckedVersion] = useState<
+    number | null
+  >(null);
+  const [searchQuery, setSearchQuery] = useState(saved?.searchQuery ?? "");
+  const [searchResults, setSearchResults] = useState<NodeView[]>([]);
   const [searchIndex, setSearchIndex] = useState(0);
-  const [searchMode, setSearchMode] = useState<"parameter" | "path" | "value">(
-    "parameter",
+  const [searchMode, setSearchMode] = useState<SearchMode>(
+    saved?.searchMode ?? "parameter",
   );
   const [isSearchModalOpen, setIsSearchModalOpen] = useState(false);
+  // Row with the keyboard cursor (by id once its row has arrived), and a row
+  // to bring into view once the tree is that long
+  const [active, setActive] = useState<{
+    id: string | null;
+    index: number;
+  } | null>(null);
+  const [scrollTargetIndex, setScrollTargetIndex] = useState<number | null>(
+    null,
+  );
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const treeRef = useRef<HTMLDivElement | null>(null);
+  const sessionRef = useRef<EditorSession | null>(null);
 
-  // Undo/Redo system
-  const historyRef = useRef<EditableNode[][]>([]);
-  const historyIndexRef = useRef<number>(-1);
-  const [canUndo, setCanUndo] = useState(false);
-  const [canRedo, setCanRedo] = useState(false);
-
-  const saveToHistory = useCallback((newTree: EditableNode[]) => {
-    const history = historyRef.current;
-    const index = historyIndexRef.current;
-
-    // Remove any history after current index (when new action after undo)
-    const newHistory = history.slice(0, index + 1);
-    newHistory.push(newTree.map(deepCloneNode));
-
-    // Limit history size to 50 states
-    if (newHistory.length > 50) {
-      newHistory.shift();
-    } else {
-      historyIndexRef.current = newHistory.length - 1;
-    }
-
-    historyRef.current = newHistory;
-    setCanUndo(historyIndexRef.current > 0);
-    setCanRedo(false);
-  }, []);
-
-  const undo = useCallback(() => {
-    const history = historyRef.current;
-    const index = historyIndexRef.current;
+  const isLoading = loadProgress !== null;
 
-    if (index > 0) {
-      historyIndexRef.current = index - 1;
-      setTree(history[index - 1].map(deepCloneNode));
-      setCanUndo(historyIndexRef.current > 0);
-      setCanRedo(true);
-    }
-  }, []);
+  // Requests dropped with a superseded worker need no message
+  const reportError = (prefix: string) => (err: unknown) => {
+    if (err instanceof EditorLoadCancelledError) return;
+    setError(`${prefix}: ${(err as Error).message}`);
+  };
 
-  const redo = useCallback(() => {
-    const history = historyRef.current;
-    const index = historyIndexRef.current;
+  const loadDocument = (
+    source: ArrayBuffer | string,
+    options: { override?: string | null; restore?: EditorState } = {},
+  ) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    setError(null);
+    setSaveNote(null);
+    setDrafts(new Map());
+    setSearchResults([]);
+    setIsSearchModalOpen(false);
+    setActive(null);
+    setLoadProgress({ percent: 0 });
+    session
+      .load(source, options, setLoadProgress)
+      .then((result) => {
+        if (result.encoding) setEncoding(result.encoding);
+        setLoadCount((count) => count + 1);
+        setLoadProgress(null);
+      })
+      .catch((err) => {
+        if (err instanceof EditorLoadCancelledError) return;
+        setError((err as Error).message);
+        setLoadProgress(null);
+      });
+  };
 
-    if (index < history.length - 1) {
-      historyIndexRef.current = index + 1;
-      setTree(history[index + 1].map(deepCloneNode));
-      setCanUndo(true);
-      setCanRedo(historyIndexRef.current < history.length - 1);
-    }
+  // The worker owns the document; a workspace's document is loaded into it
+  // with its edits, history and expanded branches
+  useEffect(() => {
+    const session = createEditorSession();
+    sessionRef.current = session;
+    const unsubscribe = session.subscribe((event) => {
+      if (event.type === "change") {
+        setView(event);
+        if (event.violations) setViolations(event.violations);
+      } else if (event.type === "rows") {
+        setSlice(event);
+        setDrafts((current) => settleDrafts(current, event.rows));
+      } else if (event.type === "matches") {
+        setSearchResults(event.matches);
+        setDrafts((current) => settleDrafts(current, event.matches));
+      } else {
+        setError(event.error);
+      }
+    });
+    if (saved?.xml) loadDocument(saved.xml, { restore: saved });
+    return () => {
+      unsubscribe();
+      session.dispose();
+      sessionRef.current = null;
+    };
   }, []);
 
   useEffect(() => {
-    if (!xmlContent.trim()) {
-      setTree([]);
-      setError(null);
-      historyRef.current = [];
-      historyIndexRef.current = -1;
-      setCanUndo(false);
-      setCanRedo(false);
-      return;
-    }
+    sessionRef.current?.setDataModel(dataModel);
+  }, [dataModel]);
 
-    try {
-      const parsed = xml2js(xmlContent, {
-        compact: false,
-        ignoreDeclaration: true,
-      });
-      const rootElements = (parsed as any).elements || [];
-      const editableTree = buildEditableTree(rootElements);
-      setTree(editableTree);
-      setError(null);
-      // Auto-expand first level
-      if (editableTree.length > 0 && expandedPaths.size === 0) {
-        setExpandedPaths(new Set(editableTree.map((n) => n.id)));
-      }
-      // Save initial state to history
-      saveToHistory(editableTree);
-    } catch (err) {
-      setError((err as Error).message);
-      setTree([]);
-    }
-  }, [xmlContent, saveToHistory]);
+  useEffect(() => {
+    if (!onWorkspaceStateChange) return;
+    const timer = window.setTimeout(() => {
+      sessionRef.current
+        ?.snapshot()
+        .then((document) =>
+          onWorkspaceStateChange({
+            xml: "",
+            uidBase: 0,
+            tree: [],
+            history: [],
+            historyIndex: -1,
+            expandedPaths: [],
+            ...document,
+            fileName,
+            encoding,
+            keepFormatting,
+            searchQuery,
+            searchMode,
+          }),
+        )
+        .catch(() => {
+          // The worker was replaced; the next document reports itself
+        });
+    }, snapshotDelay);
+    return () => window.clearTimeout(timer);
+  }, [
+    view.version,
+    view.revision,
+    fileName,
+    encoding,
+    keepFormatting,
+    searchQuery,
+    searchMode,
+  ]);
+
+  const undo = () => sessionRef.current?.undo();
+  const redo = () => sessionRef.current?.redo();
+  const { canUndo, canRedo } = view;
 
   // Keyboard shortcuts for undo/redo
   useEffect(() => {
@@ -182,41 +258,39 @@ export default function XmlEditor({ onNavigateToComparison }: XmlEditorProps) {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [canUndo, canRedo, undo, redo]);
+  }, [canUndo, canRedo]);
 
   const handleFileLoad = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    setIsLoading(true);
     setFileName(file.name);
     setError(null);
+    setLoadProgress({ percent: 0, message: "Reading file…" });
 
     const reader = new FileReader();
     reader.onload = () => {
-      const content = reader.result?.toString() ?? "";
-      setXmlContent(content);
-      setIsLoading(false);
+      const buffer = reader.result as ArrayBuffer;
+      setFileBuffer(buffer);
+      // The worker takes the bytes it is sent; ours stay for re-decoding
+      loadDocument(buffer.slice(0));
     };
     reader.onerror = () => {
       setError("Failed to read file");
-      setIsLoading(false);
+      setLoadProgress(null);
     };
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
+  };
+
+  // Re-decode the loaded bytes; edits made so far are discarded
+  const handleEncodingChange = (override: string | null) => {
+    if (!fileBuffer) return;
+    loadDocument(fileBuffer.slice(0), { override });
   };
 
   const updateNodeValue = (id: string, value: string) => {
-    const update = (nodes: EditableNode[]): EditableNode[] => {
-      return nodes.map((node) => {
-        if (node.id === id) {
-          return { ...node, value };
-        }
-        return { ...node, children: update(node.children) };
-      });
-    };
-    const newTree = update(tree);
-    setTree(newTree);
-    saveToHistory(newTree);
+    setDrafts((current) => new Map(current).set(id, value));
+    sessionRef.current?.setValue(id, value);
   };
 
   const updateNodeAttribute = (
@@ -224,191 +298,212 @@ export default function XmlEditor({ onNavigateToComparison }: XmlEditorProps) {
     attrName: string,
     attrValue: string,
   ) => {
-    const update = (nodes: EditableNode[]): EditableNode[] => {
-      return nodes.map((node) => {
-        if (node.id === id) {
-          const newAttrs = { ...node.attributes };
-          if (attrValue.trim()) {
-            newAttrs[attrName] = attrValue;
-          } else {
-            delete newAttrs[attrName];
-          }
-          return { ...node, attributes: newAttrs };
-        }
-        return { ...node, children: update(node.children) };
-      });
-    };
-    const newTree = update(tree);
-    setTree(newTree);
-    saveToHistory(newTree);
+    setDrafts((current) =>
+      new Map(current).set(attributeKey(id, attrName), attrValue),
+    );
+    sessionRef.current?.setAttribute(id, attrName, attrValue);
   };
 
-  const deleteNode = (id: string) => {
-    const remove = (nodes: EditableNode[]): EditableNode[] => {
-      return nodes
-        .filter((node) => node.id !== id)
-        .map((node) => ({ ...node, children: remove(node.children) }));
-    };
-    const newTree = remove(tree);
-    setTree(newTree);
-    saveToHistory(newTree);
+  const deleteNode = (id: string) => sessionRef.current?.remove(id);
+
+  const duplicatePath = (id: string) => sessionRef.current?.duplicate(id);
+
+  const toggleExpand = (id: string) => sessionRef.current?.toggle(id);
+
+  const validateSchema = (xmlString: string, version: number) => {
+    const found = schemas ? validateXml(schemas, xmlString) : null;
+    setSchemaViolations(found);
+    setSchemaCheckedVersion(version);
+    return found ?? [];
   };
 
-  const duplicatePath = (id: string) => {
-    const sourceNode = findNodeById(tree, id);
-    if (!sourceNode) return;
-
-    // Find parent nodes to determine insertion point
-    const parentList = findParentNodes(tree, id);
-    if (parentList === null) {
-      // Root level node
-      const duplicated = deepCloneNode(sourceNode);
-      // Extract base name and numeric suffix (e.g., "i" and 1 from "i1")
-      const nameMatch = sourceNode.name.match(/^(.*?)(\d+)?$/);
-      const baseName = nameMatch?.[1] ?? sourceNode.name;
-      const siblings = tree.filter((n) => {
-        const m = n.name.match(/^(.*?)(\d+)?$/);
-        return m?.[1] === baseName;
-      });
-      const numbers = siblings.map((n) => {
-        const m = n.name.match(/^(.*?)(\d+)$/);
-        return m ? parseInt(m[2], 10) : 0;
-      });
-      const nextNum = Math.max(0, ...numbers) + 1;
-      duplicated.name = `${baseName}${nextNum}`;
-      // Regenerate IDs for the duplicated subtree
-      const newTree = [...tree, duplicated];
-      const regenerated = regenerateIds(newTree);
-      setTree(regenerated);
-      saveToHistory(regenerated);
-    } else {
-      // Child node
-      const parent = parentList[parentList.length - 1];
-      const update = (nodes: EditableNode[]): EditableNode[] => {
-        return nodes.map((node) => {
-          if (node.id === parent.id) {
-            const duplicated = deepCloneNode(sourceNode);
-            const nameMatch = sourceNode.name.match(/^(.*?)(\d+)?$/);
-            const baseName = nameMatch?.[1] ?? sourceNode.name;
-            const siblings = node.children.filter((n) => {
-              const m = n.name.match(/^(.*?)(\d+)?$/);
-              return m?.[1] === baseName;
-            });
-            const numbers = siblings.map((n) => {
-              const m = n.name.match(/^(.*?)(\d+)$/);
-              return m ? parseInt(m[2], 10) : 0;
-            });
-            const nextNum = Math.max(0, ...numbers) + 1;
-            duplicated.name = `${baseName}${nextNum}`;
-            const newChildren = [...node.children, duplicated];
-            // Regenerate IDs for parent's children
-            const regeneratedChildren = regenerateIds(newChildren, node.path);
-            return { ...node, children: regeneratedChildren };
-          }
-          return { ...node, children: update(node.children) };
-        });
-      };
-      const newTree = update(tree);
-      const regenerated = regenerateIds(newTree);
-
-    // Expand the duplicated node
-    const duplicatedNode = findNodeById(tree, id);
-    if (duplicatedNode) {
-      setExpandedPaths(new Set([...expandedPaths, duplicatedNode.id]));
-    }
-      setTree(regenerated);
-      saveToHistory(regenerated);
-    }
+  const handleValidateSchema = () => {
+    sessionRef.current
+      ?.serialize(keepFormatting)
+      .then(({ xml, version }) => validateSchema(xml, version))
+      .catch(reportError("Failed to generate XML"));
   };
 
-  const toggleExpand = (id: string) => {
-    const newExpanded = new Set(expandedPaths);
-    if (newExpanded.has(id)) {
-      newExpanded.delete(id);
-    } else {
-      newExpanded.add(id);
+  // Check a newly loaded document, and the current one when the schemas change
+  useEffect(() => {
+    if (view.nodeCount === 0 || !schemas) {
+      setSchemaViolations(null);
+      return;
     }
-    setExpandedPaths(newExpanded);
-  };
+    handleValidateSchema();
+  }, [schemas, loadCount]);
 
   const handleDownload = () => {
-    try {
-      const xmlElements = buildXmlFromEditable(tree);
-      const xmlObj = { elements: xmlElements };
-      const xmlString = js2xml(xmlObj, { compact: false, spaces: 2 });
-      const blob = new Blob([xmlString], { type: "application/xml" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = fileName ? `edited-${fileName}` : "edited.xml";
-      link.click();
-      URL.revokeObjectURL(url);
-    } catch (err) {
-      setError(`Failed to generate XML: ${(err as Error).message}`);
-    }
+    sessionRef.current
+      ?.serialize(keepFormatting)
+      .then(({ xml: xmlString, patched, version }) => {
+        setSaveNote(
+          keepFormatting && !patched
+            ? "The edits could not be patched into the original text, so the whole document was reformatted."
+            : null,
+        );
+        if (
+          schemas &&
+          !allowInvalidDownload(validateSchema(xmlString, version))
+        ) {
+          setError(
+            "Download blocked: the document breaks the loaded schemas. See Schema validation for the details.",
+          );
+          return;
+        }
+        const blob = new Blob([encodeXml(xmlString, encoding)], {
+          type: "application/xml",
+        });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = fileName ? `edited-${fileName}` : "edited.xml";
+        link.click();
+        URL.revokeObjectURL(url);
+      })
+      .catch(reportError("Failed to generate XML"));
   };
 
-  const currentSearchMatchId =
-    searchResults.length > 0 && searchIndex >= 0 && searchIndex < searchResults.length
-      ? searchResults[searchIndex].id
-      : null;
+  const valueTypeOf = ({ node, loadedValue }: NodeView) =>
+    valueEditorType(node, dataModel, loadedValue);
 
-  const focusNode = (targetId: string) => {
-    const parents = findParentNodes(tree, targetId) ?? [];
-    const newExpanded = new Set(expandedPaths);
-    parents.forEach((p) => newExpanded.add(p.id));
-    newExpanded.add(targetId);
-    setExpandedPaths(newExpanded);
-  };
+  const currentSearchMatchId = searchResults[searchIndex]?.node.id ?? null;
 
-  const runSearch = () => {
-    const query = searchQuery.trim().toLowerCase();
-    if (!query) {
-      setSearchResults([]);
-      setSearchIndex(0);
-      setIsSearchModalOpen(false);
-      return;
+  const rowAt = (index: number): EditorRowView | undefined =>
+    slice.rows[index - slice.start];
+
+  const activeIndex = (() => {
+    if (!active) return undefined;
+    if (active.id !== null) {
+      const found = slice.rows.findIndex((row) => row.node.id === active.id);
+      if (found >= 0) return slice.start + found;
     }
+    return active.index;
+  })();
 
-    const allNodes: EditableNode[] = [];
-    const collect = (nodes: EditableNode[]) => {
-      nodes.forEach((n) => {
-        allNodes.push(n);
-        if (n.children.length > 0) collect(n.children);
-      });
-    };
-    collect(tree);
+  const focusNode = (targetId: string) => {
+    sessionRef.current
+      ?.reveal(targetId)
+      .then((index) => {
+        if (index === null) return;
+        setActive({ id: targetId, index });
+        setScrollTargetIndex(index);
+      })
+      .catch(reportError("Failed to show the node"));
+  };
 
-    const matches = allNodes.filter((n) => {
-      const name = n.name.toLowerCase();
-      const cleanPath = n.path.replace(/\[\d+\]/g, "").toLowerCase();
-      const value = n.value.toLowerCase();
+  const rowVirtualizer = useVirtualizer({
+    count: view.rowCount,
+    getScrollElement: () => treeRef.current,
+    estimateSize: () => 45,
+    overscan: 12,
+    getItemKey: (index) => rowAt(index)?.node.id ?? index,
+  });
 
-      if (searchMode === "parameter") {
-        return name.includes(query);
-      }
+  const virtualRows = rowVirtualizer.getVirtualItems();
+  const firstIndex = virtualRows[0]?.index ?? 0;
+  const lastIndex = virtualRows[virtualRows.length - 1]?.index ?? 0;
 
-      if (searchMode === "path") {
-        return cleanPath.includes(query);
-      }
+  // Fetch the rows around the rendered ones once scrolling leaves the fetched range
+  useEffect(() => {
+    const end = slice.start + slice.rows.length;
+    if (
+      firstIndex >= slice.start &&
+      (lastIndex < end || end >= view.rowCount)
+    ) {
+      return;
+    }
+    sessionRef.current?.setViewport(
+      Math.max(0, firstIndex - rowMargin),
+      lastIndex + 1 + rowMargin,
+    );
+  }, [firstIndex, lastIndex, slice, view.rowCount]);
 
-      if (searchMode === "value") {
-        return value.includes(query);
-      }
+  // Scroll once the expanded ancestors have made the target a row
+  useEffect(() => {
+    if (scrollTargetIndex === null || scrollTargetIndex >= view.rowCount) {
+      return;
+    }
+    rowVirtualizer.scrollToIndex(scrollTargetIndex, { align: "center" });
+    setScrollTargetIndex(null);
+  }, [scrollTargetIndex, view.rowCount]);
 
-      return false;
-    });
+  // A cursor moved onto a row that had not arrived follows it by id once it has
+  useEffect(() => {
+    if (!active || active.id !== null) return;
+    const row = rowAt(active.index);
+    if (row) setActive({ id: row.node.id, index: active.index });
+  }, [active, slice]);
+
+  const moveTo = (index: number) => {
+    if (view.rowCount === 0) return;
+    const target = Math.max(0, Math.min(view.rowCount - 1, index));
+    setActive({ id: rowAt(target)?.node.id ?? null, index: target });
+    rowVirtualizer.scrollToIndex(target, { align: "auto" });
+  };
 
-    setSearchResults(matches);
-    setSearchIndex(0);
-    if (matches[0]) {
-      focusNode(matches[0].id);
+  // Arrow keys move the cursor; Right/Left expand and collapse, or step to
+  // the first child and the parent. Keys typed into a field are left alone
+  // except Escape, which returns to the tree.
+  const handleTreeKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest("input, select, textarea")) {
+      if (e.key === "Escape") treeRef.current?.focus();
+      return;
     }
-    if (matches.length > 0) {
-      setIsSearchModalOpen(true);
-    } else {
-      setIsSearchModalOpen(false);
+    const index = activeIndex;
+    const row = index !== undefined ? rowAt(index) : undefined;
+    const hasChildren = !!row && row.childCount > 0;
+    const isExpanded = !!row && row.expanded;
+
+    switch (e.key) {
+      case "ArrowDown":
+        moveTo(index === undefined ? 0 : index + 1);
+        break;
+      case "ArrowUp":
+        moveTo(index === undefined ? 0 : index - 1);
+        break;
+      case "Home":
+        moveTo(0);
+        break;
+      case "End":
+        moveTo(view.rowCount - 1);
+        break;
+      case "ArrowRight":
+        if (!row) moveTo(index ?? 0);
+        else if (hasChildren && !isExpanded) toggleExpand(row.node.id);
+        else if (hasChildren) moveTo(index! + 1);
+        break;
+      case "ArrowLeft":
+        if (!row) moveTo(index ?? 0);
+        else if (hasChildren && isExpanded) toggleExpand(row.node.id);
+        else if (row.parent >= 0) moveTo(row.parent);
+        break;
+      case "Enter":
+        if (!row) return;
+        treeRef.current
+          ?.querySelector<HTMLElement>(
+            `[data-row-id="${CSS.escape(row.node.id)}"] input, [data-row-id="${CSS.escape(row.node.id)}"] select`,
+          )
+          ?.focus();
+        break;
+      default:
+        return;
     }
+    e.preventDefault();
+  };
+
+  const runSearch = () => {
+    sessionRef.current
+      ?.search(searchQuery, searchMode)
+      .then((matches) => {
+        setSearchResults(matches);
+        setSearchIndex(0);
+        if (matches[0]) {
+          focusNode(matches[0].node.id);
+        }
+        setIsSearchModalOpen(matches.length > 0);
+      })
+      .catch(reportError("Search failed"));
   };
 
   const goToSearchResult = (direction: "prev" | "next") => {
@@ -422,21 +517,34 @@ export default function XmlEditor({ onNavigateToComparison }: XmlEditorProps) {
     setSearchIndex(nextIndex);
     const target = searchResults[nextIndex];
     if (target) {
-      focusNode(target.id);
+      focusNode(target.node.id);
     }
   };
 
+  // Shown until the worker has sent the row
+  const renderPlaceholder = (start: number, index: number) => (
+    <div
+      key={`row-${index}`}
+      ref={rowVirtualizer.measureElement}
+      data-index={index}
+      role="treeitem"
+      aria-busy
+      aria-selected={activeIndex === index}
+      className="absolute left-0 top-0 w-full"
+      style={{ transform: `translateY(${start}px)` }}
+    >
+      <div className="flex h-[45px] items-center border-b border-slate-100 p-2">
+        <div className="h-3 w-48 animate-pulse rounded bg-slate-100" />
+      </div>
+    </div>
+  );
 
-  const renderNode = (node: EditableNode, level: number = 0) => {
-    // Skip rendering completely empty leaf nodes
-    // (we no longer check node.name === "Notification" || "AccessList" here)
-    if (node.value.trim() === "" && node.children.length === 0) {
-      return null;
-    }
-  
-    const hasChildren = node.children.length > 0;
-    const isExpanded = expandedPaths.has(node.id);
+  const renderRow = (row: EditorRowView, start: number, index: number) => {
+    const { node, depth } = row;
+    const hasChildren = row.childCount > 0;
+    const isExpanded = row.expanded;
     const isActiveMatch = currentSearchMatchId === node.id;
+    const isActive = activeIndex === index;
   
     // Filter out unwanted attributes (Notification and AccessList)
     const visibleAttributes = Object.entries(node.attributes).filter(
@@ -446,16 +554,28 @@ export default function XmlEditor({ onNavigateToComparison }: XmlEditorProps) {
     return (
       <div
         key={node.id}
-        className={`select-none ${isActiveMatch ? "bg-yellow-50" : ""}`}
+        ref={rowVirtualizer.measureElement}
+        data-index={index}
+        data-row-id={node.id}
+        role="treeitem"
+        aria-level={depth + 1}
+        aria-expanded={hasChildren ? isExpanded : undefined}
+        aria-selected={isActive}
+        onMouseDown={() => setActive({ id: node.id, index })}
+        className={`absolute left-0 top-0 w-full select-none ${
+          isActiveMatch ? "bg-yellow-50" : ""
+        } ${isActive ? "shadow-[inset_3px_0_0_#2596be]" : ""}`}
+        style={{ transform: `translateY(${start}px)` }}
       >
         <div
           className="flex items-center gap-2 border-b border-slate-100 p-2 hover:bg-slate-50 transition-colors"
-          style={{ paddingLeft: `${level * 20 + 8}px` }}
+          style={{ paddingLeft: `${depth * 20 + 8}px` }}
         >
           {/* Expander icon or spacer */}
           {hasChildren ? (
             <button
               onClick={() => toggleExpand(node.id)}
+              tabIndex={-1}
               className="flex h-5 w-5 items-center justify-center rounded text-slate-400 hover:bg-slate-200 hover:text-slate-600 focus:outline-none"
             >
               {isExpanded ? "▼" : "▶"}
@@ -471,13 +591,12 @@ export default function XmlEditor({ onNavigateToComparison }: XmlEditorProps) {
   
           {/* Value input */}
           <div className="ml-2 flex-1 min-w-0">
-            <input
-              type="text"
-              value={node.value}
-              onChange={(e) => updateNodeValue(node.id, e.target.value)}
-              placeholder="..."
-              spellCheck={false}
-              className="w-full rounded border border-slate-300 px-2 py-1 text-xs font-mono focus:border-[#2596be] focus:outline-none focus:ring-1 focus:ring-[#2596be]/50"
+            <ValueInput
+              value={drafts.get(node.id) ?? node.value}
+              type={valueTypeOf(row)}
+              onChange={(value) => updateNodeValue(node.id, value)}
+              problem={row.problem}
+              className="w-full"
             />
           </div>
   
@@ -492,7 +611,7 @@ export default function XmlEditor({ onNavigateToComparison }: XmlEditorProps) {
                   <span className="font-semibold text-[#2596be]">{key}=</span>
                   <input
                     type="text"
-                    value={val}
+                    value={drafts.get(attributeKey(node.id, key)) ?? val}
                     onChange={(e) => updateNodeAttribute(node.id, key, e.target.value)}
                     spellCheck={false}
                     className="w-20 rounded border border-[#2596be]/20 bg-white px-1.5 py-0.5 text-xs focus:border-[#2596be] focus:outline-none focus:ring-1 focus:ring-[#2596be]/40"
@@ -520,18 +639,10 @@ export default function XmlEditor({ onNavigateToComparison }: XmlEditorProps) {
             </button>
           </div>
         </div>
-  
-        {/* Children */}
-        {hasChildren && isExpanded && (
-          <div>
-            {node.children.map((child) => renderNode(child, level + 1))}
-          </div>
-        )}
       </div>
     );
   };
 
-  
   return (
     <div className="mx-auto max-w-7xl px-4 py-6">
       <div className="mb-6 flex items-center justify-between">
@@ -583,9 +694,20 @@ export default function XmlEditor({ onNavigateToComparison }: XmlEditorProps) {
               className="hidden"
             />
           </label>
+          <label
+            className="flex items-center gap-2 text-sm text-slate-700"
+            title="Patch only the edited values, attributes and elements into the original text"
+          >
+            <input
+              type="checkbox"
+              checked={keepFormatting}
+              onChange={(e) => setKeepFormatting(e.target.checked)}
+            />
+            Keep original formatting
+          </label>
           <button
             onClick={handleDownload}
-            disabled={tree.length === 0}
+            disabled={view.nodeCount === 0}
             className="rounded-lg bg-[#2596be] px-4 py-2 text-sm font-medium text-white hover:bg-[#1e7a9a] disabled:bg-slate-300 disabled:cursor-not-allowed"
           >
             Download Edited XML
@@ -666,15 +788,64 @@ export default function XmlEditor({ onNavigateToComparison }: XmlEditorProps) {
         </div>
       </div>
 
-      {isLoading && (
-        <div className="mb-4 rounded-lg bg-[#2596be]/10 p-4 text-center text-sm text-[#2596be]">
-          Loading XML file...
+      {onSchemasChange && (
+        <div className="mb-4">
+          <SchemaPanel
+            schemas={schemas}
+            onSchemasChange={onSchemasChange}
+            violations={schemaViolations}
+            onValidate={view.nodeCount > 0 ? handleValidateSchema : undefined}
+            stale={schemaCheckedVersion !== view.version}
+            showDownloadPolicy
+            onSelect={(v) => focusNode(splitFlatPath(v.path).elementPath)}
+          />
+        </div>
+      )}
+
+      {onDataModelChange && (
+        <div className="mb-4">
+          <DataModelPanel
+            model={dataModel}
+            onModelChange={onDataModelChange}
+            violations={violations}
+            onSelect={(v) => focusNode(splitFlatPath(v.path).elementPath)}
+          />
+        </div>
+      )}
+
+      {loadProgress && (
+        <div className="mb-4 rounded-lg bg-[#2596be]/10 p-4 text-sm text-[#2596be]">
+          <div className="flex items-baseline justify-between gap-3">
+            <span>{loadProgress.message ?? "Loading XML file..."}</span>
+            <span className="font-semibold">
+              {Math.round(loadProgress.percent)}%
+            </span>
+          </div>
+          <div className="mt-2 h-1.5 overflow-hidden rounded-full bg-white">
+            <div
+              className="h-full rounded-full bg-[#2596be] transition-all"
+              style={{ width: `${loadProgress.percent}%` }}
+            />
+          </div>
         </div>
       )}
 
       {fileName && !isLoading && (
-        <div className="mb-4 rounded-lg bg-slate-50 px-4 py-2 text-sm text-slate-700">
-          <span className="font-medium">File:</span> {fileName}
+        <div className="mb-4 flex items-center gap-3 rounded-lg bg-slate-50 px-4 py-2 text-sm text-slate-700">
+          <span>
+            <span className="font-medium">File:</span> {fileName}
+          </span>
+          <EncodingSelect
+            encoding={encoding}
+            onChange={handleEncodingChange}
+            disabled={!fileBuffer}
+          />
+        </div>
+      )}
+
+      {saveNote && (
+        <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+          {saveNote}
         </div>
       )}
 
@@ -684,7 +855,7 @@ export default function XmlEditor({ onNavigateToComparison }: XmlEditorProps) {
         </div>
       )}
 
-      {tree.length === 0 && !isLoading && !error && (
+      {view.nodeCount === 0 && !isLoading && !error && (
         <div className="rounded-lg border-2 border-dashed border-slate-300 bg-slate-50 p-12 text-center">
           <svg
             className="mx-auto h-12 w-12 text-slate-400"
@@ -705,11 +876,35 @@ export default function XmlEditor({ onNavigateToComparison }: XmlEditorProps) {
         </div>
       )}
 
-      {tree.length > 0 && (
+      {view.nodeCount > 0 && (
         <div className="overflow-hidden rounded-lg border border-slate-200 bg-white">
-          <div className="max-h-[600px] overflow-y-auto">
-            {tree.map((node) => renderNode(node))}
+          <div
+            ref={treeRef}
+            role="tree"
+            aria-label="XML document"
+            tabIndex={0}
+            onKeyDown={handleTreeKeyDown}
+            className="h-[600px] overflow-y-auto focus:outline-none focus-visible:ring-2 focus-visible:ring-[#2596be]/40"
+          >
+            <div
+              className="relative w-full"
+              style={{ height: `${rowVirtualizer.getTotalSize()}px` }}
+            >
+              {virtualRows.map((virtualRow) => {
+                const row = rowAt(virtualRow.index);
+                return row
+                  ? renderRow(row, virtualRow.start, virtualRow.index)
+                  : renderPlaceholder(virtualRow.start, virtualRow.index);
+              })}
+            </div>
           </div>
+          <p className="border-t border-slate-100 px-3 py-1.5 text-xs text-slate-500">
+            {view.rowCount.toLocaleString()} visible row
+            {view.rowCount === 1 ? "" : "s"} of{" "}
+            {view.nodeCount.toLocaleString()} nodes · ↑/↓ move, → expand, ←
+            collapse,
+            Enter edits the value, Esc returns to the tree
+          </p>
         </div>
       )}
 
@@ -750,23 +945,23 @@ export default function XmlEditor({ onNavigateToComparison }: XmlEditorProps) {
                 </thead>
                 <tbody>
                   {searchResults.map((result) => {
-                    const node = findNodeById(tree, result.id);
-                    if (!node) return null;
+                    const { node } = result;
                     const cleanPath = node.path.replace(/\[\d+\]/g, "");
                     return (
-                      <tr key={result.id} className="border-b border-slate-100">
+                      <tr key={node.id} className="border-b border-slate-100">
                         <td className="px-3 py-1.5 font-mono text-[11px] text-slate-800">
                           {cleanPath}
                         </td>
                         <td className="px-3 py-1.5 text-slate-700">{node.name}</td>
                         <td className="px-3 py-1.5">
-                          <input
-                            type="text"
-                            value={node.value}
-                            onChange={(e) =>
-                              updateNodeValue(node.id, e.target.value)
+                          <ValueInput
+                            value={drafts.get(node.id) ?? node.value}
+                            type={valueTypeOf(result)}
+                            onChange={(value) =>
+                              updateNodeValue(node.id, value)
                             }
-                            className="min-w-full rounded border border-slate-300 px-2 py-1 text-[11px] font-mono focus:border-[#2596be] focus:outline-none focus:ring-1 focus:ring-[#2596be]"
+                            problem={result.problem}
+                            className="min-w-full"
                           />
                         </td>
                         <td className="px-3 py-1.5 text-right">
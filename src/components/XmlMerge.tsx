@@ -0,0 +1,376 @@
+import { useMemo, useState } from "react";
+import {
+  type EditableNode,
+  type XmlDocumentShell,
+  flattenEditableTree,
+  parseEditableXml,
+  serializeEditableXml,
+} from "../utils/xmlTree";
+import {
+  type MergeResolution,
+  type MergeResult,
+  type MergeSide,
+  buildMergedTree,
+  resolveConflictValue,
+  threeWayMerge,
+} from "../utils/merge";
+import { type XmlEncoding, decodeXml, encodeXml } from "../utils/encoding";
+
+type DocState = {
+  xml: string;
+  fileName: string | null;
+  /** Encoding of the loaded file; the merged result is written in the left one. */
+  encoding?: XmlEncoding;
+};
+
+const sideLabels: Record<MergeSide, { title: string; hint: string }> = {
+  base: { title: "Base XML", hint: "Common ancestor (previous golden template)" },
+  left: { title: "Left XML (ours)", hint: "Device config with local tweaks" },
+  right: { title: "Right XML (theirs)", hint: "Updated golden template" },
+};
+
+function formatValue(value?: string) {
+  if (value === undefined) return "—";
+  if (value === "") return "(empty)";
+  return value;
+}
+
+export default function XmlMerge() {
+  const [docs, setDocs] = useState<Record<MergeSide, DocState>>({
+    base: { xml: "", fileName: null },
+    left: { xml: "", fileName: null },
+    right: { xml: "", fileName: null },
+  });
+  const [errors, setErrors] = useState<Partial<Record<MergeSide, string>>>({});
+  const [leftTree, setLeftTree] = useState<EditableNode[] | null>(null);
+  // The merged document keeps the left file's declaration and top-level comments
+  const [leftShell, setLeftShell] = useState<XmlDocumentShell | undefined>();
+  const [result, setResult] = useState<MergeResult | null>(null);
+  const [resolutions, setResolutions] = useState<
+    Record<string, MergeResolution>
+  >({});
+  const [error, setError] = useState<string | null>(null);
+
+  const resolvedCount = useMemo(
+    () =>
+      result
+        ? result.conflicts.filter((c) => resolutions[c.path]).length
+        : 0,
+    [result, resolutions],
+  );
+
+  const setDoc = (side: MergeSide, patch: Partial<DocState>) => {
+    setDocs((prev) => ({ ...prev, [side]: { ...prev[side], ...patch } }));
+    setResult(null);
+    setResolutions({});
+  };
+
+  const handleFileLoad = (
+    event: React.ChangeEvent<HTMLInputElement>,
+    side: MergeSide,
+  ) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const { text, encoding, bom } = decodeXml(reader.result as ArrayBuffer);
+      setDoc(side, { xml: text, fileName: file.name, encoding: { encoding, bom } });
+    };
+    reader.onerror = () => {
+      setErrors((prev) => ({ ...prev, [side]: "Failed to read file." }));
+    };
+    reader.readAsArrayBuffer(file);
+  };
+
+  const handleMerge = () => {
+    const trees: Partial<Record<MergeSide, EditableNode[]>> = {};
+    const shells: Partial<Record<MergeSide, XmlDocumentShell>> = {};
+    const nextErrors: Partial<Record<MergeSide, string>> = {};
+    (["base", "left", "right"] as const).forEach((side) => {
+      if (!docs[side].xml.trim()) {
+        nextErrors[side] = "Load or paste an XML document.";
+        return;
+      }
+      try {
+        const { tree, shell } = parseEditableXml(docs[side].xml);
+        trees[side] = tree;
+        shells[side] = shell;
+      } catch (err) {
+        nextErrors[side] = (err as Error).message;
+      }
+    });
+
+    setErrors(nextErrors);
+    setResolutions({});
+    setError(null);
+    if (!trees.base || !trees.left || !trees.right) {
+      setResult(null);
+      setLeftTree(null);
+      return;
+    }
+
+    setLeftTree(trees.left);
+    setLeftShell(shells.left);
+    setResult(
+      threeWayMerge(
+        flattenEditableTree(trees.base),
+        flattenEditableTree(trees.left),
+        flattenEditableTree(trees.right),
+      ),
+    );
+  };
+
+  const resolveAll = (choice: MergeSide) => {
+    if (!result) return;
+    const next: Record<string, MergeResolution> = {};
+    result.conflicts.forEach((c) => {
+      next[c.path] = { choice };
+    });
+    setResolutions(next);
+  };
+
+  const handleDownload = () => {
+    if (!result || !leftTree) return;
+    try {
+      const mergedTree = buildMergedTree(leftTree, result, resolutions);
+      const xmlString = serializeEditableXml(mergedTree, leftShell);
+      const blob = new Blob([encodeXml(xmlString, docs.left.encoding)], {
+        type: "application/xml",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = docs.left.fileName
+        ? `merged-${docs.left.fileName}`
+        : "merged.xml";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(`Failed to generate XML: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <>
+      <header className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-xl font-semibold tracking-tight text-slate-900">
+              Three-way Merge
+            </h1>
+            <p className="mt-1 text-sm text-slate-600">
+              Apply golden template updates to a device config while keeping
+              its local tweaks. Non-conflicting parameter changes merge
+              automatically.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleMerge}
+              className="inline-flex items-center justify-center rounded-lg bg-primary px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-primary-600"
+            >
+              Merge
+            </button>
+            <button
+              type="button"
+              onClick={handleDownload}
+              disabled={!result}
+              className="rounded-lg border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Download Merged XML
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {/* Base, left and right XML input panels */}
+      <section className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+        {(["base", "left", "right"] as const).map((side) => (
+          <div
+            key={side}
+            className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm"
+          >
+            <div className="mb-2 flex items-center justify-between gap-3">
+              <div>
+                <h2 className="text-base font-semibold text-slate-900">
+                  {sideLabels[side].title}
+                </h2>
+                <p className="text-xs text-slate-500">
+                  {docs[side].fileName ?? sideLabels[side].hint}
+                </p>
+              </div>
+              <label className="inline-flex cursor-pointer items-center gap-2 rounded-lg border border-primary-200 bg-primary-50 px-3 py-2 text-sm font-semibold text-primary-700 hover:bg-primary-100">
+                <input
+                  type="file"
+                  accept=".xml"
+                  className="hidden"
+                  onChange={(e) => handleFileLoad(e, side)}
+                />
+                Load file
+              </label>
+            </div>
+            <textarea
+              value={docs[side].xml}
+              onChange={(e) => setDoc(side, { xml: e.target.value })}
+              spellCheck={false}
+              placeholder="Paste XML here"
+              className="h-56 w-full resize-y rounded-xl border border-slate-300 bg-slate-50 p-3 font-mono text-sm text-slate-900 shadow-sm outline-none focus:border-primary focus:ring-2 focus:ring-primary-200"
+            />
+            {errors[side] && (
+              <div className="mt-2 rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm text-rose-700">
+                {errors[side]}
+              </div>
+            )}
+          </div>
+        ))}
+      </section>
+
+      {error && (
+        <div className="rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <section className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+            <div>
+              <h2 className="text-base font-semibold text-slate-900">
+                Conflicts
+              </h2>
+              <p className="mt-1 text-sm text-slate-600">
+                Parameters changed differently on both sides. Unresolved
+                conflicts keep the left value.
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="rounded-full border border-cyan-200 bg-cyan-50 px-3 py-1 text-sm font-semibold text-cyan-800">
+                From right: {result.stats.fromRight}
+              </span>
+              <span className="rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-sm font-semibold text-slate-700">
+                Kept left: {result.stats.fromLeft}
+              </span>
+              <span className="rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-sm font-semibold text-slate-700">
+                Same on both: {result.stats.both}
+              </span>
+              <span className="rounded-full border border-rose-200 bg-rose-50 px-3 py-1 text-sm font-semibold text-rose-800">
+                Conflicts: {resolvedCount}/{result.stats.conflicts} resolved
+              </span>
+            </div>
+          </div>
+
+          {result.conflicts.length === 0 ? (
+            <div className="mt-4 rounded-xl border border-slate-200 px-4 py-8 text-center text-sm text-slate-600">
+              No conflicts. The merged XML is ready to download.
+            </div>
+          ) : (
+            <>
+              <div className="mt-3 flex items-center gap-2 text-xs text-slate-600">
+                <span className="font-medium">Resolve all to:</span>
+                {(["base", "left", "right"] as const).map((side) => (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => resolveAll(side)}
+                    className="rounded-full border border-slate-200 px-3 py-1 font-semibold capitalize text-slate-700 hover:bg-slate-50"
+                  >
+                    {side}
+                  </button>
+                ))}
+              </div>
+              <div className="mt-3 max-h-[520px] overflow-auto rounded-xl border border-slate-200">
+                <table className="w-full text-left text-xs">
+                  <thead className="sticky top-0 bg-slate-50 uppercase tracking-wide text-slate-600">
+                    <tr>
+                      <th className="px-3 py-2 font-semibold">Path</th>
+                      <th className="px-3 py-2 font-semibold">Base</th>
+                      <th className="px-3 py-2 font-semibold">Left</th>
+                      <th className="px-3 py-2 font-semibold">Right</th>
+                      <th className="px-3 py-2 font-semibold">Resolution</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.conflicts.map((conflict) => {
+                      const resolution = resolutions[conflict.path];
+                      const choose = (next: MergeResolution) =>
+                        setResolutions((prev) => ({
+                          ...prev,
+                          [conflict.path]: next,
+                        }));
+                      const cell = (side: MergeSide, value?: string) => (
+                        <td className="px-3 py-1.5">
+                          <button
+                            type="button"
+                            onClick={() => choose({ choice: side })}
+                            className={`w-full rounded border px-2 py-1 text-left font-mono ${
+                              resolution?.choice === side
+                                ? "border-primary bg-primary-50 text-primary-800"
+                                : "border-slate-200 text-slate-800 hover:bg-slate-50"
+                            }`}
+                          >
+                            {formatValue(value)}
+                          </button>
+                        </td>
+                      );
+                      return (
+                        <tr
+                          key={conflict.path}
+                          className={`border-b border-slate-100 ${resolution ? "" : "bg-rose-50/50"}`}
+                        >
+                          <td className="break-all px-3 py-1.5 font-mono text-slate-900">
+                            {conflict.path}
+                          </td>
+                          {cell("base", conflict.baseValue)}
+                          {cell("left", conflict.leftValue)}
+                          {cell("right", conflict.rightValue)}
+                          <td className="px-3 py-1.5">
+                            <input
+                              type="text"
+                              value={
+                                resolution?.choice === "custom"
+                                  ? resolution.value
+                                  : ""
+                              }
+                              onChange={(e) =>
+                                choose({ choice: "custom", value: e.target.value })
+                              }
+                              placeholder={
+                                resolution
+                                  ? formatValue(
+                                      resolveConflictValue(conflict, resolution),
+                                    )
+                                  : "Custom value…"
+                              }
+                              spellCheck={false}
+                              className="w-full rounded border border-slate-300 px-2 py-1 font-mono focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary-200"
+                            />
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {result.rightChanges.length > 0 && (
+            <details className="mt-4">
+              <summary className="cursor-pointer text-sm font-semibold text-slate-900">
+                Auto-merged from right ({result.rightChanges.length})
+              </summary>
+              <ul className="mt-2 max-h-64 overflow-auto rounded-xl border border-slate-200 p-3 font-mono text-xs text-slate-700">
+                {result.rightChanges.map((path) => (
+                  <li key={path} className="break-all">
+                    {path} = {formatValue(result.merged[path])}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </section>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,294 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { xml2js } from "xml-js";
+import type { Diff } from "../workers/xmlDiffWorker";
+import type { InstanceMaps } from "../utils/cherryPick";
+import type { NamespaceTable } from "../utils/namespaces";
+import { type EditableNode, buildEditableTree } from "../utils/xmlTree";
+import {
+  type TreeDiffNode,
+  buildTreeDiff,
+  changedBranchKeys,
+  hasChanges,
+  visibleTreeRows,
+} from "../utils/treeDiff";
+
+type XmlTreeDiffProps = {
+  leftXml: string;
+  rightXml: string;
+  differences: Diff[];
+  instances: InstanceMaps;
+  namespaces: NamespaceTable;
+};
+
+function parseTree(xml: string, namespaces: NamespaceTable): EditableNode[] {
+  const parsed = xml2js(xml, { compact: false, ignoreDeclaration: true });
+  return buildEditableTree((parsed as any).elements ?? [], "", "", namespaces);
+}
+
+const valueStyles: Record<Diff["change"], string> = {
+  added: "bg-cyan-100 text-cyan-900",
+  removed: "bg-rose-100 text-rose-900",
+  changed: "bg-amber-100 text-amber-900",
+  renumbered: "bg-violet-100 text-violet-900",
+  equivalent: "bg-emerald-100 text-emerald-900",
+};
+
+function NodeCell({
+  node,
+  row,
+  side,
+  onToggle,
+  isExpanded,
+}: {
+  node?: EditableNode;
+  row: TreeDiffNode;
+  side: "left" | "right";
+  onToggle: () => void;
+  isExpanded: boolean;
+}) {
+  if (!node) {
+    return (
+      <div
+        className="h-full bg-[repeating-linear-gradient(45deg,transparent,transparent_6px,rgb(241_245_249)_6px,rgb(241_245_249)_12px)]"
+        style={{ marginLeft: row.depth * 16 + 20 }}
+      />
+    );
+  }
+
+  const segment = node.id.slice(node.id.lastIndexOf(".") + 1);
+  const textDiff = row.own["#text"];
+  const position =
+    row.renumbered &&
+    (side === "left" ? row.renumbered.leftValue : row.renumbered.rightValue);
+
+  return (
+    <div
+      className="flex h-full min-w-0 items-center gap-1 font-mono text-xs"
+      style={{ paddingLeft: row.depth * 16 }}
+    >
+      {row.children.length > 0 ? (
+        <button
+          type="button"
+          onClick={onToggle}
+          className="w-4 shrink-0 text-slate-500 hover:text-slate-900"
+          title={isExpanded ? "Collapse" : "Expand"}
+        >
+          {isExpanded ? "▾" : "▸"}
+        </button>
+      ) : (
+        <span className="w-4 shrink-0" />
+      )}
+      <span className="shrink-0 font-semibold text-slate-800" title={node.id}>
+        {segment}
+      </span>
+      {position && (
+        <span
+          className="shrink-0 rounded bg-violet-100 px-1 text-violet-800"
+          title={`Instance position: ${position}`}
+        >
+          moved
+        </span>
+      )}
+      {Object.entries(node.attributes).map(([name, value]) => {
+        const diff = row.own[`@${name}`];
+        return (
+          <span
+            key={name}
+            className={`shrink-0 rounded px-1 ${diff ? valueStyles[diff.change] : "text-slate-500"}`}
+          >
+            @{name}={String(value)}
+          </span>
+        );
+      })}
+      {node.value && (
+        <span
+          className={`truncate rounded px-1 ${textDiff ? valueStyles[textDiff.change] : "text-slate-700"}`}
+          title={node.value}
+        >
+          {node.value}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function CountBadges({ row }: { row: TreeDiffNode }) {
+  const { added, removed, changed } = row.counts;
+  return (
+    <div className="flex items-center justify-center gap-1 text-[10px] font-semibold">
+      {added > 0 && (
+        <span className="rounded-full bg-cyan-100 px-1.5 text-cyan-800">
+          +{added}
+        </span>
+      )}
+      {removed > 0 && (
+        <span className="rounded-full bg-rose-100 px-1.5 text-rose-800">
+          −{removed}
+        </span>
+      )}
+      {changed > 0 && (
+        <span className="rounded-full bg-amber-100 px-1.5 text-amber-800">
+          ~{changed}
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Both documents as collapsible trees in one scroll container: each row holds
+ * the left and right element at the same comparison path, so scrolling and
+ * expansion always stay in sync.
+ */
+export default function XmlTreeDiff({
+  leftXml,
+  rightXml,
+  differences,
+  instances,
+  namespaces,
+}: XmlTreeDiffProps) {
+  const { roots, error } = useMemo(() => {
+    try {
+      return {
+        roots: buildTreeDiff(
+          parseTree(leftXml, namespaces),
+          parseTree(rightXml, namespaces),
+          differences,
+          instances,
+        ),
+        error: null,
+      };
+    } catch (err) {
+      return { roots: [] as TreeDiffNode[], error: (err as Error).message };
+    }
+  }, [leftXml, rightXml, differences, instances, namespaces]);
+
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set());
+  const [changedOnly, setChangedOnly] = useState(false);
+
+  // Only branches with changes open initially
+  useEffect(() => {
+    setExpanded(changedBranchKeys(roots));
+  }, [roots]);
+
+  const rows = useMemo(() => {
+    const all = visibleTreeRows(roots, expanded);
+    return changedOnly ? all.filter(hasChanges) : all;
+  }, [roots, expanded, changedOnly]);
+
+  const toggle = (key: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const parentRef = useRef<HTMLDivElement | null>(null);
+  const rowVirtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => parentRef.current,
+    estimateSize: () => 28,
+    overscan: 24,
+  });
+
+  if (error) {
+    return (
+      <div className="mt-4 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+        Failed to build the tree view: {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 overflow-hidden rounded-xl border border-slate-200">
+      <div className="flex flex-wrap items-center justify-between gap-2 border-b border-slate-200 bg-white px-3 py-2 text-xs">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setExpanded(changedBranchKeys(roots))}
+            className="rounded border border-slate-300 px-2 py-1 font-semibold text-slate-700 hover:bg-slate-50"
+          >
+            Expand changed
+          </button>
+          <button
+            type="button"
+            onClick={() => setExpanded(new Set())}
+            className="rounded border border-slate-300 px-2 py-1 font-semibold text-slate-700 hover:bg-slate-50"
+          >
+            Collapse all
+          </button>
+        </div>
+        <label className="flex items-center gap-1 text-slate-700">
+          <input
+            type="checkbox"
+            checked={changedOnly}
+            onChange={(e) => setChangedOnly(e.target.checked)}
+          />
+          Only rows with changes
+        </label>
+      </div>
+
+      <div className="grid grid-cols-[minmax(0,1fr)_6rem_minmax(0,1fr)] gap-2 bg-slate-50 px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-600">
+        <div>Left</div>
+        <div className="text-center">Changes</div>
+        <div>Right</div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="px-4 py-8 text-center text-sm text-slate-600">
+          Nothing to show.
+        </div>
+      ) : (
+        <div
+          ref={parentRef}
+          className="h-[520px] overflow-auto bg-white"
+          style={{ contain: "strict" }}
+        >
+          <div
+            className="relative w-full"
+            style={{ height: `${rowVirtualizer.getTotalSize()}px` }}
+          >
+            {rowVirtualizer.getVirtualItems().map((virtualRow) => {
+              const row = rows[virtualRow.index]!;
+              const isExpanded = expanded.has(row.key);
+              const rowBg = !row.left
+                ? "bg-cyan-50"
+                : !row.right
+                  ? "bg-rose-50"
+                  : "";
+              return (
+                <div
+                  key={row.key}
+                  className={`absolute left-0 top-0 grid w-full grid-cols-[minmax(0,1fr)_6rem_minmax(0,1fr)] gap-2 border-b border-slate-100 px-3 ${rowBg}`}
+                  style={{
+                    transform: `translateY(${virtualRow.start}px)`,
+                    height: `${virtualRow.size}px`,
+                  }}
+                >
+                  <NodeCell
+                    node={row.left}
+                    row={row}
+                    side="left"
+                    onToggle={() => toggle(row.key)}
+                    isExpanded={isExpanded}
+                  />
+                  <CountBadges row={row} />
+                  <NodeCell
+                    node={row.right}
+                    row={row}
+                    side="right"
+                    onToggle={() => toggle(row.key)}
+                    isExpanded={isExpanded}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
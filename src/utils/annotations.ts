@@ -0,0 +1,169 @@
+/**
+ * Review annotations on comparison rows: a verdict and a note per path, stored
+ * locally for each pair of compared files of a device. A later comparison of
+ * the same device picks up earlier annotations for paths that differ again.
+ */
+
+import type { ReportSide } from "./report";
+
+const STORAGE_KEY = "femtoxml-studio.annotations";
+
+export type AnnotationStatus = "expected" | "unexpected" | "followUp";
+
+export type DiffAnnotation = {
+  status: AnnotationStatus | null;
+  note: string;
+  /** ISO date of the last change. */
+  updatedAt: string;
+};
+
+/** Annotations of one comparison by row path. */
+export type AnnotationMap = Record<string, DiffAnnotation>;
+
+type AnnotationEntry = {
+  /** Device the pair belongs to, or null if neither document names one. */
+  device: string | null;
+  updatedAt: string;
+  annotations: AnnotationMap;
+};
+
+/** Stored annotations by device and pair of compared files. */
+export type AnnotationStore = Record<string, AnnotationEntry>;
+
+/** Where a comparison's annotations are kept and which earlier ones it inherits. */
+export type AnnotationScope = { pair: string; device: string | null };
+
+export const annotationStatusLabels: Record<AnnotationStatus, string> = {
+  expected: "Expected",
+  unexpected: "Unexpected",
+  followUp: "Needs follow-up",
+};
+
+/** Badge colours per verdict; notes without a verdict use slate. */
+export const annotationColors: Record<
+  AnnotationStatus,
+  { bg: string; fg: string }
+> = {
+  expected: { bg: "#dcfce7", fg: "#166534" },
+  unexpected: { bg: "#ffe4e6", fg: "#9f1239" },
+  followUp: { bg: "#fef3c7", fg: "#92400e" },
+};
+
+/** Device of a document: its serial number, else its local id. */
+function deviceId(side: ReportSide) {
+  const id =
+    side.identifiers.find((i) => i.label === "Serial number") ??
+    side.identifiers.find((i) => i.label === "Local ID");
+  return id?.value ?? "";
+}
+
+/** FNV-1a hash of pasted text, so equal pastes share annotations and others do not. */
+function contentHash(text: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Scope of a comparison's annotations. Vendor exports often share file names,
+ * so the device is part of the key; pasted input is told apart by its content
+ * (`contents`), and without it there is nothing to key on, so null.
+ */
+export function annotationScope(
+  left: ReportSide,
+  right: ReportSide,
+  contents?: [string, string],
+): AnnotationScope | null {
+  const names = [left, right].map(
+    (side, i) =>
+      side.fileName ??
+      (contents ? `Pasted XML ${contentHash(contents[i])}` : null),
+  );
+  if (names.some((name) => name === null)) return null;
+  const devices = [deviceId(left), deviceId(right)];
+  const device = devices.some(Boolean) ? devices.join("\n") : null;
+  return {
+    pair: [device ?? "", ...names].join("\n"),
+    device,
+  };
+}
+
+export function loadAnnotations(): AnnotationStore {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as AnnotationStore) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveAnnotations(store: AnnotationStore) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch {
+    // Storage unavailable: annotations stay in memory only.
+  }
+}
+
+/**
+ * Annotations that apply to a comparison: those of earlier pairs of the same
+ * device, oldest first, overlaid by the pair's own.
+ */
+export function annotationsFor(
+  store: AnnotationStore,
+  scope: AnnotationScope,
+): AnnotationMap {
+  const inherited = scope.device
+    ? Object.entries(store)
+        .filter(([pair, entry]) => pair !== scope.pair && entry.device === scope.device)
+        .sort(([, a], [, b]) => a.updatedAt.localeCompare(b.updatedAt))
+        .map(([, entry]) => entry.annotations)
+    : [];
+  const merged: AnnotationMap = Object.assign(
+    {},
+    ...inherited,
+    store[scope.pair]?.annotations,
+  );
+  for (const [path, annotation] of Object.entries(merged)) {
+    if (isEmptyAnnotation(annotation)) delete merged[path];
+  }
+  return merged;
+}
+
+export function isEmptyAnnotation(annotation: DiffAnnotation | null | undefined) {
+  return !annotation || (!annotation.status && !annotation.note.trim());
+}
+
+/** The store with one path's annotation replaced; an empty annotation clears it. */
+export function setAnnotation(
+  store: AnnotationStore,
+  scope: AnnotationScope,
+  path: string,
+  annotation: DiffAnnotation | null,
+): AnnotationStore {
+  const updatedAt = new Date().toISOString();
+  const annotations = { ...store[scope.pair]?.annotations };
+  if (!isEmptyAnnotation(annotation)) {
+    annotations[path] = annotation!;
+  } else if (scope.device) {
+    // Kept empty so it hides what earlier pairs of the device said
+    annotations[path] = { status: null, note: "", updatedAt };
+  } else {
+    delete annotations[path];
+  }
+
+  const next = { ...store };
+  if (Object.keys(annotations).length === 0) delete next[scope.pair];
+  else next[scope.pair] = { device: scope.device, updatedAt, annotations };
+  return next;
+}
+
+/** Annotation and Note cells of an exported row. */
+export function annotationCells(annotation: DiffAnnotation | undefined): [string, string] {
+  return [
+    annotation?.status ? annotationStatusLabels[annotation.status] : "",
+    annotation?.note ?? "",
+  ];
+}
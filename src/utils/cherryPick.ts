@@ -0,0 +1,128 @@
+/**
+ * Apply selected comparison rows to one side, producing a cherry-picked document.
+ */
+
+import type { ComparisonSide, Diff } from "../workers/xmlDiffWorker";
+import {
+  type EditableNode,
+  applyFlatValue,
+  splitFlatPath,
+  splitPathSegments,
+} from "./xmlTree";
+
+/** Keyed instance path -> positional segment, per side (as reported by the worker). */
+export type InstanceMaps = Record<ComparisonSide, Record<string, string>>;
+
+export type CherryPickResult = {
+  applied: number;
+  /** Rows that could not be applied (renumberings, or nothing to remove). */
+  skipped: Diff[];
+};
+
+function isKeyedSegment(segment: string) {
+  return /\[[^\]]*=/.test(segment);
+}
+
+/**
+ * Pick a free positional segment for an instance the target does not have yet:
+ * the next "iN" for numbered instances, otherwise the next sibling index.
+ */
+function allocateSegment(
+  siblings: EditableNode[],
+  parentId: string,
+  sourceSegment: string,
+): string {
+  const name = sourceSegment.replace(/\[\d+\]$/, "");
+  if (/^i\d+$/.test(name)) {
+    const used = siblings
+      .map((n) => n.name.match(/^i(\d+)$/))
+      .filter((m): m is RegExpMatchArray => m !== null)
+      .map((m) => Number(m[1]));
+    return `i${Math.max(0, ...used) + 1}[1]`;
+  }
+  const prefix = parentId ? `${parentId}.${name}[` : `${name}[`;
+  const used = siblings
+    .filter((n) => n.id.startsWith(prefix))
+    .map((n) => Number(n.id.slice(prefix.length, -1)) || 0);
+  return `${name}[${Math.max(0, ...used) + 1}]`;
+}
+
+/**
+ * Translate a diff path into a flat key of the target tree. Keyed segments are
+ * looked up in the target's instance map; instances it lacks get a new position
+ * when `create` is set (the same one for every row of that instance).
+ */
+function resolveTargetPath(
+  tree: EditableNode[],
+  diffPath: string,
+  target: ComparisonSide,
+  instances: InstanceMaps,
+  allocated: Map<string, string>,
+  create: boolean,
+): string | null {
+  const source: ComparisonSide = target === "left" ? "right" : "left";
+  const { elementPath, target: leaf } = splitFlatPath(diffPath);
+
+  let keyed = "";
+  let positional = "";
+  let siblings = tree;
+  for (const segment of splitPathSegments(elementPath)) {
+    keyed = keyed ? `${keyed}.${segment}` : segment;
+    let resolved: string | undefined = segment;
+    if (isKeyedSegment(segment)) {
+      resolved = instances[target][keyed] ?? allocated.get(keyed);
+      if (!resolved) {
+        const sourceSegment = instances[source][keyed];
+        if (!create || !sourceSegment) return null;
+        resolved = allocateSegment(siblings, positional, sourceSegment);
+        allocated.set(keyed, resolved);
+      }
+    }
+    positional = positional ? `${positional}.${resolved}` : resolved;
+    siblings = siblings.find((n) => n.id === positional)?.children ?? [];
+  }
+  return `${positional}/${leaf}`;
+}
+
+/**
+ * Make `target` match the other side for the given rows. Mutates the tree:
+ * values are copied over, missing elements are created for rows only on the
+ * other side, and rows only on the target side are removed.
+ */
+export function applyDiffsToTree(
+  tree: EditableNode[],
+  diffs: Diff[],
+  target: ComparisonSide,
+  instances: InstanceMaps,
+): CherryPickResult {
+  const valueOf = (diff: Diff) =>
+    target === "left" ? diff.rightValue : diff.leftValue;
+  const skipped = diffs.filter((d) => d.change === "renumbered");
+  const rows = diffs.filter((d) => d.change !== "renumbered");
+  const allocated = new Map<string, string>();
+  let applied = 0;
+
+  // Removals first: element ids stay fixed, and new instances are then placed after what remains
+  const ordered = [
+    ...rows.filter((d) => valueOf(d) === undefined),
+    ...rows.filter((d) => valueOf(d) !== undefined),
+  ];
+  for (const diff of ordered) {
+    const value = valueOf(diff);
+    const path = resolveTargetPath(
+      tree,
+      diff.path,
+      target,
+      instances,
+      allocated,
+      value !== undefined,
+    );
+    if (path && applyFlatValue(tree, path, value)) {
+      applied += 1;
+    } else {
+      skipped.push(diff);
+    }
+  }
+
+  return { applied, skipped };
+}
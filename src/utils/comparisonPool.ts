@@ -0,0 +1,145 @@
+/**
+ * Two-worker pool for comparisons: left and right documents are flattened in
+ * parallel, and an in-flight comparison can be cancelled or superseded.
+ */
+
+import type {
+  ComparisonOptions,
+  ComparisonSide,
+  WorkerDone,
+  WorkerRequest,
+  WorkerResponse,
+} from "../workers/xmlDiffWorker";
+
+export type ComparisonProgress = {
+  phase: ComparisonSide | "diff";
+  percent: number;
+  message?: string;
+};
+
+export type ComparisonOutcome = WorkerDone;
+
+/** Rejection reason for comparisons stopped by `cancel()` or a newer `run()`. */
+export class ComparisonCancelledError extends Error {
+  constructor() {
+    super("Comparison cancelled");
+    this.name = "ComparisonCancelledError";
+  }
+}
+
+export type ComparisonPool = {
+  run: (
+    left: ArrayBuffer,
+    right: ArrayBuffer,
+    options: ComparisonOptions,
+    onProgress: (progress: ComparisonProgress) => void,
+  ) => Promise<ComparisonOutcome>;
+  cancel: () => void;
+  dispose: () => void;
+};
+
+function spawnWorker() {
+  return new Worker(new URL("../workers/xmlDiffWorker.ts", import.meta.url), {
+    type: "module",
+  });
+}
+
+export function createComparisonPool(): ComparisonPool {
+  let workers: [Worker, Worker] | null = null;
+  let nextJobId = 1;
+  let current: {
+    jobId: number;
+    reject: (reason: unknown) => void;
+  } | null = null;
+
+  const ensureWorkers = (): [Worker, Worker] => {
+    if (!workers) workers = [spawnWorker(), spawnWorker()];
+    return workers;
+  };
+
+  // Parsing is synchronous inside the workers, so the only clean abort is to
+  // terminate them; fresh workers are spawned for the next run.
+  const cancel = () => {
+    if (!current) return;
+    const { reject } = current;
+    current = null;
+    workers?.forEach((w) => w.terminate());
+    workers = null;
+    reject(new ComparisonCancelledError());
+  };
+
+  const run: ComparisonPool["run"] = (left, right, options, onProgress) => {
+    cancel();
+    const [diffWorker, flattenWorker] = ensureWorkers();
+    const jobId = nextJobId++;
+
+    return new Promise<ComparisonOutcome>((resolve, reject) => {
+      current = { jobId, reject };
+
+      const cleanup = () => {
+        diffWorker.removeEventListener("message", onMessage);
+        diffWorker.removeEventListener("error", onError);
+        flattenWorker.removeEventListener("message", onMessage);
+        flattenWorker.removeEventListener("error", onError);
+        if (current?.jobId === jobId) current = null;
+      };
+
+      const onMessage = (event: MessageEvent<WorkerResponse>) => {
+        const data = event.data;
+        if (data.jobId !== jobId) return;
+        if (data.ok && data.type === "progress") {
+          onProgress({
+            phase: data.phase,
+            percent: data.percent,
+            message: data.message,
+          });
+          return;
+        }
+        cleanup();
+        resolve(data as WorkerDone);
+      };
+
+      const onError = (err: ErrorEvent) => {
+        cleanup();
+        // A crashed worker cannot be trusted for the next run
+        workers?.forEach((w) => w.terminate());
+        workers = null;
+        reject(new Error(`Worker error: ${err.message}`));
+      };
+
+      diffWorker.addEventListener("message", onMessage);
+      diffWorker.addEventListener("error", onError);
+      flattenWorker.addEventListener("message", onMessage);
+      flattenWorker.addEventListener("error", onError);
+
+      const channel = new MessageChannel();
+      const diffRequest: WorkerRequest = {
+        type: "diff",
+        jobId,
+        side: "left",
+        source: left,
+        peer: channel.port1,
+        ...options,
+      };
+      const flattenRequest: WorkerRequest = {
+        type: "flatten",
+        jobId,
+        side: "right",
+        source: right,
+        matchKeys: options.matchKeys,
+        peer: channel.port2,
+      };
+      // Buffers are transferred, not copied, to keep large dumps off the message channel
+      diffWorker.postMessage(diffRequest, [left, channel.port1]);
+      flattenWorker.postMessage(flattenRequest, [right, channel.port2]);
+    });
+  };
+
+  const dispose = () => {
+    cancel();
+    workers?.forEach((w) => w.terminate());
+    workers = null;
+  };
+
+  return { run, cancel, dispose };
+}
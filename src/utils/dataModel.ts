@@ -0,0 +1,505 @@
+/**
+ * Broadband Forum data models (TR-181, TR-196, TR-098 `dm:document` files):
+ * parsing parameter definitions, mapping tree paths such as
+ * "Device[1].Services[1].FAPService[1].i1[1]" onto "Device.Services.FAPService.{i}."
+ * and validating values against the declared syntax.
+ */
+
+import { xml2js } from "xml-js";
+import { splitFlatPath, splitPathSegments } from "./xmlTree";
+
+export type BaseType =
+  | "string"
+  | "boolean"
+  | "int"
+  | "unsignedInt"
+  | "long"
+  | "unsignedLong"
+  | "decimal"
+  | "dateTime"
+  | "base64"
+  | "hexBinary";
+
+/** Inclusive bounds kept as written, so 64-bit limits compare exactly. */
+export type ValueRange = { min?: string; max?: string; step?: string };
+
+export type ParameterSyntax = {
+  type: BaseType;
+  /** Named data type the syntax refers to (e.g. "IPAddress"). */
+  dataType?: string;
+  ranges: ValueRange[];
+  sizes: { minLength?: number; maxLength?: number }[];
+  enumerations: string[];
+  patterns: string[];
+  /** Set for comma-separated lists; facets above then apply to each item. */
+  list?: { minItems?: number; maxItems?: number; maxLength?: number };
+};
+
+export type ParameterAccess = "readOnly" | "readWrite" | "writeOnceReadOnly";
+
+export type DataModelParameter = {
+  /** Generic path, e.g. "Device.Services.FAPService.{i}.CellConfig.LTE.RAN.RF.PhyCellID". */
+  path: string;
+  access: ParameterAccess;
+  syntax: ParameterSyntax;
+};
+
+export type DataModel = {
+  /** Model names of the document, e.g. "Device:2.16". */
+  name: string;
+  fileName: string;
+  parameters: Map<string, DataModelParameter>;
+  /** Root object names ("Device", "InternetGatewayDevice") used to anchor tree paths. */
+  roots: Set<string>;
+};
+
+/** A value that breaks its parameter's definition. */
+export type ValueViolation = {
+  /** Flat path of the value ("...PhyCellID[1]/#text"). */
+  path: string;
+  parameter: string;
+  value: string;
+  message: string;
+  /** Comparison side the value comes from; unset in the editor. */
+  side?: "left" | "right";
+};
+
+const baseTypes = new Set<string>([
+  "string",
+  "boolean",
+  "int",
+  "unsignedInt",
+  "long",
+  "unsignedLong",
+  "decimal",
+  "dateTime",
+  "base64",
+  "hexBinary",
+]);
+
+export const integerLimits: Partial<Record<BaseType, [bigint, bigint]>> = {
+  int: [-(2n ** 31n), 2n ** 31n - 1n],
+  unsignedInt: [0n, 2n ** 32n - 1n],
+  long: [-(2n ** 63n), 2n ** 63n - 1n],
+  unsignedLong: [0n, 2n ** 64n - 1n],
+};
+
+export function emptySyntax(type: BaseType): ParameterSyntax {
+  return { type, ranges: [], sizes: [], enumerations: [], patterns: [] };
+}
+
+/**
+ * TR-106 named types that definition files usually import from
+ * tr-106-types.xml instead of defining; used when a reference is not defined.
+ */
+export const builtinDataTypes: Record<string, ParameterSyntax> = {
+  Alias: { ...emptySyntax("string"), sizes: [{ maxLength: 64 }] },
+  StatsCounter32: emptySyntax("unsignedInt"),
+  StatsCounter64: emptySyntax("unsignedLong"),
+  Dbm1000: emptySyntax("int"),
+  UUID: {
+    ...emptySyntax("string"),
+    sizes: [{ minLength: 36, maxLength: 36 }],
+    patterns: ["[a-fA-F0-9]{8}-[a-fA-F0-9]{4}-[a-fA-F0-9]{4}-[a-fA-F0-9]{4}-[a-fA-F0-9]{12}"],
+  },
+  IPAddress: { ...emptySyntax("string"), sizes: [{ maxLength: 45 }] },
+  IPv4Address: {
+    ...emptySyntax("string"),
+    sizes: [{ maxLength: 15 }],
+    patterns: ["", "((25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9]?[0-9])\\.){3}(25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9]?[0-9])"],
+  },
+  IPv6Address: { ...emptySyntax("string"), sizes: [{ maxLength: 45 }] },
+  MACAddress: {
+    ...emptySyntax("string"),
+    sizes: [{ maxLength: 17 }],
+    patterns: ["", "([0-9A-Fa-f][0-9A-Fa-f]:){5}([0-9A-Fa-f][0-9A-Fa-f])"],
+  },
+};
+
+function localName(name: string) {
+  return name.slice(name.indexOf(":") + 1);
+}
+
+function childElements(el: any, name?: string): any[] {
+  return ((el.elements ?? []) as any[]).filter(
+    (c) => c.type === "element" && (!name || localName(c.name) === name),
+  );
+}
+
+function optionalNumber(value: string | undefined) {
+  return value === undefined || value === "" ? undefined : Number(value);
+}
+
+/**
+ * A range bound or step as the base type reads it; bounds that are not numbers
+ * of that type (minInclusive="1.5" on an int) and steps below 1 are dropped.
+ */
+function rangeFacet(
+  syntax: ParameterSyntax,
+  value: string | undefined,
+  step = false,
+): string | undefined {
+  if (value === undefined) return undefined;
+  const text = value.trim();
+  if (integerLimits[syntax.type]) {
+    if (!/^[-+]?\d+$/.test(text)) return undefined;
+    return step && BigInt(text) < 1n ? undefined : text;
+  }
+  return text !== "" && Number.isFinite(Number(text)) ? text : undefined;
+}
+
+/** Facets written inside a type element, <dataType> or <list>. */
+function readFacets(el: any, syntax: ParameterSyntax) {
+  const ranges: ValueRange[] = [];
+  const sizes: ParameterSyntax["sizes"] = [];
+  const enumerations: string[] = [];
+  const patterns: string[] = [];
+  for (const facet of childElements(el)) {
+    const attrs = facet.attributes ?? {};
+    switch (localName(facet.name)) {
+      case "range": {
+        const range: ValueRange = {
+          min: rangeFacet(syntax, attrs.minInclusive),
+          max: rangeFacet(syntax, attrs.maxInclusive),
+          step: rangeFacet(syntax, attrs.step, true),
+        };
+        if (range.min !== undefined || range.max !== undefined) ranges.push(range);
+        break;
+      }
+      case "size":
+        sizes.push({
+          minLength: optionalNumber(attrs.minLength),
+          maxLength: optionalNumber(attrs.maxLength),
+        });
+        break;
+      case "enumeration":
+        enumerations.push(String(attrs.value ?? ""));
+        break;
+      case "pattern":
+        patterns.push(String(attrs.value ?? ""));
+        break;
+    }
+  }
+  // Facets of a derived type restrict the base; absent ones are inherited
+  if (ranges.length) syntax.ranges = ranges;
+  if (sizes.length) syntax.sizes = sizes;
+  if (enumerations.length) syntax.enumerations = enumerations;
+  if (patterns.length) syntax.patterns = patterns;
+}
+
+type DataTypeResolver = (name: string) => ParameterSyntax;
+
+/** Syntax of a <syntax> or <dataType> element. */
+function readSyntax(el: any, resolve: DataTypeResolver): ParameterSyntax {
+  let syntax: ParameterSyntax | null = null;
+  let list: ParameterSyntax["list"];
+
+  for (const child of childElements(el)) {
+    const name = localName(child.name);
+    if (name === "list") {
+      const attrs = child.attributes ?? {};
+      const size = childElements(child, "size")[0]?.attributes ?? {};
+      list = {
+        minItems: optionalNumber(attrs.minItems),
+        maxItems: optionalNumber(attrs.maxItems),
+        maxLength: optionalNumber(size.maxLength),
+      };
+    } else if (baseTypes.has(name)) {
+      syntax = emptySyntax(name as BaseType);
+      const ref = child.attributes?.ref;
+      if (ref) syntax = { ...resolve(ref), dataType: ref };
+      readFacets(child, syntax);
+    } else if (name === "dataType") {
+      const ref = child.attributes?.ref;
+      syntax = ref ? { ...resolve(ref), dataType: ref } : emptySyntax("string");
+      readFacets(child, syntax);
+    }
+  }
+
+  // <dataType name="X" base="Y"> restricts another named type directly
+  const base = el.attributes?.base;
+  if (!syntax && base) {
+    syntax = { ...resolve(base) };
+    readFacets(el, syntax);
+  }
+
+  syntax ??= emptySyntax("string");
+  if (list) syntax = { ...syntax, list: { ...syntax.list, ...list } };
+  return syntax;
+}
+
+type ObjectVisitor = (objectPath: string, object: any) => void;
+
+/** Walk the objects of a model, following component references with their path prefix. */
+function visitObjects(
+  container: any,
+  prefix: string,
+  components: Map<string, any>,
+  visit: ObjectVisitor,
+  depth = 0,
+) {
+  if (depth > 32) return;
+  for (const child of childElements(container)) {
+    const name = localName(child.name);
+    const attrs = child.attributes ?? {};
+    if (name === "object") {
+      visit(prefix + String(attrs.name ?? attrs.base ?? ""), child);
+    } else if (name === "component" && attrs.ref) {
+      const component = components.get(attrs.ref);
+      if (component) {
+        visitObjects(
+          component,
+          prefix + String(attrs.path ?? ""),
+          components,
+          visit,
+          depth + 1,
+        );
+      }
+    }
+  }
+}
+
+/** Parse a `dm:document` definition file. Throws if it defines no parameters. */
+export function parseDataModel(xml: string, fileName: string): DataModel {
+  const doc = xml2js(xml, { compact: false }) as any;
+  const root = childElements(doc).find((el) => localName(el.name) === "document");
+  if (!root) {
+    throw new Error("Not a Broadband Forum data model (no dm:document root).");
+  }
+
+  const dataTypeElements = new Map<string, any>();
+  for (const el of childElements(root, "dataType")) {
+    if (el.attributes?.name) dataTypeElements.set(el.attributes.name, el);
+  }
+  const components = new Map<string, any>();
+  for (const el of childElements(root, "component")) {
+    if (el.attributes?.name) components.set(el.attributes.name, el);
+  }
+
+  const resolved = new Map<string, ParameterSyntax>();
+  const resolving = new Set<string>();
+  const resolve: DataTypeResolver = (name) => {
+    const cached = resolved.get(name);
+    if (cached) return cached;
+    const el = dataTypeElements.get(name);
+    if (!el || resolving.has(name)) {
+      return builtinDataTypes[name] ?? emptySyntax("string");
+    }
+    resolving.add(name);
+    const syntax = readSyntax(el, resolve);
+    resolving.delete(name);
+    resolved.set(name, syntax);
+    return syntax;
+  };
+
+  const parameters = new Map<string, DataModelParameter>();
+  const roots = new Set<string>();
+  const models = childElements(root, "model");
+  for (const model of models) {
+    visitObjects(model, "", components, (objectPath, object) => {
+      const rootName = objectPath.split(".")[0];
+      if (rootName) roots.add(rootName);
+      for (const param of childElements(object, "parameter")) {
+        const attrs = param.attributes ?? {};
+        const name = attrs.name ?? attrs.base;
+        if (!name) continue;
+        const path = objectPath + name;
+        const syntaxEl = childElements(param, "syntax")[0];
+        const previous = parameters.get(path);
+        parameters.set(path, {
+          path,
+          access: (attrs.access ?? previous?.access ?? "readOnly") as ParameterAccess,
+          syntax: syntaxEl
+            ? readSyntax(syntaxEl, resolve)
+            : previous?.syntax ?? emptySyntax("string"),
+        });
+      }
+    });
+  }
+
+  if (parameters.size === 0) {
+    throw new Error("The data model defines no parameters.");
+  }
+  return {
+    name: models.map((m) => m.attributes?.name).filter(Boolean).join(", ") || fileName,
+    fileName,
+    parameters,
+    roots,
+  };
+}
+
+/**
+ * Generic data-model path of an element path: indices and keys are dropped,
+ * instance elements ("i1", "i2") become "{i}" and anything above the model's
+ * root object (an envelope element, say) is skipped. Null if no root matches.
+ */
+export function dataModelPath(model: DataModel, elementPath: string): string | null {
+  const names = splitPathSegments(elementPath).map((segment) => {
+    const name = localName(segment.replace(/\[.*\]$/, ""));
+    return /^i\d+$/.test(name) ? "{i}" : name;
+  });
+  const start = names.findIndex((name) => model.roots.has(name));
+  if (start < 0) return null;
+  return names.slice(start).join(".");
+}
+
+/** The parameter a tree element holds the value of, if the model defines it. */
+export function findParameter(
+  model: DataModel,
+  elementPath: string,
+): DataModelParameter | null {
+  const path = dataModelPath(model, elementPath);
+  return path ? model.parameters.get(path) ?? null : null;
+}
+
+function describeType(syntax: ParameterSyntax) {
+  return syntax.dataType ? `${syntax.dataType} (${syntax.type})` : syntax.type;
+}
+
+function checkRange(syntax: ParameterSyntax, value: string): string | null {
+  const integer = !!integerLimits[syntax.type];
+  if (syntax.ranges.length === 0 || (!integer && syntax.type !== "decimal")) {
+    return null;
+  }
+  const toNumber = (v: string) => (integer ? BigInt(v) : Number(v));
+  const n = toNumber(value);
+  const inRange = syntax.ranges.some((r) => {
+    if (r.min !== undefined && n < toNumber(r.min)) return false;
+    if (r.max !== undefined && n > toNumber(r.max)) return false;
+    if (integer && r.step && r.min !== undefined) {
+      return ((n as bigint) - BigInt(r.min)) % BigInt(r.step) === 0n;
+    }
+    return true;
+  });
+  if (inRange) return null;
+  const ranges = syntax.ranges
+    .map((r) => `${r.min ?? "…"}..${r.max ?? "…"}${r.step ? ` step ${r.step}` : ""}`)
+    .join(" or ");
+  return `${value} is outside ${ranges}`;
+}
+
+/** Length the size facets measure: characters, or bytes for binary types. */
+function valueLength(syntax: ParameterSyntax, value: string) {
+  if (syntax.type === "hexBinary") return value.length / 2;
+  if (syntax.type === "base64") {
+    return (value.length / 4) * 3 - (value.match(/=*$/)?.[0].length ?? 0);
+  }
+  return [...value].length;
+}
+
+function matchesPattern(pattern: string, value: string) {
+  try {
+    return new RegExp(`^(?:${pattern})$`, "u").test(value);
+  } catch {
+    // XSD-only regex syntax; do not report what cannot be checked
+    return true;
+  }
+}
+
+/** First problem of a single (non-list) value, or null if it is valid. */
+function checkScalar(syntax: ParameterSyntax, value: string): string | null {
+  const { type } = syntax;
+  if (type === "boolean") {
+    if (!/^(true|false|1|0)$/.test(value)) return `"${value}" is not a boolean`;
+  } else if (integerLimits[type]) {
+    const [min, max] = integerLimits[type]!;
+    if (!/^-?\d+$/.test(value) || BigInt(value) < min || BigInt(value) > max) {
+      return `"${value}" is not a valid ${type}`;
+    }
+  } else if (type === "decimal") {
+    if (!/^-?\d+(\.\d+)?$/.test(value)) return `"${value}" is not a decimal`;
+  } else if (type === "dateTime") {
+    if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/.test(value)) {
+      return `"${value}" is not an ISO 8601 dateTime`;
+    }
+  } else if (type === "hexBinary") {
+    if (!/^([0-9a-fA-F]{2})*$/.test(value)) return `"${value}" is not hexBinary`;
+  } else if (type === "base64") {
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(value) || value.length % 4 !== 0) {
+      return `"${value}" is not base64`;
+    }
+  }
+
+  const rangeError = checkRange(syntax, value);
+  if (rangeError) return rangeError;
+
+  if (syntax.sizes.length > 0) {
+    const length = valueLength(syntax, value);
+    const fits = syntax.sizes.some(
+      (s) =>
+        (s.minLength === undefined || length >= s.minLength) &&
+        (s.maxLength === undefined || length <= s.maxLength),
+    );
+    if (!fits) {
+      const limits = syntax.sizes
+        .map((s) => `${s.minLength ?? 0}..${s.maxLength ?? "…"}`)
+        .join(" or ");
+      return `length ${length} is outside ${limits}`;
+    }
+  }
+
+  if (syntax.enumerations.length > 0 && !syntax.enumerations.includes(value)) {
+    const shown = syntax.enumerations.slice(0, 8).join(", ");
+    return `"${value}" is not one of ${shown}${syntax.enumerations.length > 8 ? ", …" : ""}`;
+  }
+
+  if (
+    syntax.patterns.length > 0 &&
+    !syntax.patterns.some((p) => matchesPattern(p, value))
+  ) {
+    return `"${value}" does not match the ${describeType(syntax)} pattern`;
+  }
+  return null;
+}
+
+/** First problem with a value under the parameter's syntax, or null if it is valid. */
+export function checkValue(syntax: ParameterSyntax, value: string): string | null {
+  if (!syntax.list) return checkScalar(syntax, value);
+
+  const { minItems, maxItems, maxLength } = syntax.list;
+  if (maxLength !== undefined && value.length > maxLength) {
+    return `list length ${value.length} exceeds ${maxLength}`;
+  }
+  const items = value === "" ? [] : value.split(",").map((item) => item.trim());
+  if (minItems !== undefined && items.length < minItems) {
+    return `list has ${items.length} item(s), at least ${minItems} required`;
+  }
+  if (maxItems !== undefined && items.length > maxItems) {
+    return `list has ${items.length} item(s), at most ${maxItems} allowed`;
+  }
+  for (const item of items) {
+    const problem = checkScalar(syntax, item);
+    if (problem) return `list item ${problem}`;
+  }
+  return null;
+}
+
+/**
+ * Violations among text values keyed by flat path ("a[1].b[1]/#text").
+ * `edited` marks values that differ from the loaded (or left-hand) value, so
+ * changes to read-only parameters are reported; attributes and parameters the
+ * model does not define are skipped.
+ */
+export function validateValues(
+  model: DataModel,
+  values: { path: string; value: string; edited?: boolean; side?: "left" | "right" }[],
+): ValueViolation[] {
+  const violations: ValueViolation[] = [];
+  for (const { path, value, edited, side } of values) {
+    const { elementPath, target } = splitFlatPath(path);
+    if (target !== "#text") continue;
+    const parameter = findParameter(model, elementPath);
+    if (!parameter) continue;
+
+    const problem = checkValue(parameter.syntax, value);
+    const message =
+      problem ??
+      (edited && parameter.access === "readOnly"
+        ? "read-only parameter changed; the device will not accept a new value"
+        : null);
+    if (message) {
+      violations.push({ path, parameter: parameter.path, value, message, side });
+    }
+  }
+  return violations;
+}
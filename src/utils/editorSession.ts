@@ -0,0 +1,261 @@
+/**
+ * Page side of the editor worker, which owns the open document: the page
+ * sends edits and the rows on screen, and gets back only those rows and
+ * change notifications.
+ */
+
+import type { DataModel } from "./dataModel";
+import type { FileEncoding } from "./encoding";
+import type {
+  EditorChange,
+  EditorDocumentState,
+  EditorMatches,
+  EditorRequest,
+  EditorResponse,
+  EditorRows,
+  NodeView,
+  SearchMode,
+} from "../workers/xmlEditorWorker";
+
+export type LoadProgress = { percent: number; message?: string };
+
+export type EditorLoadResult = {
+  encoding: FileEncoding | null;
+  nodeCount: number;
+};
+
+/** Pushed by the worker; `failed` reports an edit the worker could not apply. */
+export type EditorEvent =
+  | EditorChange
+  | EditorRows
+  | EditorMatches
+  | { type: "failed"; error: string };
+
+/** Rejection reason for loads superseded by a newer `load()` or `dispose()`. */
+export class EditorLoadCancelledError extends Error {
+  constructor() {
+    super("Loading cancelled");
+    this.name = "EditorLoadCancelledError";
+  }
+}
+
+export type EditorSession = {
+  /** Replaces the document; bytes are decoded with the given encoding override. */
+  load: (
+    source: ArrayBuffer | string,
+    options: {
+      override?: string | null;
+      restore?: EditorDocumentState;
+    },
+    onProgress: (progress: LoadProgress) => void,
+  ) => Promise<EditorLoadResult>;
+  /** Rows [start, end) are sent now and after every change. */
+  setViewport: (start: number, end: number) => void;
+  toggle: (id: string) => void;
+  /** Expands the ancestors of a node; resolves to its row index. */
+  reveal: (id: string) => Promise<number | null>;
+  setValue: (id: string, value: string) => void;
+  setAttribute: (id: string, name: string, value: string) => void;
+  duplicate: (id: string) => void;
+  remove: (id: string) => void;
+  undo: () => void;
+  redo: () => void;
+  search: (query: string, mode: SearchMode) => Promise<NodeView[]>;
+  setDataModel: (model: DataModel | null) => void;
+  /** The document as it would be saved, and the version it was taken at. */
+  serialize: (
+    keepFormatting: boolean,
+  ) => Promise<{ xml: string; patched: boolean; version: number }>;
+  snapshot: () => Promise<EditorDocumentState | null>;
+  subscribe: (listener: (event: EditorEvent) => void) => () => void;
+  dispose: () => void;
+};
+
+type Reply = Extract<
+  EditorResponse,
+  { type: "revealed" | "searched" | "serialized" | "snapshot" }
+>;
+
+// Requests that are answered, minus the id the session assigns
+type Query<R = EditorRequest> = R extends { requestId: number }
+  ? Omit<R, "requestId">
+  : never;
+
+function spawnWorker() {
+  return new Worker(new URL("../workers/xmlEditorWorker.ts", import.meta.url), {
+    type: "module",
+  });
+}
+
+export function createEditorSession(): EditorSession {
+  let worker: Worker | null = null;
+  let nextId = 1;
+  let dataModel: DataModel | null = null;
+  let viewport = { start: 0, end: 0 };
+  let loading: {
+    jobId: number;
+    resolve: (result: EditorLoadResult) => void;
+    reject: (reason: unknown) => void;
+    onProgress: (progress: LoadProgress) => void;
+  } | null = null;
+  const pending = new Map<
+    number,
+    { resolve: (reply: Reply) => void; reject: (reason: unknown) => void }
+  >();
+  const listeners = new Set<(event: EditorEvent) => void>();
+
+  const emit = (event: EditorEvent) => listeners.forEach((l) => l(event));
+
+  // Everything in flight is lost with the worker
+  const drop = (reason: unknown) => {
+    worker?.terminate();
+    worker = null;
+    loading?.reject(reason);
+    loading = null;
+    pending.forEach(({ reject }) => reject(reason));
+    pending.clear();
+  };
+
+  const handleMessage = (event: MessageEvent<EditorResponse>) => {
+    const data = event.data;
+    switch (data.type) {
+      case "progress":
+        if (data.jobId === loading?.jobId) {
+          loading.onProgress({ percent: data.percent, message: data.message });
+        }
+        return;
+      case "loaded":
+      case "loadError":
+        if (data.jobId !== loading?.jobId) return;
+        if (data.type === "loaded") {
+          loading.resolve({ encoding: data.encoding, nodeCount: data.nodeCount });
+        } else {
+          loading.reject(new Error(data.error));
+        }
+        loading = null;
+        return;
+      case "change":
+      case "rows":
+      case "matches":
+        emit(data);
+        return;
+      case "failed": {
+        const request =
+          data.requestId !== undefined ? pending.get(data.requestId) : undefined;
+        if (!request) {
+          emit({ type: "failed", error: data.error });
+          return;
+        }
+        pending.delete(data.requestId!);
+        request.reject(new Error(data.error));
+        return;
+      }
+      default: {
+        const request = pending.get(data.requestId);
+        pending.delete(data.requestId);
+        request?.resolve(data);
+      }
+    }
+  };
+
+  const ensureWorker = () => {
+    if (!worker) {
+      const spawned = spawnWorker();
+      spawned.onmessage = handleMessage;
+      spawned.onerror = (err) => {
+        const error = new Error(`Worker error: ${err.message}`);
+        drop(error);
+        emit({ type: "failed", error: error.message });
+      };
+      // A fresh worker knows nothing the page already told the last one
+      const setup: EditorRequest[] = [
+        { type: "dataModel", model: dataModel },
+        { type: "viewport", ...viewport },
+      ];
+      setup.forEach((request) => spawned.postMessage(request));
+      worker = spawned;
+    }
+    return worker;
+  };
+
+  const post = (request: EditorRequest, transfer: Transferable[] = []) => {
+    ensureWorker().postMessage(request, transfer);
+  };
+
+  const ask = <T extends Reply>(query: Query) =>
+    new Promise<T>((resolve, reject) => {
+      const requestId = nextId++;
+      pending.set(requestId, {
+        resolve: (reply) => resolve(reply as T),
+        reject,
+      });
+      post({ ...query, requestId } as EditorRequest);
+    });
+
+  // Parsing is synchronous inside the worker, so a superseded load is only
+  // stopped by terminating it; the new load gets a fresh worker.
+  const load: EditorSession["load"] = (source, options, onProgress) => {
+    if (loading) drop(new EditorLoadCancelledError());
+    const jobId = nextId++;
+    return new Promise<EditorLoadResult>((resolve, reject) => {
+      loading = { jobId, resolve, reject, onProgress };
+      // Bytes are transferred, not copied; callers keep their own copy
+      post(
+        { type: "load", jobId, source, ...options },
+        typeof source === "string" ? [] : [source],
+      );
+    });
+  };
+
+  return {
+    load,
+    // Both are also sent to each fresh worker, so there is nothing to send
+    // before the first one exists
+    setViewport: (start, end) => {
+      viewport = { start, end };
+      if (worker) post({ type: "viewport", start, end });
+    },
+    toggle: (id) => post({ type: "toggle", id }),
+    reveal: async (id) =>
+      (await ask<Extract<Reply, { type: "revealed" }>>({ type: "reveal", id }))
+        .index,
+    setValue: (id, value) => post({ type: "setValue", id, value }),
+    setAttribute: (id, name, value) =>
+      post({ type: "setAttribute", id, name, value }),
+    duplicate: (id) => post({ type: "duplicate", id }),
+    remove: (id) => post({ type: "delete", id }),
+    undo: () => post({ type: "undo" }),
+    redo: () => post({ type: "redo" }),
+    search: async (query, mode) =>
+      (
+        await ask<Extract<Reply, { type: "searched" }>>({
+          type: "search",
+          query,
+          mode,
+        })
+      ).matches,
+    setDataModel: (model) => {
+      dataModel = model;
+      if (worker) post({ type: "dataModel", model });
+    },
+    serialize: async (keepFormatting) => {
+      const { xml, patched, version } = await ask<
+        Extract<Reply, { type: "serialized" }>
+      >({ type: "serialize", keepFormatting });
+      return { xml, patched, version };
+    },
+    snapshot: async () =>
+      (await ask<Extract<Reply, { type: "snapshot" }>>({ type: "snapshot" }))
+        .state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    dispose: () => {
+      drop(new EditorLoadCancelledError());
+      listeners.clear();
+    },
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Character encoding of loaded XML files: detection from the byte order mark or
+ * the XML declaration, decoding, and writing documents back in the encoding
+ * they were loaded with.
+ */
+
+export type XmlEncoding = {
+  /** Encoding label as understood by TextDecoder, lower case (e.g. "iso-8859-1"). */
+  encoding: string;
+  /** Whether the file started with a byte order mark. */
+  bom: boolean;
+};
+
+/** Encoding a file was decoded with, and what detection alone would have picked. */
+export type FileEncoding = XmlEncoding & {
+  detected: string;
+  overridden: boolean;
+};
+
+export type DecodedXml = FileEncoding & { text: string };
+
+/** Encodings offered as manual overrides; any other TextDecoder label is still detected. */
+export const encodingChoices: { value: string; label: string }[] = [
+  { value: "utf-8", label: "UTF-8" },
+  { value: "utf-16le", label: "UTF-16 LE" },
+  { value: "utf-16be", label: "UTF-16 BE" },
+  { value: "iso-8859-1", label: "ISO-8859-1 (Latin-1)" },
+  { value: "iso-8859-15", label: "ISO-8859-15 (Latin-9)" },
+  { value: "windows-1252", label: "Windows-1252" },
+];
+
+export function encodingLabel(encoding: string) {
+  return (
+    encodingChoices.find((c) => c.value === encoding)?.label ??
+    encoding.toUpperCase()
+  );
+}
+
+function isSupported(encoding: string) {
+  try {
+    new TextDecoder(encoding);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect the encoding of an XML file: a byte order mark wins, then the layout of
+ * "<?" (UTF-16 without BOM), then the declaration's encoding; UTF-8 otherwise.
+ */
+export function detectXmlEncoding(bytes: Uint8Array): XmlEncoding {
+  const [b0, b1, b2, b3] = bytes;
+  if (b0 === 0xef && b1 === 0xbb && b2 === 0xbf) return { encoding: "utf-8", bom: true };
+  if (b0 === 0xff && b1 === 0xfe) return { encoding: "utf-16le", bom: true };
+  if (b0 === 0xfe && b1 === 0xff) return { encoding: "utf-16be", bom: true };
+  if (b0 === 0x3c && b1 === 0x00 && b2 === 0x3f && b3 === 0x00) {
+    return { encoding: "utf-16le", bom: false };
+  }
+  if (b0 === 0x00 && b1 === 0x3c && b2 === 0x00 && b3 === 0x3f) {
+    return { encoding: "utf-16be", bom: false };
+  }
+
+  // The declaration is ASCII in every ASCII-compatible encoding
+  const head = String.fromCharCode(...bytes.subarray(0, 256));
+  const declared = head
+    .match(/^<\?xml[^>]*?encoding\s*=\s*["']([A-Za-z0-9._:-]+)["']/)?.[1]
+    ?.toLowerCase();
+  // A UTF-16 declaration in 8-bit bytes is mislabelled; trust the bytes
+  if (declared && !declared.startsWith("utf-16") && isSupported(declared)) {
+    return { encoding: declared, bom: false };
+  }
+  return { encoding: "utf-8", bom: false };
+}
+
+/** Decode a file, using `override` instead of the detected encoding when given. */
+export function decodeXml(buffer: ArrayBuffer, override?: string | null): DecodedXml {
+  const bytes = new Uint8Array(buffer);
+  const detected = detectXmlEncoding(bytes);
+  const encoding = override || detected.encoding;
+  // TextDecoder drops a BOM that matches the encoding
+  const text = new TextDecoder(encoding).decode(bytes);
+  return {
+    text,
+    encoding,
+    bom: detected.bom && encoding === detected.encoding,
+    detected: detected.encoding,
+    overridden: !!override,
+  };
+}
+
+/** UTF-8 bytes of a file for the comparison worker, transcoded when needed. */
+export function toUtf8Buffer(buffer: ArrayBuffer, override?: string | null): ArrayBuffer {
+  const detected = detectXmlEncoding(new Uint8Array(buffer));
+  if ((override || detected.encoding) === "utf-8") return buffer;
+  return new TextEncoder().encode(decodeXml(buffer, override).text).buffer as ArrayBuffer;
+}
+
+const singleByteTables = new Map<string, Map<number, number> | null>();
+
+/** Code point -> byte for single-byte encodings; null for multi-byte ones. */
+function singleByteTable(encoding: string): Map<number, number> | null {
+  if (!singleByteTables.has(encoding)) {
+    const all = new Uint8Array(256).map((_, i) => i);
+    const decoded = new TextDecoder(encoding).decode(all);
+    let table: Map<number, number> | null = null;
+    if (decoded.length === 256) {
+      table = new Map();
+      for (let i = 255; i >= 0; i--) table.set(decoded.charCodeAt(i), i);
+    }
+    singleByteTables.set(encoding, table);
+  }
+  return singleByteTables.get(encoding)!;
+}
+
+function encodeUtf16(
+  text: string,
+  littleEndian: boolean,
+  bom: boolean,
+): Uint8Array<ArrayBuffer> {
+  const units = (bom ? "\uFEFF" : "") + text;
+  const view = new DataView(new ArrayBuffer(units.length * 2));
+  for (let i = 0; i < units.length; i++) {
+    view.setUint16(i * 2, units.charCodeAt(i), littleEndian);
+  }
+  return new Uint8Array(view.buffer);
+}
+
+/** Point the declaration at UTF-8 for documents re-encoded as UTF-8. */
+function declareUtf8(text: string): string {
+  const declaration = /^(\s*<\?xml[^>]*?encoding\s*=\s*)(["'])[^"']*\2/;
+  return declaration.test(text)
+    ? text.replace(declaration, "$1$2UTF-8$2")
+    : text;
+}
+
+// Comments, CDATA sections, processing instructions, the doctype and tags
+const markup =
+  /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<\?[\s\S]*?(?:\?>|$)|<!DOCTYPE[^[>]*(?:\[[\s\S]*?\])?[^>]*>?|<(?:"[^"]*"|'[^']*'|[^"'>])*>?/g;
+
+/**
+ * Whether a character the table lacks appears where a character reference
+ * would not be read back: in names, comments, CDATA, PIs or the doctype.
+ */
+function needsUnicode(text: string, table: Map<number, number>): boolean {
+  const lacking = (part: string) => {
+    for (const char of part) {
+      if (!table.has(char.codePointAt(0)!)) return true;
+    }
+    return false;
+  };
+  for (const [token] of text.matchAll(markup)) {
+    // Attribute values of a tag take references like text does
+    const rest = /^<[/\w:]/.test(token)
+      ? token.replace(/"[^"]*"|'[^']*'/g, "")
+      : token;
+    if (lacking(rest)) return true;
+  }
+  return false;
+}
+
+/**
+ * Encode a document for download in the encoding it was loaded with. Characters
+ * a single-byte encoding cannot hold are written as character references in
+ * text and attribute values; anywhere else the document is written as UTF-8.
+ * Encodings without an encoder here (e.g. Shift_JIS) are written as UTF-8 too,
+ * with the declaration updated to match.
+ */
+export function encodeXml(
+  text: string,
+  target?: XmlEncoding | null,
+): Uint8Array<ArrayBuffer> {
+  const { encoding, bom } = target ?? { encoding: "utf-8", bom: false };
+  if (encoding === "utf-16le" || encoding === "utf-16") return encodeUtf16(text, true, bom);
+  if (encoding === "utf-16be") return encodeUtf16(text, false, bom);
+
+  const table = encoding === "utf-8" ? null : singleByteTable(encoding);
+  if (!table || needsUnicode(text, table)) {
+    const utf8 = new TextEncoder().encode(encoding === "utf-8" ? text : declareUtf8(text));
+    if (!bom || encoding !== "utf-8") return utf8;
+    const withBom = new Uint8Array(utf8.length + 3);
+    withBom.set([0xef, 0xbb, 0xbf]);
+    withBom.set(utf8, 3);
+    return withBom;
+  }
+
+  const out: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const byte = table.get(code);
+    if (byte !== undefined) {
+      out.push(byte);
+    } else {
+      for (const c of `&#x${code.toString(16).toUpperCase()};`) out.push(c.charCodeAt(0));
+    }
+  }
+  return Uint8Array.from(out);
+}
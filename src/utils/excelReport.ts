@@ -0,0 +1,307 @@
+/**
+ * Multi-sheet Excel comparison report: a summary with links to each object
+ * group, all rows, one sheet per change type and rows grouped by top-level
+ * object with subtotals. Rows are coloured by change; headers stay frozen.
+ */
+
+import ExcelJS from "exceljs";
+import type { Diff } from "../workers/xmlDiffWorker";
+import {
+  type AnnotationMap,
+  annotationCells,
+  annotationColors,
+} from "./annotations";
+import {
+  type ChangeKind,
+  type ReportContext,
+  type ReportSide,
+  changeColors,
+  changeKindLabels,
+  describeFilters,
+  topLevelObject,
+} from "./report";
+
+const changeKinds = Object.keys(changeKindLabels) as ChangeKind[];
+
+const groupSheetName = "By object";
+
+/** Header names the report importer looks for; keep in sync with the CSV export. */
+const rowColumns = ["Path", "Status", "Left Value", "Right Value"];
+
+const annotationColumns = ["Annotation", "Note"];
+
+const maxColumnWidth = 60;
+
+function argb(hex: string) {
+  return `FF${hex.slice(1).toUpperCase()}`;
+}
+
+function fill(hex: string): ExcelJS.Fill {
+  return { type: "pattern", pattern: "solid", fgColor: { argb: argb(hex) } };
+}
+
+const headerFill = fill("#f1f5f9");
+const groupFill = fill("#e0f2fe");
+
+function formatValue(value?: string) {
+  return value ?? "—";
+}
+
+function countChanges(rows: Diff[]) {
+  const counts = Object.fromEntries(changeKinds.map((k) => [k, 0])) as Record<
+    ChangeKind,
+    number
+  >;
+  rows.forEach((d) => (counts[d.change] += 1));
+  return counts;
+}
+
+function describeCounts(counts: Record<ChangeKind, number>) {
+  return changeKinds
+    .filter((k) => counts[k] > 0)
+    .map((k) => `${counts[k]} ${changeKindLabels[k].toLowerCase()}`)
+    .join(", ");
+}
+
+function styleHeader(row: ExcelJS.Row) {
+  row.font = { bold: true };
+  row.eachCell((cell) => (cell.fill = headerFill));
+}
+
+function fillRow(row: ExcelJS.Row, rowFill: ExcelJS.Fill, columns: number) {
+  for (let col = 1; col <= columns; col++) row.getCell(col).fill = rowFill;
+}
+
+function colourRow(
+  row: ExcelJS.Row,
+  change: ChangeKind,
+  statusColumn: number,
+  columns: number,
+) {
+  fillRow(row, fill(changeColors[change].bg), columns);
+  row.getCell(statusColumn).font = {
+    bold: true,
+    color: { argb: argb(changeColors[change].fg) },
+  };
+}
+
+/** Cells after the values: the row's verdict and note, if annotations are exported. */
+function annotationValues(diff: Diff, annotations?: AnnotationMap) {
+  return annotations ? annotationCells(annotations[diff.path]) : [];
+}
+
+function colourAnnotation(
+  row: ExcelJS.Row,
+  diff: Diff,
+  column: number,
+  annotations?: AnnotationMap,
+) {
+  const status = annotations?.[diff.path]?.status;
+  if (!status) return;
+  const cell = row.getCell(column);
+  cell.fill = fill(annotationColors[status].bg);
+  cell.font = { bold: true, color: { argb: argb(annotationColors[status].fg) } };
+}
+
+function fitColumns(sheet: ExcelJS.Worksheet, minWidths: number[]) {
+  sheet.columns.forEach((column, index) => {
+    let width = minWidths[index] ?? 10;
+    column.eachCell?.({ includeEmpty: false }, (cell) => {
+      width = Math.max(width, String(cell.text ?? "").length + 2);
+    });
+    column.width = Math.min(width, maxColumnWidth);
+  });
+}
+
+/** Frozen header row with an autofilter over the table below it. */
+function finishTable(sheet: ExcelJS.Worksheet, columns: number, headerRow = 1) {
+  sheet.views = [{ state: "frozen", ySplit: headerRow }];
+  sheet.autoFilter = {
+    from: { row: headerRow, column: 1 },
+    to: { row: Math.max(sheet.rowCount, headerRow), column: columns },
+  };
+}
+
+function addRowsSheet(
+  workbook: ExcelJS.Workbook,
+  name: string,
+  rows: Diff[],
+  annotations?: AnnotationMap,
+) {
+  const sheet = workbook.addWorksheet(name);
+  const columns = annotations ? [...rowColumns, ...annotationColumns] : rowColumns;
+  styleHeader(sheet.addRow(columns));
+  for (const diff of rows) {
+    const row = sheet.addRow([
+      diff.path,
+      changeKindLabels[diff.change],
+      formatValue(diff.leftValue),
+      formatValue(diff.rightValue),
+      ...annotationValues(diff, annotations),
+    ]);
+    colourRow(row, diff.change, 2, columns.length);
+    colourAnnotation(row, diff, 5, annotations);
+  }
+  finishTable(sheet, columns.length);
+  fitColumns(sheet, [12, 12, 14, 14, 14, 14]);
+}
+
+/** Group rows per object with a subtotal line; returns each group's first row. */
+function addGroupSheet(
+  workbook: ExcelJS.Workbook,
+  groups: Map<string, Diff[]>,
+  annotations?: AnnotationMap,
+) {
+  const sheet = workbook.addWorksheet(groupSheetName, {
+    properties: {
+      outlineProperties: { summaryBelow: true, summaryRight: false },
+    },
+  });
+  const columns = [
+    "Object",
+    ...rowColumns,
+    ...(annotations ? annotationColumns : []),
+  ];
+  styleHeader(sheet.addRow(columns));
+  const anchors = new Map<string, number>();
+
+  for (const [object, rows] of groups) {
+    const title = sheet.addRow([object]);
+    title.font = { bold: true };
+    fillRow(title, groupFill, columns.length);
+    anchors.set(object, title.number);
+
+    for (const diff of rows) {
+      const row = sheet.addRow([
+        object,
+        diff.path,
+        changeKindLabels[diff.change],
+        formatValue(diff.leftValue),
+        formatValue(diff.rightValue),
+        ...annotationValues(diff, annotations),
+      ]);
+      row.outlineLevel = 1;
+      colourRow(row, diff.change, 3, columns.length);
+      colourAnnotation(row, diff, 6, annotations);
+    }
+
+    const subtotal = sheet.addRow([
+      `Subtotal ${object}`,
+      `${rows.length} row${rows.length === 1 ? "" : "s"}: ${describeCounts(countChanges(rows))}`,
+    ]);
+    subtotal.font = { italic: true };
+  }
+
+  finishTable(sheet, columns.length);
+  fitColumns(sheet, [16, 12, 12, 14, 14, 14, 14]);
+  return anchors;
+}
+
+function sideLines(label: string, side: ReportSide) {
+  return [
+    [`${label} file`, side.fileName ?? "Pasted XML"],
+    ...side.identifiers.map((id) => [`  ${id.label}`, id.value]),
+  ];
+}
+
+function addSummarySheet(
+  workbook: ExcelJS.Workbook,
+  diffs: Diff[],
+  context: ReportContext,
+) {
+  const { left, right, stats, filters, ignoreProfile, generatedAt, comparedAt } =
+    context;
+  const sheet = workbook.addWorksheet("Summary");
+
+  const title = sheet.addRow([
+    `XML comparison: ${left.fileName ?? "left"} vs ${right.fileName ?? "right"}`,
+  ]);
+  title.font = { bold: true, size: 14 };
+  sheet.addRow(["Generated", generatedAt.toLocaleString()]);
+  if (comparedAt) sheet.addRow(["Compared", comparedAt.toLocaleString()]);
+  sheet.addRow([]);
+
+  for (const line of [...sideLines("Left", left), ...sideLines("Right", right)]) {
+    sheet.addRow(line).getCell(1).font = { bold: true };
+  }
+  sheet.addRow([]);
+
+  styleHeader(sheet.addRow(["Change", "All differences", "In this report"]));
+  const included = countChanges(diffs);
+  for (const kind of changeKinds) {
+    const row = sheet.addRow([changeKindLabels[kind], stats[kind], included[kind]]);
+    row.getCell(1).fill = fill(changeColors[kind].bg);
+  }
+  sheet.addRow([]);
+
+  sheet.addRow(["Filters"]).font = { bold: true };
+  describeFilters(filters).forEach((line) => sheet.addRow(["", line]));
+  sheet.addRow(["Ignore profile"]).font = { bold: true };
+  if (ignoreProfile) {
+    sheet.addRow([
+      "",
+      `${ignoreProfile.name}: ${ignoreProfile.rules.length} rule${ignoreProfile.rules.length === 1 ? "" : "s"}, ${ignoreProfile.ignoredCount} entr${ignoreProfile.ignoredCount === 1 ? "y" : "ies"} skipped`,
+    ]);
+  } else {
+    sheet.addRow(["", "None"]);
+  }
+  sheet.addRow([]);
+  return sheet;
+}
+
+/** The report workbook as an .xlsx file; `diffs` are the rows under the active filters. */
+export async function buildExcelReport(
+  diffs: Diff[],
+  context: ReportContext,
+): Promise<ArrayBuffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = "FemtoXML Studio";
+  workbook.created = context.generatedAt;
+
+  const groups = new Map<string, Diff[]>();
+  for (const diff of diffs) {
+    const key = topLevelObject(diff.path);
+    const rows = groups.get(key);
+    if (rows) rows.push(diff);
+    else groups.set(key, [diff]);
+  }
+
+  const summary = addSummarySheet(workbook, diffs, context);
+  // Reopening a report reads the first sheet with Path and Status columns
+  const { annotations } = context;
+  addRowsSheet(workbook, "All differences", diffs, annotations);
+  for (const kind of changeKinds) {
+    const rows = diffs.filter((d) => d.change === kind);
+    if (rows.length > 0) {
+      addRowsSheet(workbook, changeKindLabels[kind], rows, annotations);
+    }
+  }
+  const anchors = addGroupSheet(workbook, groups, annotations);
+
+  // Object index on the summary, each name linking to its group
+  const header = summary.addRow([
+    "Top-level object",
+    ...changeKinds.map((k) => changeKindLabels[k]),
+    "Total",
+  ]);
+  styleHeader(header);
+  for (const [object, rows] of groups) {
+    const counts = countChanges(rows);
+    const row = summary.addRow([
+      {
+        text: object,
+        hyperlink: `#'${groupSheetName}'!A${anchors.get(object)}`,
+      },
+      ...changeKinds.map((k) => counts[k]),
+      rows.length,
+    ]);
+    row.getCell(1).font = { color: { argb: argb("#1e7a9a") }, underline: true };
+  }
+  fitColumns(summary, [18, 16, 16]);
+  summary.getColumn(1).width = Math.min(
+    Math.max(18, ...[...groups.keys()].map((k) => k.length + 2)),
+    maxColumnWidth,
+  );
+
+  return (await workbook.xlsx.writeBuffer()) as ArrayBuffer;
+}
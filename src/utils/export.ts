@@ -1,13 +1,24 @@
 import * as XLSX from 'xlsx';
 import type { Diff } from '../workers/xmlDiffWorker';
+import { type ReportContext, toReportJson } from './report';
+import { buildHtmlReport } from './htmlReport';
+import { unifiedDiff } from './unifiedDiff';
+import { type AnnotationMap, annotationCells } from './annotations';
 
-export function exportToCSV(diffs: Diff[], fileName: string = 'xml-comparison-report') {
+/** Review annotations, when given, follow the values as Annotation and Note columns. */
+export function exportToCSV(
+  diffs: Diff[],
+  fileName: string = 'xml-comparison-report',
+  annotations?: AnnotationMap
+) {
   const headers = ['Path', 'Status', 'Left Value', 'Right Value'];
+  if (annotations) headers.push('Annotation', 'Note');
   const rows = diffs.map((diff) => [
     diff.path,
     diff.change.charAt(0).toUpperCase() + diff.change.slice(1),
     diff.leftValue ?? '—',
-    diff.rightValue ?? '—'
+    diff.rightValue ?? '—',
+    ...(annotations ? annotationCells(annotations[diff.path]) : [])
   ]);
 
   const csvContent = [
@@ -24,38 +35,200 @@ export function exportToCSV(diffs: Diff[], fileName: string = 'xml-comparison-re
   URL.revokeObjectURL(url);
 }
 
-export function exportToExcel(diffs: Diff[], fileName: string = 'xml-comparison-report') {
-  const data = diffs.map((diff) => ({
-    Path: diff.path,
-    Status: diff.change.charAt(0).toUpperCase() + diff.change.slice(1),
-    'Left Value': diff.leftValue ?? '—',
-    'Right Value': diff.rightValue ?? '—'
-  }));
+/**
+ * Multi-sheet workbook: summary with links to each object group, all rows,
+ * one sheet per change type and rows grouped by top-level object.
+ */
+export async function exportToExcel(
+  diffs: Diff[],
+  context: ReportContext,
+  fileName: string = 'xml-comparison-report'
+) {
+  // exceljs is only loaded when a report is exported
+  const { buildExcelReport } = await import('./excelReport');
+  const blob = new Blob([await buildExcelReport(diffs, context)], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.xlsx`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
-  const worksheet = XLSX.utils.json_to_sheet(data);
-  const workbook = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(workbook, worksheet, 'Comparison Results');
-  
-  // Auto-size columns
-  const maxWidth = 50;
-  const colWidths = [
-    { wch: Math.min(data.reduce((max, row) => Math.max(max, (row.Path?.length || 0)), 0) + 2, maxWidth) },
-    { wch: 12 },
-    { wch: Math.min(data.reduce((max, row) => Math.max(max, (row['Left Value']?.length || 0)), 0) + 2, maxWidth) },
-    { wch: Math.min(data.reduce((max, row) => Math.max(max, (row['Right Value']?.length || 0)), 0) + 2, maxWidth) }
+export type FleetMatrixRow = {
+  path: string;
+  baselineValue?: string;
+  /** One entry per device, in column order; undefined = same as baseline. */
+  cells: (Diff | undefined)[];
+  deviceCount: number;
+};
+
+function fleetCellValue(baselineValue: string | undefined, cell: Diff | undefined) {
+  if (!cell) return baselineValue ?? '—';
+  if (cell.change === 'removed') return '(missing)';
+  return cell.rightValue ?? '—';
+}
+
+export function exportFleetToExcel(
+  rows: FleetMatrixRow[],
+  devices: { name: string; deviations: number }[],
+  fileName: string = 'fleet-comparison-report'
+) {
+  const header = ['Path', 'Baseline', ...devices.map((d) => d.name), 'Deviating devices'];
+  const matrix = rows.map((row) => [
+    row.path,
+    row.baselineValue ?? '—',
+    ...row.cells.map((cell) => fleetCellValue(row.baselineValue, cell)),
+    row.deviceCount
+  ]);
+
+  const worksheet = XLSX.utils.aoa_to_sheet([header, ...matrix]);
+  worksheet['!cols'] = [
+    { wch: Math.min(rows.reduce((max, r) => Math.max(max, r.path.length), 4) + 2, 80) },
+    { wch: 20 },
+    ...devices.map(() => ({ wch: 20 })),
+    { wch: 18 }
   ];
-  worksheet['!cols'] = colWidths;
 
-  // Remove page numbers from Excel
-  worksheet['!printOptions'] = {};
-  if (!worksheet['!margins']) {
-    worksheet['!margins'] = {};
+  const summary = XLSX.utils.json_to_sheet(
+    devices.map((d) => ({ Device: d.name, 'Deviations from baseline': d.deviations }))
+  );
+  summary['!cols'] = [{ wch: 40 }, { wch: 24 }];
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Fleet Matrix');
+  XLSX.utils.book_append_sheet(workbook, summary, 'Devices');
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+}
+
+/** Which document the change sheet edits: "left" takes right-side values, "right" the reverse. */
+export type ChangeSheetTarget = 'left' | 'right';
+
+/** Convert a flat diff path to Bulk Editor form: text keys drop "/#text", attributes keep "/@name". */
+export function toBulkEditorPath(path: string) {
+  return path.endsWith('/#text') ? path.slice(0, -'/#text'.length) : path;
+}
+
+/** Keyed instance segments ("LTECell[PhyCellID=1]") cannot be resolved by the Bulk Editor. */
+function hasKeyedSegment(path: string) {
+  return /\[[^\]]*=/.test(path);
+}
+
+/**
+ * Write a workbook the Bulk Editor can load directly: the first sheet holds
+ * "Parameter path" / "Value" rows for value changes, the second lists the
+ * additions, removals and renumberings a value update cannot express.
+ */
+export function exportChangeSheet(
+  diffs: Diff[],
+  target: ChangeSheetTarget,
+  fileName: string = 'bulk-change-sheet'
+) {
+  const valueRows: { 'Parameter path': string; Value: string }[] = [];
+  const structuralRows: {
+    Path: string;
+    Action: string;
+    Value: string;
+    Note: string;
+  }[] = [];
+
+  for (const diff of diffs) {
+    const source = target === 'left' ? diff.rightValue : diff.leftValue;
+    const path = toBulkEditorPath(diff.path);
+
+    if (diff.change === 'changed') {
+      if (hasKeyedSegment(diff.path)) {
+        structuralRows.push({
+          Path: path,
+          Action: 'Update',
+          Value: source ?? '',
+          Note: 'Keyed instance path; locate the instance by its key values'
+        });
+      } else {
+        valueRows.push({ 'Parameter path': path, Value: source ?? '' });
+      }
+    } else if (diff.change === 'added' || diff.change === 'removed') {
+      const existsInSource = (diff.change === 'added') === (target === 'left');
+      structuralRows.push({
+        Path: path,
+        Action: existsInSource ? 'Add' : 'Remove',
+        Value: existsInSource ? source ?? '' : '',
+        Note: existsInSource
+          ? `Missing from the ${target} document`
+          : `Only present in the ${target} document`
+      });
+    } else if (diff.change === 'renumbered') {
+      const from = target === 'left' ? diff.leftValue : diff.rightValue;
+      structuralRows.push({
+        Path: path,
+        Action: 'Renumber',
+        Value: source ?? '',
+        Note: `Instance is at ${from ?? '—'} in the ${target} document`
+      });
+    }
   }
-  // Disable header/footer that might show page numbers
-  const wsProps = worksheet['!printOptions'] as any;
-  wsProps.horizontalCentered = false;
-  wsProps.verticalCentered = false;
+
+  const valueSheet = XLSX.utils.json_to_sheet(valueRows, {
+    header: ['Parameter path', 'Value']
+  });
+  valueSheet['!cols'] = [{ wch: 80 }, { wch: 40 }];
+  const structuralSheet = XLSX.utils.json_to_sheet(structuralRows, {
+    header: ['Path', 'Action', 'Value', 'Note']
+  });
+  structuralSheet['!cols'] = [{ wch: 80 }, { wch: 10 }, { wch: 40 }, { wch: 50 }];
+
+  // The Bulk Editor reads the first sheet only, so value changes must come first
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, valueSheet, 'Changes');
+  XLSX.utils.book_append_sheet(workbook, structuralSheet, 'Structural changes');
 
   XLSX.writeFile(workbook, `${fileName}.xlsx`);
 }
 
+function downloadText(content: string, type: string, fileName: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Single-file HTML report that opens offline in any browser. */
+export function exportToHtml(
+  diffs: Diff[],
+  context: ReportContext,
+  fileName: string = 'xml-comparison-report'
+) {
+  downloadText(buildHtmlReport(diffs, context), 'text/html;charset=utf-8', `${fileName}.html`);
+}
+
+/** Versioned JSON of the rows plus stats, file names, timestamps and filter settings. */
+export function exportToJson(
+  diffs: Diff[],
+  context: ReportContext,
+  fileName: string = 'xml-comparison-report'
+) {
+  downloadText(
+    JSON.stringify(toReportJson(diffs, context), null, 2),
+    'application/json',
+    `${fileName}.json`
+  );
+}
+
+/** Unified diff of both documents' flattened "path = value" lines. */
+export function exportUnifiedDiff(
+  leftLines: string[],
+  rightLines: string[],
+  names: { left: string; right: string },
+  fileName: string = 'xml-comparison'
+) {
+  downloadText(
+    unifiedDiff(leftLines, rightLines, names),
+    'text/x-diff;charset=utf-8',
+    `${fileName}.diff`
+  );
+}
@@ -0,0 +1,205 @@
+/**
+ * Self-contained HTML comparison report: styles and the search script are
+ * inlined, so the file can be attached to a ticket and opened offline.
+ */
+
+import type { Diff } from "../workers/xmlDiffWorker";
+import {
+  type ChangeKind,
+  type ReportContext,
+  type ReportSide,
+  changeColors,
+  changeKindLabels,
+  describeFilters,
+  topLevelObject,
+} from "./report";
+
+const changeKinds = Object.keys(changeKindLabels) as ChangeKind[];
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatValue(value?: string) {
+  if (value === undefined) return '<span class="none">—</span>';
+  if (value === "") return '<span class="none">(empty)</span>';
+  return escapeHtml(value);
+}
+
+const styles = `
+body{margin:0;font:14px/1.45 system-ui,-apple-system,"Segoe UI",sans-serif;color:#0f172a;background:#f8fafc}
+main{max-width:1200px;margin:0 auto;padding:24px}
+h1{margin:0 0 4px;font-size:22px;color:#1e7a9a}
+h2{margin:24px 0 8px;font-size:16px}
+.muted,.none{color:#64748b}
+.card{background:#fff;border:1px solid #e2e8f0;border-radius:12px;padding:16px;margin-top:16px}
+table{width:100%;border-collapse:collapse}
+th,td{text-align:left;padding:6px 8px;border-bottom:1px solid #f1f5f9;vertical-align:top}
+th{font-size:12px;text-transform:uppercase;letter-spacing:.03em;color:#475569;background:#f8fafc}
+td.path,td.value{font-family:ui-monospace,SFMono-Regular,Menlo,monospace;font-size:12px;word-break:break-all}
+.stats{display:flex;flex-wrap:wrap;gap:8px}
+.badge{display:inline-block;border-radius:999px;padding:2px 10px;font-size:12px;font-weight:600}
+.toolbar{display:flex;flex-wrap:wrap;gap:8px;align-items:center;margin-top:16px}
+.toolbar input{flex:1;min-width:240px;padding:6px 10px;border:1px solid #cbd5e1;border-radius:8px;font:inherit}
+.toolbar button{padding:6px 12px;border:1px solid #cbd5e1;border-radius:8px;background:#fff;font:inherit;cursor:pointer}
+details.group{background:#fff;border:1px solid #e2e8f0;border-radius:12px;margin-top:12px;overflow:hidden}
+details.group>summary{cursor:pointer;padding:10px 14px;font-weight:600;display:flex;gap:8px;align-items:center;flex-wrap:wrap}
+details.group>summary .name{font-family:ui-monospace,SFMono-Regular,Menlo,monospace}
+ul{margin:0;padding-left:20px}
+${changeKinds
+  .map(
+    (kind) =>
+      `tr.${kind} td{background:${changeColors[kind].bg}}.badge.${kind}{background:${changeColors[kind].bg};color:${changeColors[kind].fg};border:1px solid ${changeColors[kind].fg}33}`,
+  )
+  .join("\n")}
+`;
+
+const script = `
+(function(){
+  var input=document.getElementById("search");
+  var count=document.getElementById("match-count");
+  var groups=Array.prototype.slice.call(document.querySelectorAll("details.group"));
+  function apply(){
+    var q=input.value.trim().toLowerCase();
+    var shown=0;
+    groups.forEach(function(group){
+      var visible=0;
+      group.querySelectorAll("tbody tr").forEach(function(row){
+        var match=!q||row.textContent.toLowerCase().indexOf(q)>=0;
+        row.style.display=match?"":"none";
+        if(match)visible++;
+      });
+      group.style.display=visible?"":"none";
+      if(q&&visible)group.open=true;
+      shown+=visible;
+    });
+    count.textContent=shown+" row"+(shown===1?"":"s");
+  }
+  input.addEventListener("input",apply);
+  document.getElementById("expand").addEventListener("click",function(){groups.forEach(function(g){g.open=true;});});
+  document.getElementById("collapse").addEventListener("click",function(){groups.forEach(function(g){g.open=false;});});
+  apply();
+})();
+`;
+
+function sideRow(label: string, side: ReportSide) {
+  const identifiers = side.identifiers.length
+    ? side.identifiers
+        .map((id) => `${escapeHtml(id.label)}: <strong>${escapeHtml(id.value)}</strong>`)
+        .join("<br>")
+    : '<span class="none">—</span>';
+  return `<tr><th>${label}</th><td>${side.fileName ? escapeHtml(side.fileName) : '<span class="none">Pasted XML</span>'}</td><td>${identifiers}</td></tr>`;
+}
+
+function countBadges(counts: Record<ChangeKind, number>) {
+  return changeKinds
+    .filter((kind) => counts[kind] > 0)
+    .map(
+      (kind) =>
+        `<span class="badge ${kind}">${counts[kind]} ${changeKindLabels[kind].toLowerCase()}</span>`,
+    )
+    .join("");
+}
+
+function renderGroups(diffs: Diff[]) {
+  const groups = new Map<string, Diff[]>();
+  for (const diff of diffs) {
+    const key = topLevelObject(diff.path);
+    const rows = groups.get(key);
+    if (rows) rows.push(diff);
+    else groups.set(key, [diff]);
+  }
+
+  return [...groups]
+    .map(([name, rows]) => {
+      const counts = Object.fromEntries(changeKinds.map((k) => [k, 0])) as Record<
+        ChangeKind,
+        number
+      >;
+      rows.forEach((d) => (counts[d.change] += 1));
+      const body = rows
+        .map(
+          (d) =>
+            `<tr class="${d.change}"><td class="path">${escapeHtml(d.path)}</td><td><span class="badge ${d.change}">${changeKindLabels[d.change]}</span>${d.comparison ? `<div class="muted">${escapeHtml(d.comparison)}</div>` : ""}</td><td class="value">${formatValue(d.leftValue)}</td><td class="value">${formatValue(d.rightValue)}</td></tr>`,
+        )
+        .join("\n");
+      return `<details class="group" open><summary><span class="name">${escapeHtml(name)}</span>${countBadges(counts)}</summary>
+<table><thead><tr><th style="width:45%">Path</th><th style="width:11%">Status</th><th>Left value</th><th>Right value</th></tr></thead>
+<tbody>
+${body}
+</tbody></table></details>`;
+    })
+    .join("\n");
+}
+
+/** The report as one HTML document; `diffs` are the rows shown under the active filters. */
+export function buildHtmlReport(diffs: Diff[], context: ReportContext): string {
+  const { left, right, stats, filters, ignoreProfile, generatedAt, comparedAt } =
+    context;
+  const title = `XML comparison: ${left.fileName ?? "left"} vs ${right.fileName ?? "right"}`;
+
+  const ignoreSection = ignoreProfile
+    ? `<p>Profile <strong>${escapeHtml(ignoreProfile.name)}</strong> skipped ${ignoreProfile.ignoredCount} entr${ignoreProfile.ignoredCount === 1 ? "y" : "ies"} before diffing.</p>
+${
+  ignoreProfile.rules.length
+    ? `<table><thead><tr><th>Kind</th><th>Target</th><th>Pattern</th></tr></thead><tbody>${ignoreProfile.rules
+        .map(
+          (r) =>
+            `<tr><td>${escapeHtml(r.kind)}</td><td>${escapeHtml(r.target)}</td><td class="path">${escapeHtml(r.pattern)}</td></tr>`,
+        )
+        .join("")}</tbody></table>`
+    : ""
+}`
+    : '<p class="muted">No ignore rules were active.</p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${styles}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(title)}</h1>
+<div class="muted">Generated by FemtoXML Studio on ${escapeHtml(generatedAt.toLocaleString())}${
+    comparedAt ? ` · compared ${escapeHtml(comparedAt.toLocaleString())}` : ""
+  }</div>
+
+<section class="card">
+<h2 style="margin-top:0">Documents</h2>
+<table><thead><tr><th style="width:8%"></th><th style="width:40%">File</th><th>Device identifiers</th></tr></thead>
+<tbody>${sideRow("Left", left)}${sideRow("Right", right)}</tbody></table>
+</section>
+
+<section class="card">
+<h2 style="margin-top:0">Summary</h2>
+<div class="stats">${countBadges(stats) || '<span class="muted">No differences</span>'}</div>
+<h2>Filters</h2>
+<ul>${describeFilters(filters)
+    .map((line) => `<li>${escapeHtml(line)}</li>`)
+    .join("")}</ul>
+<p class="muted">${diffs.length} row${diffs.length === 1 ? "" : "s"} match the filters and are listed below.</p>
+<h2>Ignore rules</h2>
+${ignoreSection}
+</section>
+
+<div class="toolbar">
+<input id="search" type="search" placeholder="Search paths and values" autocomplete="off">
+<span id="match-count" class="muted"></span>
+<button id="expand" type="button">Expand all</button>
+<button id="collapse" type="button">Collapse all</button>
+</div>
+
+${renderGroups(diffs) || '<p class="muted">No differences to show.</p>'}
+</main>
+<script>${script}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,254 @@
+/**
+ * User-defined ignore rules and named comparison profiles.
+ * Rule matching runs inside the diff worker; profile storage is used by the UI.
+ */
+
+import { type NamespaceTable, pathNamespaces } from "./namespaces";
+
+export type IgnoreRuleKind = "prefix" | "glob" | "regex";
+export type IgnoreRuleTarget = "path" | "attribute" | "value" | "namespace";
+
+export type IgnoreRule = {
+  id: string;
+  kind: IgnoreRuleKind;
+  target: IgnoreRuleTarget;
+  pattern: string;
+  enabled: boolean;
+};
+
+export type ComparisonProfile = {
+  id: string;
+  name: string;
+  rules: IgnoreRule[];
+};
+
+type ProfileStore = {
+  version: 1;
+  activeProfileId: string | null;
+  profiles: ComparisonProfile[];
+};
+
+const STORAGE_KEY = "femtoxml-studio.comparisonProfiles";
+
+const ruleKinds: readonly string[] = ["prefix", "glob", "regex"] satisfies IgnoreRuleKind[];
+const ruleTargets: readonly string[] = [
+  "path",
+  "attribute",
+  "value",
+  "namespace",
+] satisfies IgnoreRuleTarget[];
+
+export function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createIgnoreRule(patch: Partial<IgnoreRule> = {}): IgnoreRule {
+  return {
+    id: createId("rule"),
+    kind: "prefix",
+    target: "path",
+    pattern: "",
+    enabled: true,
+    ...patch,
+  };
+}
+
+/**
+ * Convert a glob to a regex source. "*" matches within one path segment
+ * (so "LTECell[*]" or "i*" cover any instance), "**" matches across segments.
+ */
+export function globToRegexSource(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*") {
+      if (glob[i + 1] === "*") {
+        out += ".*";
+        i += 1;
+      } else {
+        out += "[^./]*";
+      }
+    } else if (ch === "?") {
+      out += "[^./]";
+    } else {
+      out += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return out;
+}
+
+/** Return an error message if the rule's pattern cannot be compiled. */
+export function validateIgnoreRule(rule: IgnoreRule): string | null {
+  if (rule.kind !== "regex") return null;
+  try {
+    new RegExp(rule.pattern);
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+type CompiledRule = {
+  target: IgnoreRuleTarget;
+  test: (subject: string) => boolean;
+};
+
+function compileRule(rule: IgnoreRule): CompiledRule | null {
+  if (!rule.enabled || !rule.pattern || validateIgnoreRule(rule)) return null;
+
+  if (rule.kind === "prefix") {
+    return { target: rule.target, test: (s) => s.startsWith(rule.pattern) };
+  }
+  if (rule.kind === "regex") {
+    const re = new RegExp(rule.pattern);
+    return { target: rule.target, test: (s) => re.test(s) };
+  }
+  // Path globs also match everything below the matched element.
+  const source = globToRegexSource(rule.pattern);
+  const re =
+    rule.target === "path"
+      ? new RegExp(`^${source}(?:[./].*)?$`)
+      : new RegExp(`^${source}$`);
+  return { target: rule.target, test: (s) => re.test(s) };
+}
+
+export type IgnoreMatcher = (
+  path: string,
+  leftValue?: string,
+  rightValue?: string,
+) => boolean;
+
+/**
+ * Build a predicate telling whether a flat entry should be ignored.
+ * Attribute rules apply to "/@name" keys only; value rules match either side;
+ * namespace rules match the URI or display prefix of any name in the path.
+ */
+export function compileIgnoreRules(
+  rules: IgnoreRule[],
+  namespaces: NamespaceTable = {},
+): IgnoreMatcher | null {
+  const compiled = rules
+    .map(compileRule)
+    .filter((r): r is CompiledRule => r !== null);
+  if (compiled.length === 0) return null;
+  const prefixByUri = new Map(
+    Object.entries(namespaces).map(([prefix, uri]) => [uri, prefix]),
+  );
+
+  return (path, leftValue, rightValue) => {
+    for (const rule of compiled) {
+      if (rule.target === "path") {
+        if (rule.test(path)) return true;
+      } else if (rule.target === "attribute") {
+        const at = path.lastIndexOf("/@");
+        if (at >= 0 && rule.test(path.slice(at + 2))) return true;
+      } else if (rule.target === "namespace") {
+        for (const uri of pathNamespaces(path, namespaces)) {
+          if (rule.test(uri) || rule.test(prefixByUri.get(uri) ?? "")) return true;
+        }
+      } else if (
+        (leftValue !== undefined && rule.test(leftValue)) ||
+        (rightValue !== undefined && rule.test(rightValue))
+      ) {
+        return true;
+      }
+    }
+    return false;
+  };
+}
+
+function defaultStore(): ProfileStore {
+  return {
+    version: 1,
+    activeProfileId: "default",
+    profiles: [{ id: "default", name: "Default", rules: [] }],
+  };
+}
+
+function isProfile(value: unknown): value is ComparisonProfile {
+  const p = value as ComparisonProfile;
+  return (
+    !!p &&
+    typeof p.id === "string" &&
+    typeof p.name === "string" &&
+    Array.isArray(p.rules)
+  );
+}
+
+function normalizeProfile(profile: ComparisonProfile): ComparisonProfile {
+  return {
+    id: profile.id,
+    name: profile.name,
+    rules: profile.rules
+      // Imported files can carry anything; unknown kinds and targets are dropped
+      .filter(
+        (r) =>
+          r &&
+          typeof r.pattern === "string" &&
+          ruleKinds.includes(r.kind ?? "prefix") &&
+          ruleTargets.includes(r.target ?? "path"),
+      )
+      .map((r) => createIgnoreRule({ ...r, id: r.id || createId("rule") })),
+  };
+}
+
+export function loadProfiles(): ProfileStore {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaultStore();
+    const parsed = JSON.parse(raw) as ProfileStore;
+    const profiles = (parsed.profiles ?? []).filter(isProfile).map(normalizeProfile);
+    if (profiles.length === 0) return defaultStore();
+    return { version: 1, activeProfileId: parsed.activeProfileId, profiles };
+  } catch {
+    return defaultStore();
+  }
+}
+
+export function saveProfiles(
+  profiles: ComparisonProfile[],
+  activeProfileId: string | null,
+) {
+  const store: ProfileStore = { version: 1, activeProfileId, profiles };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch {
+    // Storage full or unavailable (private mode): profiles stay in memory only.
+  }
+}
+
+export function exportProfileJson(profile: ComparisonProfile) {
+  const json = JSON.stringify(
+    { type: "femtoxml-studio/comparison-profile", version: 1, profile },
+    null,
+    2,
+  );
+  const blob = new Blob([json], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${profile.name.replace(/[^\w.-]+/g, "_") || "profile"}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parse an exported profile (or a bare profile / list of profiles) from JSON.
+ * Imported profiles get fresh ids so they never overwrite existing ones.
+ */
+export function parseProfileJson(json: string): ComparisonProfile[] {
+  const data = JSON.parse(json);
+  const candidates: unknown[] = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.profiles)
+      ? data.profiles
+      : [data?.profile ?? data];
+  const profiles = candidates.filter(isProfile).map((p) => ({
+    ...normalizeProfile(p),
+    id: createId("profile"),
+  }));
+  if (profiles.length === 0) {
+    throw new Error("No comparison profile found in file.");
+  }
+  return profiles;
+}
@@ -0,0 +1,29 @@
+/**
+ * Parsing helpers for instance match-key rules used by the diff worker.
+ */
+
+import type { MatchKeyRule } from "../workers/xmlDiffWorker";
+
+/**
+ * Parse one rule per line: "<object path>: <key>, <key>" or "<object path> = <key> + <key>".
+ * Blank lines and lines starting with # are ignored.
+ */
+export function parseMatchKeyRules(text: string): MatchKeyRule[] {
+  const rules: MatchKeyRule[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const sep = line.search(/[:=]/);
+    if (sep <= 0) continue;
+    const objectPath = line.slice(0, sep).trim();
+    const keys = line
+      .slice(sep + 1)
+      .split(/[,+]/)
+      .map((k) => k.trim())
+      .filter(Boolean);
+    if (objectPath && keys.length > 0) {
+      rules.push({ objectPath, keys });
+    }
+  }
+  return rules;
+}
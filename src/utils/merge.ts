@@ -0,0 +1,150 @@
+/**
+ * Three-way merge of flattened XML documents (base, left/ours, right/theirs).
+ */
+
+import {
+  type EditableNode,
+  applyFlatValue,
+  flattenEditableTree,
+} from "./xmlTree";
+
+export type MergeSide = "base" | "left" | "right";
+
+export type MergeConflict = {
+  path: string;
+  baseValue?: string;
+  leftValue?: string;
+  rightValue?: string;
+};
+
+export type MergeResolution =
+  | { choice: MergeSide }
+  | { choice: "custom"; value: string };
+
+export type MergeStats = {
+  unchanged: number;
+  fromLeft: number;
+  fromRight: number;
+  both: number;
+  conflicts: number;
+};
+
+export type MergeResult = {
+  /** Auto-merged path -> value; absent keys are removed in the result. */
+  merged: Record<string, string>;
+  /** Paths taken from the right side without conflict (template updates). */
+  rightChanges: string[];
+  conflicts: MergeConflict[];
+  stats: MergeStats;
+};
+
+/**
+ * Merge parameter values. A path changed on only one side takes that side's
+ * value; identical changes on both sides are accepted; differing changes are
+ * conflicts. `undefined` means the parameter does not exist in that document.
+ */
+export function threeWayMerge(
+  base: Record<string, string>,
+  left: Record<string, string>,
+  right: Record<string, string>,
+): MergeResult {
+  const merged: Record<string, string> = {};
+  const rightChanges: string[] = [];
+  const conflicts: MergeConflict[] = [];
+  const stats: MergeStats = {
+    unchanged: 0,
+    fromLeft: 0,
+    fromRight: 0,
+    both: 0,
+    conflicts: 0,
+  };
+
+  const keys = new Set([
+    ...Object.keys(base),
+    ...Object.keys(left),
+    ...Object.keys(right),
+  ]);
+
+  keys.forEach((path) => {
+    const b = base[path];
+    const l = left[path];
+    const r = right[path];
+    let value: string | undefined;
+
+    if (l === r) {
+      value = l;
+      if (l === b) stats.unchanged += 1;
+      else stats.both += 1;
+    } else if (l === b) {
+      value = r;
+      rightChanges.push(path);
+      stats.fromRight += 1;
+    } else if (r === b) {
+      value = l;
+      stats.fromLeft += 1;
+    } else {
+      conflicts.push({ path, baseValue: b, leftValue: l, rightValue: r });
+      stats.conflicts += 1;
+      return;
+    }
+
+    if (value !== undefined) merged[path] = value;
+  });
+
+  conflicts.sort((a, b) => a.path.localeCompare(b.path));
+  rightChanges.sort((a, b) => a.localeCompare(b));
+  return { merged, rightChanges, conflicts, stats };
+}
+
+export function resolveConflictValue(
+  conflict: MergeConflict,
+  resolution: MergeResolution,
+): string | undefined {
+  switch (resolution.choice) {
+    case "base":
+      return conflict.baseValue;
+    case "left":
+      return conflict.leftValue;
+    case "right":
+      return conflict.rightValue;
+    case "custom":
+      return resolution.value;
+  }
+}
+
+/**
+ * Produce the merged tree by applying the merge result onto a copy of the left
+ * document, so its element order and untouched structure are kept. Unresolved
+ * conflicts keep the left value.
+ */
+export function buildMergedTree(
+  leftTree: EditableNode[],
+  result: MergeResult,
+  resolutions: Record<string, MergeResolution>,
+): EditableNode[] {
+  const tree = JSON.parse(JSON.stringify(leftTree)) as EditableNode[];
+  const leftFlat = flattenEditableTree(leftTree);
+  const target: Record<string, string | undefined> = { ...result.merged };
+
+  for (const conflict of result.conflicts) {
+    const resolution = resolutions[conflict.path];
+    target[conflict.path] = resolution
+      ? resolveConflictValue(conflict, resolution)
+      : conflict.leftValue;
+  }
+
+  // Set and add values first, then remove, so pruning never drops an element
+  // that still receives values.
+  for (const [path, value] of Object.entries(target)) {
+    if (value !== undefined && leftFlat[path] !== value) {
+      applyFlatValue(tree, path, value);
+    }
+  }
+  for (const path of Object.keys(leftFlat)) {
+    if (target[path] === undefined) {
+      applyFlatValue(tree, path, undefined);
+    }
+  }
+
+  return tree;
+}
@@ -0,0 +1,139 @@
+/**
+ * XML namespace handling shared by the diff worker and the editable tree.
+ * Elements compare by expanded name (namespace URI + local name); paths show
+ * one readable prefix per namespace, chosen once per comparison.
+ */
+
+export const XML_NAMESPACE_URI = "http://www.w3.org/XML/1998/namespace";
+
+/** Prefix -> URI bindings in scope; "" is the default namespace. */
+export type NamespaceScope = Record<string, string>;
+
+/** Display prefix -> namespace URI used in the paths of one comparison. */
+export type NamespaceTable = Record<string, string>;
+
+export function isNamespaceDeclaration(name: string) {
+  return name === "xmlns" || name.startsWith("xmlns:");
+}
+
+export function splitQName(qname: string): { prefix: string; local: string } {
+  const colon = qname.indexOf(":");
+  return colon < 0
+    ? { prefix: "", local: qname }
+    : { prefix: qname.slice(0, colon), local: qname.slice(colon + 1) };
+}
+
+/** Scope for an element: the parent's bindings plus its own xmlns declarations. */
+export function extendScope(
+  scope: NamespaceScope,
+  attributes: Record<string, unknown>,
+): NamespaceScope {
+  let next = scope;
+  for (const [name, value] of Object.entries(attributes)) {
+    if (!isNamespaceDeclaration(name)) continue;
+    if (next === scope) next = { ...scope };
+    next[name === "xmlns" ? "" : name.slice(6)] = String(value);
+  }
+  return next;
+}
+
+/**
+ * Namespace URI of a qualified name. Unprefixed attributes are in no namespace;
+ * an unbound prefix stands for itself so such documents still compare.
+ */
+export function resolveNamespaceUri(
+  qname: string,
+  scope: NamespaceScope,
+  isAttribute = false,
+): string {
+  const { prefix } = splitQName(qname);
+  if (!prefix) return isAttribute ? "" : scope[""] ?? "";
+  if (prefix === "xml") return XML_NAMESPACE_URI;
+  return scope[prefix] ?? prefix;
+}
+
+/** Short token for a namespace URI; identical in every worker without coordination. */
+export function namespaceToken(uri: string): string {
+  // FNV-1a, 32 bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < uri.length; i++) {
+    hash ^= uri.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Name used in paths before display prefixes are known. Names in no namespace,
+ * and names below the root in the root's own namespace, stay bare so plain
+ * documents keep their usual paths; everything else carries "{token}:".
+ */
+export function qualifiedSegmentName(
+  local: string,
+  uri: string,
+  rootUri: string,
+  isRoot: boolean,
+): string {
+  if (!uri || (!isRoot && uri === rootUri)) return local;
+  return `{${namespaceToken(uri)}}:${local}`;
+}
+
+/**
+ * Pick one display prefix per namespace URI. The documents' own prefixes are
+ * preferred (left first); a default namespace stays unprefixed only when it is
+ * the root namespace of both documents, and clashes get a numeric suffix.
+ */
+export function chooseDisplayPrefixes(
+  declared: Array<Record<string, string>>,
+  sharedRootUri: string,
+): NamespaceTable {
+  const table: NamespaceTable = {};
+  const taken = new Set<string>();
+  const uris = new Set<string>(sharedRootUri ? [sharedRootUri] : []);
+  for (const prefixes of declared) {
+    for (const uri of Object.keys(prefixes)) uris.add(uri);
+  }
+
+  for (const uri of uris) {
+    let prefix = declared.map((d) => d[uri]).find((p) => p !== undefined) ?? "ns";
+    if (prefix === "" && uri !== sharedRootUri) prefix = "ns";
+    let candidate = prefix;
+    for (let n = 2; taken.has(candidate); n++) {
+      candidate = `${prefix}${n}`;
+    }
+    taken.add(candidate);
+    table[candidate] = uri;
+  }
+  return table;
+}
+
+/** Rewrite "{token}:" markers in a path to the display prefixes of `table`. */
+export function createPathDisplay(table: NamespaceTable): (path: string) => string {
+  const byToken = new Map<string, string>();
+  for (const [prefix, uri] of Object.entries(table)) {
+    byToken.set(namespaceToken(uri), prefix);
+  }
+  if (byToken.size === 0) return (path) => path;
+  return (path) =>
+    path.indexOf("{") < 0
+      ? path
+      : path.replace(/\{([0-9a-z]+)\}:/g, (marker, token: string) => {
+          const prefix = byToken.get(token);
+          if (prefix === undefined) return marker;
+          return prefix ? `${prefix}:` : "";
+        });
+}
+
+/**
+ * Namespace URIs of the elements and attributes named in a display path. A bare
+ * root segment counts as the shared root namespace when that one is unprefixed.
+ */
+export function pathNamespaces(path: string, table: NamespaceTable): string[] {
+  const uris = new Set<string>();
+  if (table[""] !== undefined && !/^[^.[/]*:/.test(path)) uris.add(table[""]);
+  for (const match of path.matchAll(/(?:^|\.|\/@)([^.[\]/:@=,]+):/g)) {
+    const uri = table[match[1]];
+    if (uri !== undefined) uris.add(uri);
+  }
+  return [...uris];
+}
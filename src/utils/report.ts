@@ -0,0 +1,156 @@
+/**
+ * What comparison reports say about a run besides its rows: documents, stats,
+ * filters and ignore rules. Shared by the HTML, JSON and Excel exports and by
+ * opening saved reports again.
+ */
+
+import type { Diff } from "../workers/xmlDiffWorker";
+import type { IgnoreRule } from "./ignoreRules";
+import type { AnnotationMap } from "./annotations";
+import { splitFlatPath, splitPathSegments } from "./xmlTree";
+
+export type ChangeKind = Diff["change"];
+
+/** One compared document as reports describe it. */
+export type ReportSide = {
+  fileName: string | null;
+  /** Device identifiers read from the document (serial number, local id, ...). */
+  identifiers: { label: string; value: string }[];
+};
+
+/** Result filters of the Comparison tab at export time. */
+export type ReportFilters = {
+  changeTypes: ChangeKind[];
+  search: string;
+  /** Labels of the quick filters whose objects are hidden. */
+  excludedObjects: string[];
+  /** Namespace URI rows are restricted to; empty for all. */
+  namespace: string;
+};
+
+/** Everything a report states about a comparison besides the rows themselves. */
+export type ReportContext = {
+  generatedAt: Date;
+  /** When the comparison ran; null for results that were not compared here. */
+  comparedAt: Date | null;
+  left: ReportSide;
+  right: ReportSide;
+  /** Counts over all differences, before result filters. */
+  stats: Record<ChangeKind, number>;
+  filters: ReportFilters;
+  ignoreProfile: {
+    name: string;
+    rules: IgnoreRule[];
+    ignoredCount: number;
+  } | null;
+  /** Review annotations by row path; tabular exports add them as columns. */
+  annotations?: AnnotationMap;
+};
+
+export const changeKindLabels: Record<ChangeKind, string> = {
+  added: "Added",
+  removed: "Removed",
+  changed: "Changed",
+  renumbered: "Renumbered",
+  equivalent: "Equivalent",
+};
+
+/** Row background and text colours per change, matching the diff table. */
+export const changeColors: Record<ChangeKind, { bg: string; fg: string }> = {
+  added: { bg: "#ecfeff", fg: "#155e75" },
+  removed: { bg: "#fff1f2", fg: "#9f1239" },
+  changed: { bg: "#fffbeb", fg: "#92400e" },
+  renumbered: { bg: "#f5f3ff", fg: "#5b21b6" },
+  equivalent: { bg: "#ecfdf5", fg: "#065f46" },
+};
+
+/** Human-readable lines for the filters that narrowed the exported rows. */
+export function describeFilters(filters: ReportFilters): string[] {
+  const lines = [
+    `Change types: ${filters.changeTypes.map((c) => changeKindLabels[c]).join(", ") || "none"}`,
+  ];
+  if (filters.search) lines.push(`Search: "${filters.search}"`);
+  if (filters.excludedObjects.length > 0) {
+    lines.push(`Hidden objects: ${filters.excludedObjects.join(", ")}`);
+  }
+  if (filters.namespace) lines.push(`Namespace: ${filters.namespace}`);
+  return lines;
+}
+
+/** Group key of a row: the root element and its child ("Device[1].DeviceInfo[1]"). */
+export function topLevelObject(path: string) {
+  return splitPathSegments(splitFlatPath(path).elementPath).slice(0, 2).join(".");
+}
+
+export const REPORT_FORMAT = "femtoxml-studio.comparison";
+export const REPORT_VERSION = 1;
+
+/**
+ * Versioned JSON form of a comparison. Dates are ISO strings; `diffs` are the
+ * rows under the recorded filters, `stats` count all differences.
+ */
+export type ComparisonReportJson = {
+  format: typeof REPORT_FORMAT;
+  version: typeof REPORT_VERSION;
+  generatedAt: string;
+  comparedAt: string | null;
+  left: ReportSide;
+  right: ReportSide;
+  stats: Record<ChangeKind, number>;
+  filters: ReportFilters;
+  ignoreProfile: ReportContext["ignoreProfile"];
+  diffs: Diff[];
+};
+
+export function toReportJson(
+  diffs: Diff[],
+  context: ReportContext,
+): ComparisonReportJson {
+  return {
+    format: REPORT_FORMAT,
+    version: REPORT_VERSION,
+    generatedAt: context.generatedAt.toISOString(),
+    comparedAt: context.comparedAt?.toISOString() ?? null,
+    left: context.left,
+    right: context.right,
+    stats: context.stats,
+    filters: context.filters,
+    ignoreProfile: context.ignoreProfile,
+    diffs,
+  };
+}
+
+/**
+ * Read a JSON report back, rejecting files of another format or a newer
+ * version, and files with a row the Comparison tab could not show.
+ */
+export function parseReportJson(text: string): ComparisonReportJson {
+  const data = JSON.parse(text) as Partial<ComparisonReportJson>;
+  if (data?.format !== REPORT_FORMAT) {
+    throw new Error("Not a FemtoXML Studio comparison report.");
+  }
+  if (data.version !== REPORT_VERSION) {
+    throw new Error(`Unsupported report version ${String(data.version)}.`);
+  }
+  if (!Array.isArray(data.diffs)) {
+    throw new Error("The report has no rows.");
+  }
+  const optionalText = (value: unknown) =>
+    value === undefined || typeof value === "string";
+  data.diffs.forEach((row: Partial<Diff> | null, index) => {
+    if (typeof row?.path !== "string") {
+      throw new Error(`Row ${index + 1}: the path is missing or not text.`);
+    }
+    if (!(Object.keys(changeKindLabels) as unknown[]).includes(row.change)) {
+      throw new Error(`Row ${index + 1}: unknown status "${String(row.change)}".`);
+    }
+    if (
+      !optionalText(row.leftValue) ||
+      !optionalText(row.rightValue) ||
+      !optionalText(row.comparison)
+    ) {
+      throw new Error(`Row ${index + 1}: values must be text.`);
+    }
+  });
+  return data as ComparisonReportJson;
+}
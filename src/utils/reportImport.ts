@@ -0,0 +1,108 @@
+/**
+ * Opening exported comparison reports (JSON, CSV or Excel) again, so their rows
+ * can be reviewed in the Comparison tab without the original XML files.
+ */
+
+import * as XLSX from "xlsx";
+import type { Diff } from "../workers/xmlDiffWorker";
+import {
+  type ChangeKind,
+  type ReportContext,
+  type ReportFilters,
+  type ReportSide,
+  changeKindLabels,
+  parseReportJson,
+} from "./report";
+
+/** A report opened for review, normalized across the export formats. */
+export type LoadedReport = {
+  /** Name of the report file itself. */
+  name: string;
+  diffs: Diff[];
+  stats: Record<ChangeKind, number>;
+  left: ReportSide;
+  right: ReportSide;
+  comparedAt: Date | null;
+  /** Filters recorded at export time; only JSON reports carry them. */
+  filters: ReportFilters | null;
+  ignoreProfile: ReportContext["ignoreProfile"];
+};
+
+const changeKinds = Object.keys(changeKindLabels) as ChangeKind[];
+
+const unknownSide: ReportSide = { fileName: null, identifiers: [] };
+
+function countChanges(diffs: Diff[]) {
+  const stats = Object.fromEntries(changeKinds.map((k) => [k, 0])) as Record<
+    ChangeKind,
+    number
+  >;
+  diffs.forEach((d) => (stats[d.change] += 1));
+  return stats;
+}
+
+function fromJson(name: string, text: string): LoadedReport {
+  const report = parseReportJson(text);
+  return {
+    name,
+    diffs: report.diffs,
+    stats: { ...countChanges(report.diffs), ...report.stats },
+    left: report.left ?? unknownSide,
+    right: report.right ?? unknownSide,
+    comparedAt: report.comparedAt ? new Date(report.comparedAt) : null,
+    filters: report.filters ?? null,
+    ignoreProfile: report.ignoreProfile ?? null,
+  };
+}
+
+// CSV and Excel exports write missing values as an em dash
+function tableValue(cell: string): string | undefined {
+  return cell === "—" ? undefined : cell;
+}
+
+/** Rows of the first sheet with "Path" and "Status" columns (CSV files have one sheet). */
+function fromTable(name: string, data: ArrayBuffer): LoadedReport {
+  // raw keeps CSV cells as text instead of guessing numbers and dates
+  const workbook = XLSX.read(data, { type: "array", raw: true });
+  const rows = workbook.SheetNames.map((sheetName) =>
+    XLSX.utils.sheet_to_json<Record<string, string>>(
+      workbook.Sheets[sheetName],
+      { defval: "", raw: false },
+    ),
+  ).find((sheet) => sheet.length > 0 && "Path" in sheet[0] && "Status" in sheet[0]);
+  if (!rows) {
+    throw new Error('No sheet with "Path" and "Status" columns was found.');
+  }
+
+  const diffs = rows.map((row, index): Diff => {
+    const change = String(row.Status).trim().toLowerCase() as ChangeKind;
+    if (!changeKinds.includes(change)) {
+      throw new Error(`Row ${index + 2}: unknown status "${row.Status}".`);
+    }
+    return {
+      path: String(row.Path),
+      change,
+      leftValue: tableValue(String(row["Left Value"] ?? "—")),
+      rightValue: tableValue(String(row["Right Value"] ?? "—")),
+    };
+  });
+
+  return {
+    name,
+    diffs,
+    stats: countChanges(diffs),
+    left: unknownSide,
+    right: unknownSide,
+    comparedAt: null,
+    filters: null,
+    ignoreProfile: null,
+  };
+}
+
+/** Read a report exported by the Comparison tab; throws on files it cannot use. */
+export async function loadReportFile(file: File): Promise<LoadedReport> {
+  if (/\.json$/i.test(file.name)) {
+    return fromJson(file.name, await file.text());
+  }
+  return fromTable(file.name, await file.arrayBuffer());
+}
@@ -0,0 +1,492 @@
+/**
+ * Minimal-change saving: edits to an editable tree are written back as patches
+ * to the text it was parsed from, so untouched markup keeps its indentation,
+ * attribute order, quoting, line endings and self-closing form byte for byte.
+ */
+
+import { type EditableNode, serializeEditableXml } from "./xmlTree";
+
+type SourceAttribute = {
+  /** Start of the whitespace before the attribute name. */
+  leadStart: number;
+  valueStart: number;
+  valueEnd: number;
+  end: number;
+  quote: string;
+};
+
+type SourceText = { start: number; end: number; cdata: boolean };
+
+type SourceElement = {
+  name: string;
+  start: number;
+  nameEnd: number;
+  /** Where a new attribute goes: after the last attribute, or after the name. */
+  attrInsert: number;
+  /** Index just after the start tag's ">". */
+  openEnd: number;
+  selfClosing: boolean;
+  /** Start of the "</name>" end tag; equals `openEnd` for self-closing elements. */
+  closeStart: number;
+  end: number;
+  attributes: Record<string, SourceAttribute>;
+  texts: SourceText[];
+  children: SourceElement[];
+};
+
+/** An element's position in the source plus its state as parsed, to detect edits. */
+type SourceEntry = {
+  element: SourceElement;
+  name: string;
+  value: string;
+  attributes: Record<string, string>;
+  childUids: number[];
+};
+
+export type SourceMap = {
+  xml: string;
+  newline: string;
+  indentUnit: string;
+  rootUids: number[];
+  entries: Map<number, SourceEntry>;
+};
+
+type Patch = { start: number; end: number; text: string };
+
+function indexAfter(xml: string, token: string, from: number): number {
+  const at = xml.indexOf(token, from);
+  if (at < 0) throw new Error(`Unterminated markup: expected "${token}"`);
+  return at + token.length;
+}
+
+function skipDoctype(xml: string, from: number): number {
+  let depth = 0;
+  let quote = "";
+  for (let i = from; i < xml.length; i++) {
+    const c = xml[i];
+    if (quote) {
+      if (c === quote) quote = "";
+    } else if (c === '"' || c === "'") quote = c;
+    else if (c === "[") depth++;
+    else if (c === "]") depth--;
+    else if (c === ">" && depth <= 0) return i + 1;
+  }
+  throw new Error("Unterminated DOCTYPE");
+}
+
+const isSpace = (c: string | undefined) =>
+  c === " " || c === "\t" || c === "\n" || c === "\r";
+
+function scanStartTag(xml: string, start: number): SourceElement {
+  let i = start + 1;
+  while (i < xml.length && !isSpace(xml[i]) && xml[i] !== ">" && xml[i] !== "/") i++;
+  const element: SourceElement = {
+    name: xml.slice(start + 1, i),
+    start,
+    nameEnd: i,
+    attrInsert: i,
+    openEnd: -1,
+    selfClosing: false,
+    closeStart: -1,
+    end: -1,
+    attributes: {},
+    texts: [],
+    children: [],
+  };
+
+  for (;;) {
+    const leadStart = i;
+    while (isSpace(xml[i])) i++;
+    if (i >= xml.length) throw new Error(`Unterminated start tag <${element.name}>`);
+    if (xml[i] === ">") {
+      element.openEnd = i + 1;
+      return element;
+    }
+    if (xml[i] === "/" && xml[i + 1] === ">") {
+      element.selfClosing = true;
+      element.openEnd = i + 2;
+      element.closeStart = element.openEnd;
+      element.end = element.openEnd;
+      return element;
+    }
+    const nameStart = i;
+    while (i < xml.length && !isSpace(xml[i]) && xml[i] !== "=") i++;
+    const name = xml.slice(nameStart, i);
+    while (isSpace(xml[i])) i++;
+    if (xml[i] !== "=") throw new Error(`Attribute ${name} has no value`);
+    i++;
+    while (isSpace(xml[i])) i++;
+    const quote = xml[i];
+    if (quote !== '"' && quote !== "'") throw new Error(`Attribute ${name} is not quoted`);
+    const valueStart = i + 1;
+    const valueEnd = xml.indexOf(quote, valueStart);
+    if (valueEnd < 0) throw new Error(`Unterminated value of attribute ${name}`);
+    i = valueEnd + 1;
+    element.attributes[name] = { leadStart, valueStart, valueEnd, end: i, quote };
+    element.attrInsert = i;
+  }
+}
+
+/** Element positions of a document, in the order xml-js reports the elements. */
+function scanElements(xml: string): SourceElement[] {
+  const roots: SourceElement[] = [];
+  const stack: SourceElement[] = [];
+  let i = 0;
+
+  while (i < xml.length) {
+    const lt = xml.indexOf("<", i);
+    const textEnd = lt < 0 ? xml.length : lt;
+    if (textEnd > i && stack.length > 0) {
+      stack[stack.length - 1].texts.push({ start: i, end: textEnd, cdata: false });
+    }
+    if (lt < 0) break;
+
+    if (xml.startsWith("<!--", lt)) {
+      i = indexAfter(xml, "-->", lt + 4);
+    } else if (xml.startsWith("<![CDATA[", lt)) {
+      i = indexAfter(xml, "]]>", lt + 9);
+      stack[stack.length - 1]?.texts.push({ start: lt + 9, end: i - 3, cdata: true });
+    } else if (xml.startsWith("<?", lt)) {
+      i = indexAfter(xml, "?>", lt + 2);
+    } else if (xml.startsWith("<!", lt)) {
+      i = skipDoctype(xml, lt + 2);
+    } else if (xml.startsWith("</", lt)) {
+      const element = stack.pop();
+      if (!element) throw new Error("Unexpected end tag");
+      element.closeStart = lt;
+      element.end = i = indexAfter(xml, ">", lt + 2);
+    } else {
+      const element = scanStartTag(xml, lt);
+      (stack.length > 0 ? stack[stack.length - 1].children : roots).push(element);
+      if (!element.selfClosing) stack.push(element);
+      i = element.openEnd;
+    }
+  }
+
+  if (stack.length > 0) throw new Error(`Unclosed element <${stack[stack.length - 1].name}>`);
+  return roots;
+}
+
+/** Leading whitespace of the line `pos` is on, if only whitespace precedes it. */
+function indentAt(xml: string, pos: number): string | null {
+  let i = pos;
+  while (i > 0 && (xml[i - 1] === " " || xml[i - 1] === "\t")) i--;
+  return i === 0 || xml[i - 1] === "\n" ? xml.slice(i, pos) : null;
+}
+
+function detectIndentUnit(xml: string, roots: SourceElement[]): string {
+  const visit = (element: SourceElement): string | null => {
+    const own = indentAt(xml, element.start);
+    for (const child of element.children) {
+      const inner = indentAt(xml, child.start);
+      if (own !== null && inner !== null && inner.length > own.length) {
+        return inner.slice(own.length);
+      }
+      const nested = visit(child);
+      if (nested) return nested;
+    }
+    return null;
+  };
+  for (const root of roots) {
+    const unit = visit(root);
+    if (unit) return unit;
+  }
+  return "  ";
+}
+
+/**
+ * Record where every element of `tree` sits in `xml`, the text it was parsed
+ * from. Null when the text cannot be mapped onto the tree; saving then always
+ * reserializes.
+ */
+export function createSourceMap(
+  xml: string,
+  tree: EditableNode[],
+): SourceMap | null {
+  try {
+    return mapSource(xml, tree);
+  } catch {
+    return null;
+  }
+}
+
+function mapSource(xml: string, tree: EditableNode[]): SourceMap {
+  const roots = scanElements(xml);
+  const entries = new Map<number, SourceEntry>();
+
+  const link = (nodes: EditableNode[], elements: SourceElement[]) => {
+    if (nodes.length !== elements.length) {
+      throw new Error("Source positions do not match the parsed document");
+    }
+    nodes.forEach((node, index) => {
+      const element = elements[index];
+      if (node.uid === undefined || node.name !== element.name) {
+        throw new Error("Source positions do not match the parsed document");
+      }
+      entries.set(node.uid, {
+        element,
+        name: node.name,
+        value: node.value,
+        attributes: { ...node.attributes },
+        childUids: node.children.map((c) => c.uid!),
+      });
+      link(node.children, element.children);
+    });
+  };
+  link(tree, roots);
+
+  return {
+    xml,
+    newline: xml.includes("\r\n") ? "\r\n" : "\n",
+    indentUnit: detectIndentUnit(xml, roots),
+    rootUids: tree.map((n) => n.uid!),
+    entries,
+  };
+}
+
+function escapeText(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string, quote: string) {
+  const escaped = value.replace(/&/g, "&amp;").replace(/</g, "&lt;");
+  return quote === '"'
+    ? escaped.replace(/"/g, "&quot;")
+    : escaped.replace(/'/g, "&apos;");
+}
+
+/**
+ * The edited tree as a patched copy of the source text. Returns null when the
+ * edits cannot be expressed as patches (e.g. reordered elements); callers then
+ * fall back to a full `serializeEditableXml`.
+ */
+export function patchSourceXml(
+  source: SourceMap,
+  tree: EditableNode[],
+): string | null {
+  const { xml, newline, indentUnit, entries } = source;
+  const patches: Patch[] = [];
+
+  /** Removal range of an element: its whole line when it stands alone on one. */
+  const removalRange = (element: SourceElement): Patch => {
+    let start = element.start;
+    while (start > 0 && (xml[start - 1] === " " || xml[start - 1] === "\t")) start--;
+    let end = element.end;
+    while (xml[end] === " " || xml[end] === "\t") end++;
+    if (xml[end] === "\r") end++;
+    const ownLine = start === 0 || xml[start - 1] === "\n";
+    if (ownLine && (end >= xml.length || xml[end] === "\n")) {
+      return { start, end: Math.min(end + 1, xml.length), text: "" };
+    }
+    return { start: element.start, end: element.end, text: "" };
+  };
+
+  const render = (node: EditableNode, indent: string) =>
+    serializeEditableXml([node], undefined, indentUnit).replace(
+      /\n/g,
+      newline + indent,
+    );
+
+  const patchValue = (element: SourceElement, value: string) => {
+    if (element.selfClosing) {
+      if (value) {
+        patches.push({
+          start: element.attrInsert,
+          end: element.openEnd,
+          text: `>${escapeText(value)}</${element.name}>`,
+        });
+      }
+      return;
+    }
+    // The value joins all text of the element: it replaces the first text and
+    // the rest is blanked, keeping the whitespace that lays out the children
+    const [first, ...rest] = element.texts.filter(
+      (t) => t.cdata || xml.slice(t.start, t.end).trim() !== "",
+    );
+    for (const t of rest) {
+      const raw = xml.slice(t.start, t.end);
+      patches.push(
+        t.cdata
+          ? { start: t.start - 9, end: t.end + 3, text: "" }
+          : {
+              start: t.start + raw.length - raw.trimStart().length,
+              end: t.end - (raw.length - raw.trimEnd().length),
+              text: "",
+            },
+      );
+    }
+    if (!first) {
+      if (value) {
+        patches.push({ start: element.openEnd, end: element.openEnd, text: escapeText(value) });
+      }
+    } else if (first.cdata && !value.includes("]]>")) {
+      patches.push({ start: first.start, end: first.end, text: value });
+    } else {
+      // Keep the whitespace around the old text, e.g. "<a>\n  old\n</a>"
+      const raw = xml.slice(first.start, first.end);
+      const lead = first.cdata ? 0 : raw.length - raw.trimStart().length;
+      const trail = first.cdata ? 0 : raw.length - raw.trimEnd().length;
+      patches.push({
+        start: first.cdata ? first.start - 9 : first.start + lead,
+        end: first.cdata ? first.end + 3 : first.end - trail,
+        text: escapeText(value),
+      });
+    }
+  };
+
+  const patchElement = (node: EditableNode, entry: SourceEntry): boolean => {
+    const { element } = entry;
+
+    if (node.name !== entry.name) {
+      patches.push({ start: element.start + 1, end: element.nameEnd, text: node.name });
+      if (!element.selfClosing) {
+        patches.push({
+          start: element.closeStart + 2,
+          end: element.closeStart + 2 + element.name.length,
+          text: node.name,
+        });
+      }
+    }
+
+    for (const [name, attr] of Object.entries(element.attributes)) {
+      if (!(name in node.attributes)) {
+        patches.push({ start: attr.leadStart, end: attr.end, text: "" });
+      } else if (node.attributes[name] !== entry.attributes[name]) {
+        patches.push({
+          start: attr.valueStart,
+          end: attr.valueEnd,
+          text: escapeAttribute(String(node.attributes[name]), attr.quote),
+        });
+      }
+    }
+    const added = Object.keys(node.attributes)
+      .filter((name) => !(name in element.attributes))
+      .map((name) => ` ${name}="${escapeAttribute(String(node.attributes[name]), '"')}"`)
+      .join("");
+    if (added) {
+      patches.push({ start: element.attrInsert, end: element.attrInsert, text: added });
+    }
+
+    if (node.value !== entry.value) patchValue(element, node.value);
+
+    return patchChildren(node.children, entry.childUids, element);
+  };
+
+  const patchChildren = (
+    nodes: EditableNode[],
+    originalUids: number[],
+    parent: SourceElement | null,
+  ): boolean => {
+    const unclaimed = new Set(originalUids);
+    const matched = nodes.map((node) => {
+      if (node.uid === undefined || !unclaimed.has(node.uid)) return null;
+      unclaimed.delete(node.uid);
+      return entries.get(node.uid)!;
+    });
+
+    // Kept elements must stay in source order to be patched in place
+    let last = -1;
+    for (const entry of matched) {
+      if (!entry) continue;
+      if (entry.element.start < last) return false;
+      last = entry.element.start;
+    }
+
+    for (const uid of unclaimed) {
+      patches.push(removalRange(entries.get(uid)!.element));
+    }
+
+    const firstOriginal = entries.get(originalUids[0])?.element;
+    const parentIndent = parent ? indentAt(xml, parent.start) : "";
+    const childIndent =
+      (firstOriginal && indentAt(xml, firstOriginal.start)) ??
+      (parentIndent ?? "") + indentUnit;
+
+    let anchor: SourceElement | null = null;
+    let pending: EditableNode[] = [];
+    const flush = (next: SourceElement | null) => {
+      if (pending.length === 0) return;
+      const rendered = pending.map((n) => render(n, childIndent));
+      pending = [];
+      if (anchor) {
+        patches.push({
+          start: anchor.end,
+          end: anchor.end,
+          text: rendered.map((r) => newline + childIndent + r).join(""),
+        });
+      } else if (next) {
+        const lineStart = indentAt(xml, next.start) !== null;
+        const at = lineStart ? next.start - (indentAt(xml, next.start) ?? "").length : next.start;
+        patches.push({
+          start: at,
+          end: at,
+          text: rendered
+            .map((r) => (lineStart ? childIndent + r + newline : r + newline + childIndent))
+            .join(""),
+        });
+      } else if (!parent) {
+        patches.push({
+          start: xml.length,
+          end: xml.length,
+          text: rendered.map((r) => newline + r).join(""),
+        });
+      } else if (parent.selfClosing) {
+        patches.push({
+          start: parent.attrInsert,
+          end: parent.openEnd,
+          text:
+            ">" +
+            rendered.map((r) => newline + childIndent + r).join("") +
+            newline +
+            (parentIndent ?? "") +
+            `</${parent.name}>`,
+        });
+      } else {
+        const closeIndent = indentAt(xml, parent.closeStart);
+        if (closeIndent !== null) {
+          const at = parent.closeStart - closeIndent.length;
+          patches.push({
+            start: at,
+            end: at,
+            text: rendered.map((r) => childIndent + r + newline).join(""),
+          });
+        } else {
+          patches.push({
+            start: parent.closeStart,
+            end: parent.closeStart,
+            text:
+              rendered.map((r) => newline + childIndent + r).join("") +
+              newline +
+              (parentIndent ?? ""),
+          });
+        }
+      }
+    };
+
+    for (let i = 0; i < nodes.length; i++) {
+      const entry = matched[i];
+      if (!entry) {
+        pending.push(nodes[i]);
+        continue;
+      }
+      flush(entry.element);
+      anchor = entry.element;
+      if (!patchElement(nodes[i], entry)) return false;
+    }
+    flush(null);
+    return true;
+  };
+
+  if (!patchChildren(tree, source.rootUids, null)) return null;
+
+  // Overlapping patches mean the edit is not expressible in place
+  patches.sort((a, b) => a.start - b.start || a.end - b.end);
+  let out = "";
+  let cursor = 0;
+  for (const patch of patches) {
+    if (patch.start < cursor) return null;
+    out += xml.slice(cursor, patch.start) + patch.text;
+    cursor = patch.end;
+  }
+  return out + xml.slice(cursor);
+}
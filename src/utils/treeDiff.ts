@@ -0,0 +1,171 @@
+/**
+ * Align the left and right editable trees for the side-by-side tree diff view
+ * and attach comparison results to the aligned nodes.
+ */
+
+import type { Diff } from "../workers/xmlDiffWorker";
+import type { InstanceMaps } from "./cherryPick";
+import { type EditableNode, splitFlatPath, splitPathSegments } from "./xmlTree";
+
+export type TreeDiffCounts = {
+  added: number;
+  removed: number;
+  changed: number;
+};
+
+export type TreeDiffNode = {
+  /** Element path as the comparison reports it (keyed segments for matched instances). */
+  key: string;
+  depth: number;
+  left?: EditableNode;
+  right?: EditableNode;
+  children: TreeDiffNode[];
+  /** Differences on this element's own text and attributes, by "#text" / "@name". */
+  own: Record<string, Diff>;
+  renumbered?: Diff;
+  /** Added/removed/changed entries on this element and all its descendants. */
+  counts: TreeDiffCounts;
+};
+
+/** Parent path -> positional segment -> keyed segment, for one side. */
+type SegmentIndex = Map<string, Map<string, string>>;
+
+function indexInstances(instances: Record<string, string>): SegmentIndex {
+  const index: SegmentIndex = new Map();
+  for (const [keyedPath, positional] of Object.entries(instances)) {
+    const segments = splitPathSegments(keyedPath);
+    const keyedSegment = segments.pop()!;
+    const parent = segments.join(".");
+    let children = index.get(parent);
+    if (!children) {
+      children = new Map();
+      index.set(parent, children);
+    }
+    children.set(positional, keyedSegment);
+  }
+  return index;
+}
+
+/**
+ * Pair children of both sides by their comparison path, so matched instances
+ * line up even when they sit at different positions. Left order wins; right-only
+ * children follow in their own order.
+ */
+export function buildTreeDiff(
+  leftTree: EditableNode[],
+  rightTree: EditableNode[],
+  diffs: Diff[],
+  instances: InstanceMaps,
+): TreeDiffNode[] {
+  const leftIndex = indexInstances(instances.left);
+  const rightIndex = indexInstances(instances.right);
+  const byKey = new Map<string, TreeDiffNode>();
+
+  const align = (
+    leftNodes: EditableNode[],
+    rightNodes: EditableNode[],
+    leftParentId: string,
+    rightParentId: string,
+    parentKey: string,
+    depth: number,
+  ): TreeDiffNode[] => {
+    const result: TreeDiffNode[] = [];
+    const keyOf = (node: EditableNode, parentId: string, index: SegmentIndex) => {
+      const segment = parentId ? node.id.slice(parentId.length + 1) : node.id;
+      const keyed = index.get(parentKey)?.get(segment) ?? segment;
+      return parentKey ? `${parentKey}.${keyed}` : keyed;
+    };
+    const add = (key: string) => {
+      const node: TreeDiffNode = {
+        key,
+        depth,
+        children: [],
+        own: {},
+        counts: { added: 0, removed: 0, changed: 0 },
+      };
+      byKey.set(key, node);
+      result.push(node);
+      return node;
+    };
+
+    for (const left of leftNodes) {
+      add(keyOf(left, leftParentId, leftIndex)).left = left;
+    }
+    for (const right of rightNodes) {
+      const key = keyOf(right, rightParentId, rightIndex);
+      const existing = byKey.get(key);
+      if (existing && !existing.right) existing.right = right;
+      else add(key).right = right;
+    }
+
+    for (const node of result) {
+      node.children = align(
+        node.left?.children ?? [],
+        node.right?.children ?? [],
+        node.left?.id ?? "",
+        node.right?.id ?? "",
+        node.key,
+        depth + 1,
+      );
+    }
+    return result;
+  };
+
+  const roots = align(leftTree, rightTree, "", "", "", 0);
+
+  for (const diff of diffs) {
+    // Renumbered rows name the instance element itself, not one of its values
+    const elementPath =
+      diff.change === "renumbered"
+        ? diff.path
+        : splitFlatPath(diff.path).elementPath;
+    const node = byKey.get(elementPath);
+    if (!node) continue;
+    if (diff.change === "renumbered") {
+      node.renumbered = diff;
+      continue;
+    }
+    node.own[splitFlatPath(diff.path).target] = diff;
+    if (diff.change === "equivalent") continue;
+
+    const segments = splitPathSegments(elementPath);
+    for (let i = segments.length; i > 0; i--) {
+      const ancestor = byKey.get(segments.slice(0, i).join("."));
+      if (ancestor) ancestor.counts[diff.change] += 1;
+    }
+  }
+
+  return roots;
+}
+
+export function hasChanges(node: TreeDiffNode) {
+  const { added, removed, changed } = node.counts;
+  return added + removed + changed > 0 || !!node.renumbered;
+}
+
+/** Keys of branches that contain changes, i.e. the nodes to expand initially. */
+export function changedBranchKeys(
+  nodes: TreeDiffNode[],
+  out: Set<string> = new Set(),
+): Set<string> {
+  for (const node of nodes) {
+    if (node.children.length > 0 && node.children.some(hasChanges)) {
+      out.add(node.key);
+      changedBranchKeys(node.children, out);
+    }
+  }
+  return out;
+}
+
+/** Depth-first list of the rows currently shown for the given expansion state. */
+export function visibleTreeRows(
+  nodes: TreeDiffNode[],
+  expanded: Set<string>,
+  out: TreeDiffNode[] = [],
+): TreeDiffNode[] {
+  for (const node of nodes) {
+    out.push(node);
+    if (expanded.has(node.key)) visibleTreeRows(node.children, expanded, out);
+  }
+  return out;
+}
@@ -0,0 +1,103 @@
+/**
+ * Unified-diff text of two flattened documents, one "path = value" line per
+ * entry, for archiving and grepping comparison inputs.
+ */
+
+import { isNamespaceDeclaration } from "./namespaces";
+
+/** "path = value" lines in document order; namespace declarations are left out as in comparisons. */
+export function flatLines(flat: Record<string, string>): string[] {
+  return Object.entries(flat)
+    .filter(([path]) => {
+      const at = path.lastIndexOf("/@");
+      return at < 0 || !isNamespaceDeclaration(path.slice(at + 2));
+    })
+    .map(([path, value]) => `${path} = ${value.replace(/\r?\n/g, "\\n")}`);
+}
+
+/**
+ * Pairs of matching line indexes forming a longest common subsequence. Flat
+ * paths are unique within a document, so every line is unique and the LCS is
+ * the longest increasing run of right-side positions (O(n log n)).
+ */
+function matchLines(left: string[], right: string[]): [number, number][] {
+  const rightIndex = new Map<string, number>();
+  right.forEach((line, j) => rightIndex.set(line, j));
+
+  const pairs: [number, number][] = [];
+  left.forEach((line, i) => {
+    const j = rightIndex.get(line);
+    if (j !== undefined) pairs.push([i, j]);
+  });
+
+  // Patience-style LIS over the right positions
+  const tails: number[] = [];
+  const previous = new Array<number>(pairs.length);
+  for (let k = 0; k < pairs.length; k++) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (pairs[tails[mid]][1] < pairs[k][1]) lo = mid + 1;
+      else hi = mid;
+    }
+    previous[k] = lo > 0 ? tails[lo - 1] : -1;
+    tails[lo] = k;
+  }
+
+  const result: [number, number][] = [];
+  for (let k = tails.length ? tails[tails.length - 1] : -1; k >= 0; k = previous[k]) {
+    result.push(pairs[k]);
+  }
+  return result.reverse();
+}
+
+type Line = { kind: " " | "-" | "+"; text: string };
+
+export function unifiedDiff(
+  left: string[],
+  right: string[],
+  names: { left: string; right: string },
+  context = 3,
+): string {
+  const lines: Line[] = [];
+  let i = 0;
+  let j = 0;
+  for (const [mi, mj] of [...matchLines(left, right), [left.length, right.length]]) {
+    while (i < mi) lines.push({ kind: "-", text: left[i++] });
+    while (j < mj) lines.push({ kind: "+", text: right[j++] });
+    if (mi < left.length) lines.push({ kind: " ", text: left[mi] });
+    i = mi + 1;
+    j = mj + 1;
+  }
+
+  // Line numbers before each script position, for hunk headers
+  const leftBefore = [0];
+  const rightBefore = [0];
+  for (const line of lines) {
+    leftBefore.push(leftBefore[leftBefore.length - 1] + (line.kind !== "+" ? 1 : 0));
+    rightBefore.push(rightBefore[rightBefore.length - 1] + (line.kind !== "-" ? 1 : 0));
+  }
+
+  const changes: number[] = [];
+  lines.forEach((line, k) => line.kind !== " " && changes.push(k));
+
+  const out = [`--- ${names.left}`, `+++ ${names.right}`];
+  for (let c = 0; c < changes.length; ) {
+    // Changes closer than twice the context share one hunk
+    let last = c;
+    while (last + 1 < changes.length && changes[last + 1] - changes[last] <= 2 * context) {
+      last++;
+    }
+    const start = Math.max(0, changes[c] - context);
+    const end = Math.min(lines.length, changes[last] + 1 + context);
+    const leftCount = leftBefore[end] - leftBefore[start];
+    const rightCount = rightBefore[end] - rightBefore[start];
+    out.push(
+      `@@ -${leftBefore[start] + (leftCount ? 1 : 0)},${leftCount} +${rightBefore[start] + (rightCount ? 1 : 0)},${rightCount} @@`,
+      ...lines.slice(start, end).map((l) => `${l.kind}${l.text}`),
+    );
+    c = last + 1;
+  }
+  return out.join("\n") + "\n";
+}
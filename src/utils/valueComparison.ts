@@ -0,0 +1,226 @@
+/**
+ * Semantic value comparison for the diff worker: numeric tolerance, TR-069
+ * boolean equivalence, whitespace/case normalization and unordered lists.
+ */
+
+import { createId, globToRegexSource } from "./ignoreRules";
+
+export type ValueComparisonOptions = {
+  whitespace: boolean;
+  ignoreCase: boolean;
+  boolean: boolean;
+  numeric: boolean;
+  /** Absolute tolerance for numeric comparison. */
+  absTolerance: number;
+  /** Relative tolerance (fraction of the larger magnitude). */
+  relTolerance: number;
+  unorderedList: boolean;
+};
+
+/** Options applied to paths matching a glob, overriding the global options. */
+export type ValueComparisonRule = {
+  id: string;
+  pattern: string;
+  enabled: boolean;
+  options: ValueComparisonOptions;
+};
+
+export type ValueComparisonSettings = {
+  global: ValueComparisonOptions;
+  rules: ValueComparisonRule[];
+};
+
+export type ValueComparisonResult = {
+  equal: boolean;
+  /** Normalizations that decided the outcome, e.g. "boolean" or "whitespace + case". */
+  via?: string;
+};
+
+const STORAGE_KEY = "femtoxml-studio.valueComparison";
+
+export const strictComparison: ValueComparisonOptions = {
+  whitespace: false,
+  ignoreCase: false,
+  boolean: false,
+  numeric: false,
+  absTolerance: 0,
+  relTolerance: 0,
+  unorderedList: false,
+};
+
+export function createValueComparisonRule(
+  patch: Partial<ValueComparisonRule> = {},
+): ValueComparisonRule {
+  return {
+    id: createId("cmp"),
+    pattern: "",
+    enabled: true,
+    options: { ...strictComparison, numeric: true },
+    ...patch,
+  };
+}
+
+export function isStrict(options: ValueComparisonOptions): boolean {
+  return (
+    !options.whitespace &&
+    !options.ignoreCase &&
+    !options.boolean &&
+    !options.numeric &&
+    !options.unorderedList
+  );
+}
+
+function toTr069Boolean(value: string): boolean | null {
+  const v = value.trim().toLowerCase();
+  if (v === "true" || v === "1") return true;
+  if (v === "false" || v === "0") return false;
+  return null;
+}
+
+function toNumber(value: string): number | null {
+  const v = value.trim();
+  if (!v || !/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(v)) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function numericLabel(o: ValueComparisonOptions): string {
+  const parts: string[] = [];
+  if (o.absTolerance > 0) parts.push(`±${o.absTolerance}`);
+  if (o.relTolerance > 0) parts.push(`±${o.relTolerance * 100}%`);
+  return parts.length ? `numeric ${parts.join(" / ")}` : "numeric";
+}
+
+/** Compare scalars after text normalization: booleans, then numbers. */
+function compareScalars(
+  a: string,
+  b: string,
+  o: ValueComparisonOptions,
+): ValueComparisonResult | null {
+  if (o.boolean) {
+    const ba = toTr069Boolean(a);
+    const bb = toTr069Boolean(b);
+    if (ba !== null && bb !== null) return { equal: ba === bb, via: "boolean" };
+  }
+  if (o.numeric) {
+    const na = toNumber(a);
+    const nb = toNumber(b);
+    if (na !== null && nb !== null) {
+      const tolerance = Math.max(
+        o.absTolerance,
+        o.relTolerance * Math.max(Math.abs(na), Math.abs(nb)),
+      );
+      return { equal: Math.abs(na - nb) <= tolerance, via: numericLabel(o) };
+    }
+  }
+  return null;
+}
+
+export function compareValues(
+  left: string,
+  right: string,
+  o: ValueComparisonOptions,
+): ValueComparisonResult {
+  if (left === right) return { equal: true };
+
+  // Text normalizations run first; each is recorded only if it altered a value.
+  const labels: string[] = [];
+  let a = left;
+  let b = right;
+  if (o.whitespace) {
+    const na = a.trim().replace(/\s+/g, " ");
+    const nb = b.trim().replace(/\s+/g, " ");
+    if (na !== a || nb !== b) labels.push("whitespace");
+    a = na;
+    b = nb;
+  }
+  if (o.ignoreCase) {
+    const na = a.toLowerCase();
+    const nb = b.toLowerCase();
+    if (na !== a || nb !== b) labels.push("case");
+    a = na;
+    b = nb;
+  }
+
+  const join = (extra?: string) =>
+    [...labels, ...(extra ? [extra] : [])].join(" + ") || undefined;
+
+  if (a === b) return { equal: true, via: join() };
+
+  const scalar = compareScalars(a, b, o);
+  if (scalar) return { equal: scalar.equal, via: join(scalar.via) };
+
+  if (o.unorderedList && (a.includes(",") || b.includes(","))) {
+    const itemsA = a.split(",").map((s) => s.trim()).sort();
+    const itemsB = b.split(",").map((s) => s.trim()).sort();
+    const equal =
+      itemsA.length === itemsB.length &&
+      itemsA.every((item, i) => {
+        const other = itemsB[i];
+        return item === other || !!compareScalars(item, other, o)?.equal;
+      });
+    return { equal, via: join("unordered list") };
+  }
+
+  return { equal: false, via: join() };
+}
+
+export type ValueComparator = (
+  path: string,
+  left: string,
+  right: string,
+) => ValueComparisonResult;
+
+/**
+ * Build the comparator used by the worker. The first enabled rule whose glob
+ * matches the path (or an ancestor element) replaces the global options.
+ * Returns null when everything compares strictly.
+ */
+export function compileValueComparison(
+  settings: ValueComparisonSettings | undefined,
+): ValueComparator | null {
+  if (!settings) return null;
+  const rules = settings.rules
+    .filter((r) => r.enabled && r.pattern.trim())
+    .map((r) => ({
+      re: new RegExp(`^${globToRegexSource(r.pattern.trim())}(?:[./].*)?$`),
+      options: r.options,
+    }));
+  if (rules.length === 0 && isStrict(settings.global)) return null;
+
+  return (path, left, right) => {
+    const rule = rules.find((r) => r.re.test(path));
+    return compareValues(left, right, rule ? rule.options : settings.global);
+  };
+}
+
+export function defaultValueComparisonSettings(): ValueComparisonSettings {
+  return { global: { ...strictComparison }, rules: [] };
+}
+
+export function loadValueComparisonSettings(): ValueComparisonSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return defaultValueComparisonSettings();
+    const parsed = JSON.parse(raw) as Partial<ValueComparisonSettings>;
+    return {
+      global: { ...strictComparison, ...parsed.global },
+      rules: (parsed.rules ?? []).map((r) =>
+        createValueComparisonRule({
+          ...r,
+          options: { ...strictComparison, ...r.options },
+        }),
+      ),
+    };
+  } catch {
+    return defaultValueComparisonSettings();
+  }
+}
+
+export function saveValueComparisonSettings(settings: ValueComparisonSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage unavailable: settings stay in memory only.
+  }
+}
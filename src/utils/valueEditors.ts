@@ -0,0 +1,200 @@
+/**
+ * Which input the editor shows for a value: the type comes from the loaded data
+ * model, else from a type attribute on the element (xsi:type="xsd:boolean"),
+ * else from the loaded value itself.
+ */
+
+import {
+  type BaseType,
+  type DataModel,
+  type ParameterSyntax,
+  builtinDataTypes,
+  checkValue,
+  emptySyntax,
+  findParameter,
+  integerLimits,
+} from "./dataModel";
+import type { EditableNode } from "./xmlTree";
+
+export type ValueEditorKind =
+  | "text"
+  | "boolean"
+  | "enumeration"
+  | "integer"
+  | "ipv4"
+  | "ip"
+  | "mac";
+
+export type ValueEditorType = {
+  kind: ValueEditorKind;
+  syntax: ParameterSyntax;
+  source: "model" | "attribute" | "inferred";
+};
+
+const attributeTypes: Record<string, BaseType> = {
+  boolean: "boolean",
+  int: "int",
+  integer: "long",
+  short: "int",
+  byte: "int",
+  long: "long",
+  unsignedint: "unsignedInt",
+  unsignedshort: "unsignedInt",
+  unsignedbyte: "unsignedInt",
+  unsignedlong: "unsignedLong",
+  decimal: "decimal",
+  datetime: "dateTime",
+  base64: "base64",
+  base64binary: "base64",
+  hexbinary: "hexBinary",
+  string: "string",
+};
+
+function editorKind(syntax: ParameterSyntax): ValueEditorKind {
+  if (syntax.list) return "text";
+  if (syntax.type === "boolean") return "boolean";
+  if (syntax.enumerations.length > 0) return "enumeration";
+  if (integerLimits[syntax.type]) return "integer";
+  if (syntax.dataType === "IPv4Address") return "ipv4";
+  if (syntax.dataType === "MACAddress") return "mac";
+  if (syntax.dataType === "IPAddress" || syntax.dataType === "IPv6Address") {
+    return "ip";
+  }
+  return "text";
+}
+
+/** Syntax named by a type attribute such as type="xsd:unsignedInt". */
+function attributeSyntax(node: EditableNode): ParameterSyntax | null {
+  for (const [name, value] of Object.entries(node.attributes)) {
+    const local = name.slice(name.indexOf(":") + 1);
+    if (local !== "type" && local !== "dataType") continue;
+    const typeName = value.slice(value.indexOf(":") + 1);
+    if (builtinDataTypes[typeName]) {
+      return { ...builtinDataTypes[typeName], dataType: typeName };
+    }
+    const base = attributeTypes[typeName.toLowerCase()];
+    if (base) return emptySyntax(base);
+  }
+  return null;
+}
+
+/** Conservative guess from a value: leading zeros or long digit runs stay text. */
+function inferSyntax(value: string): ParameterSyntax | null {
+  if (value === "true" || value === "false") return emptySyntax("boolean");
+  if (/^-?(0|[1-9]\d{0,8})$/.test(value)) return emptySyntax("int");
+  for (const dataType of ["IPv4Address", "MACAddress"]) {
+    const syntax = { ...builtinDataTypes[dataType], dataType };
+    if (value && checkValue(syntax, value) === null) return syntax;
+  }
+  return null;
+}
+
+/**
+ * Editor type of a node's value. `loadedValue` is the value the document was
+ * loaded with, so an inferred type does not change while the value is edited.
+ */
+export function valueEditorType(
+  node: EditableNode,
+  model: DataModel | null,
+  loadedValue: string | undefined,
+): ValueEditorType {
+  const parameter = model ? findParameter(model, node.id) : null;
+  if (parameter) {
+    return {
+      kind: editorKind(parameter.syntax),
+      syntax: parameter.syntax,
+      source: "model",
+    };
+  }
+  const hinted = attributeSyntax(node);
+  if (hinted) {
+    return { kind: editorKind(hinted), syntax: hinted, source: "attribute" };
+  }
+  const inferred = inferSyntax(loadedValue ?? node.value);
+  if (inferred) {
+    return { kind: editorKind(inferred), syntax: inferred, source: "inferred" };
+  }
+  return { kind: "text", syntax: emptySyntax("string"), source: "inferred" };
+}
+
+/** Spinner bounds: the outermost declared range, else the type's limits. */
+export function integerBounds(syntax: ParameterSyntax): {
+  min?: number;
+  max?: number;
+  step?: number;
+} {
+  const [typeMin, typeMax] = integerLimits[syntax.type] ?? [];
+  const { ranges } = syntax;
+  const bounded = (key: "min" | "max") =>
+    ranges.length > 0 && ranges.every((r) => r[key] !== undefined);
+
+  return {
+    min: bounded("min")
+      ? Math.min(...ranges.map((r) => Number(r.min)))
+      : typeMin === undefined
+        ? undefined
+        : Number(typeMin),
+    max: bounded("max")
+      ? Math.max(...ranges.map((r) => Number(r.max)))
+      : typeMax === undefined
+        ? undefined
+        : Number(typeMax),
+    step:
+      ranges.length === 1 && ranges[0].step ? Number(ranges[0].step) : undefined,
+  };
+}
+
+/** Keystroke filter for masked inputs; MAC addresses get their colons inserted. */
+export function maskValue(kind: ValueEditorKind, raw: string): string {
+  if (kind === "mac") {
+    const hex = raw.replace(/[^0-9a-fA-F]/g, "").slice(0, 12);
+    return hex.match(/.{1,2}/g)?.join(":") ?? "";
+  }
+  if (kind === "ipv4") return raw.replace(/[^0-9.]/g, "").slice(0, 15);
+  if (kind === "ip") return raw.replace(/[^0-9a-fA-F:.]/g, "").slice(0, 45);
+  return raw;
+}
+
+/** Why a value does not fit its type; an empty value always gets through. */
+function valueProblem(type: ValueEditorType, value: string): string | null {
+  if (value === "") return null;
+  if (type.kind === "ip" && !isIpAddress(value)) {
+    return `"${value}" is not an IP address`;
+  }
+  return checkValue(type.syntax, value);
+}
+
+/**
+ * Why a value cannot be committed, or null if it is acceptable. Only declared
+ * types (data model or type attribute) reject; an inferred type is a guess.
+ */
+export function rejectValue(type: ValueEditorType, value: string): string | null {
+  return type.source === "inferred" ? null : valueProblem(type, value);
+}
+
+/** Warning for a value that does not look like its inferred type. */
+export function doubtValue(type: ValueEditorType, value: string): string | null {
+  if (type.source !== "inferred") return null;
+  const problem = valueProblem(type, value);
+  return problem && `${problem} (the type was guessed from the loaded value)`;
+}
+
+function isIpv4Address(value: string) {
+  return checkValue(builtinDataTypes.IPv4Address, value) === null;
+}
+
+/** IPv4, or IPv6 in full or "::" shortened form (optionally ending in IPv4). */
+function isIpAddress(value: string) {
+  if (isIpv4Address(value)) return true;
+  const halves = value.split("::");
+  if (halves.length > 2) return false;
+  const groups = halves.flatMap((half) => (half ? half.split(":") : []));
+  let count = groups.length;
+  // An embedded IPv4 address stands for the last two groups
+  if (groups[groups.length - 1]?.includes(".")) {
+    if (!isIpv4Address(groups.pop()!)) return false;
+    count += 1;
+  }
+  if (!groups.every((g) => /^[0-9a-fA-F]{1,4}$/.test(g))) return false;
+  return halves.length === 2 ? count < 8 : count === 8;
+}
@@ -0,0 +1,420 @@
+/**
+ * Named workspaces kept in IndexedDB: the documents, settings and edit history
+ * of the comparison and editor tabs. Changes are saved shortly after they are
+ * made, and the last workspace reopens on the next visit — including after the
+ * page crashed or was closed with unsaved work.
+ */
+
+import type { EditableNode } from "./xmlTree";
+import type { FileEncoding } from "./encoding";
+import type { ChangeSheetTarget } from "./export";
+import { createId } from "./ignoreRules";
+
+const DB_NAME = "femtoxml-studio";
+const DB_VERSION = 1;
+const SESSION_KEY = "femtoxml-studio.session";
+
+/** Delay between the last change and its autosave, in ms. */
+export const autosaveDelay = 1000;
+
+export type ViewMode = "comparison" | "editor";
+export type ComparisonMode = "twoWay" | "merge" | "fleet";
+export type EditorMode = "normal" | "bulk";
+
+export type WorkspaceView = {
+  view: ViewMode;
+  comparisonMode: ComparisonMode;
+  editorMode: EditorMode;
+};
+
+export type ComparisonSideState = {
+  xml: string;
+  fileName: string | null;
+  /** Identifier shown under the file name. */
+  fileValue: string | null;
+  encoding: FileEncoding | null;
+};
+
+export type ComparisonState = {
+  left: ComparisonSideState;
+  right: ComparisonSideState;
+  matchKeysText: string;
+  filter: string;
+  changeFilter: Record<string, boolean>;
+  excludedQuickFilters: string[];
+  namespaceFilter: string;
+  annotationFilter: string;
+  valueView: "both" | "valueOnly";
+  changeSheetTarget: ChangeSheetTarget;
+  resultsView: "list" | "tree";
+};
+
+export type EditorState = {
+  xml: string;
+  fileName: string | null;
+  encoding: FileEncoding | null;
+  /** Lowest uid parsed from `xml`; restored trees are renumbered from it. */
+  uidBase: number;
+  tree: EditableNode[];
+  history: EditableNode[][];
+  historyIndex: number;
+  expandedPaths: string[];
+  keepFormatting: boolean;
+  searchQuery: string;
+  searchMode: "parameter" | "path" | "value";
+};
+
+export type BulkEditorState = {
+  xml: string;
+  xmlFileName: string | null;
+  encoding: FileEncoding | null;
+  excelFileName: string | null;
+  /** The loaded workbook, base64-encoded so it survives a JSON export. */
+  excelData: string | null;
+  results: { path: string; value: string; status: "updated" | "not_found" }[];
+  editedTree: EditableNode[] | null;
+  uidBase: number;
+  keepFormatting: boolean;
+};
+
+export type WorkspaceState = {
+  view: WorkspaceView;
+  comparison?: ComparisonState;
+  editor?: EditorState;
+  bulk?: BulkEditorState;
+};
+
+export type Workspace = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export const emptyWorkspaceState: WorkspaceState = {
+  view: { view: "comparison", comparisonMode: "twoWay", editorMode: "normal" },
+};
+
+export function newWorkspace(name: string): Workspace {
+  const now = new Date().toISOString();
+  return { id: createId("workspace"), name, createdAt: now, updatedAt: now };
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      // States live apart so listing workspaces does not read their documents
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore("workspaces", { keyPath: "id" });
+        request.result.createObjectStore("states");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () =>
+        reject(new Error("The workspace database is in use by another tab."));
+    });
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+async function transact<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = run(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () =>
+      reject(tx.error ?? new Error("Workspace transaction aborted."));
+  });
+}
+
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const all = await transact<Workspace[]>(["workspaces"], "readonly", (tx) =>
+    tx.objectStore("workspaces").getAll(),
+  );
+  return (all ?? []).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function loadWorkspaceState(
+  id: string,
+): Promise<WorkspaceState | undefined> {
+  return transact<WorkspaceState>(["states"], "readonly", (tx) =>
+    tx.objectStore("states").get(id),
+  );
+}
+
+/** Store a workspace, and its state when given; returns it with the new date. */
+export async function saveWorkspace(
+  workspace: Workspace,
+  state?: WorkspaceState,
+): Promise<Workspace> {
+  const saved = { ...workspace, updatedAt: new Date().toISOString() };
+  await transact(["workspaces", "states"], "readwrite", (tx) => {
+    tx.objectStore("workspaces").put(saved);
+    if (state) tx.objectStore("states").put(state, saved.id);
+  });
+  return saved;
+}
+
+export async function deleteWorkspace(id: string): Promise<void> {
+  await transact(["workspaces", "states"], "readwrite", (tx) => {
+    tx.objectStore("workspaces").delete(id);
+    tx.objectStore("states").delete(id);
+  });
+}
+
+/** A name not used by any of the workspaces, e.g. "Workspace 3". */
+export function uniqueWorkspaceName(base: string, workspaces: Workspace[]) {
+  const names = new Set(workspaces.map((w) => w.name));
+  if (!names.has(base)) return base;
+  let n = 2;
+  while (names.has(`${base} (${n})`)) n++;
+  return `${base} (${n})`;
+}
+
+type SessionRecord = {
+  activeId: string | null;
+  /** Set while a page has the app open; still set on load after a crash. */
+  open: boolean;
+};
+
+function readSession(): SessionRecord {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<SessionRecord>) : {};
+    return { activeId: parsed.activeId ?? null, open: parsed.open === true };
+  } catch {
+    return { activeId: null, open: false };
+  }
+}
+
+function writeSession(patch: Partial<SessionRecord>) {
+  try {
+    localStorage.setItem(
+      SESSION_KEY,
+      JSON.stringify({ ...readSession(), ...patch }),
+    );
+  } catch {
+    // Storage unavailable: the first workspace opens on the next visit.
+  }
+}
+
+export function setActiveWorkspace(id: string) {
+  writeSession({ activeId: id });
+}
+
+export function markSessionOpen() {
+  writeSession({ open: true });
+}
+
+export function markSessionClosed() {
+  writeSession({ open: false });
+}
+
+export type StartupWorkspace = {
+  workspaces: Workspace[];
+  workspace: Workspace;
+  state: WorkspaceState;
+  /** The previous session ended without closing the page cleanly. */
+  recovered: boolean;
+};
+
+let startup: Promise<StartupWorkspace> | null = null;
+
+/**
+ * The workspace to open on page load: the last active one, else the first,
+ * else a new one. Runs once per page load.
+ */
+export function openStartupWorkspace(): Promise<StartupWorkspace> {
+  if (!startup) {
+    const session = readSession();
+    markSessionOpen();
+    startup = (async () => {
+      let workspaces = await listWorkspaces();
+      let workspace =
+        workspaces.find((w) => w.id === session.activeId) ?? workspaces[0];
+      if (!workspace) {
+        workspace = await saveWorkspace(
+          newWorkspace("Workspace 1"),
+          emptyWorkspaceState,
+        );
+        workspaces = [workspace];
+      }
+      setActiveWorkspace(workspace.id);
+      const state =
+        (await loadWorkspaceState(workspace.id)) ?? emptyWorkspaceState;
+      return { workspaces, workspace, state, recovered: session.open };
+    })();
+  }
+  return startup;
+}
+
+export type SaveStatus =
+  | { state: "idle" }
+  | { state: "pending" }
+  | { state: "saving" }
+  | { state: "saved"; workspace: Workspace }
+  | { state: "failed"; error: string };
+
+export type Autosave = {
+  /** Save the state after `autosaveDelay`, replacing a pending save. */
+  schedule: (workspace: Workspace, state: WorkspaceState) => void;
+  /** Save a pending state now. */
+  flush: () => Promise<void>;
+  /** Nothing waits to be written. */
+  isIdle: () => boolean;
+  dispose: () => void;
+};
+
+export function createAutosave(
+  onStatus: (status: SaveStatus) => void,
+): Autosave {
+  let pending: { workspace: Workspace; state: WorkspaceState } | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Writes run one after another so an older state never lands last
+  let writing: Promise<void> = Promise.resolve();
+  let busy = 0;
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const next = pending;
+    pending = null;
+    if (!next) return writing;
+    busy += 1;
+    onStatus({ state: "saving" });
+    writing = writing.then(async () => {
+      try {
+        const saved = await saveWorkspace(next.workspace, next.state);
+        if (!pending) onStatus({ state: "saved", workspace: saved });
+      } catch (err) {
+        onStatus({ state: "failed", error: (err as Error).message });
+      } finally {
+        busy -= 1;
+      }
+    });
+    return writing;
+  };
+
+  return {
+    schedule: (workspace, state) => {
+      pending = { workspace, state };
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, autosaveDelay);
+      onStatus({ state: "pending" });
+    },
+    flush,
+    isIdle: () => !pending && busy === 0,
+    dispose: () => {
+      void flush();
+    },
+  };
+}
+
+/** Lowest node uid in a tree, or 0 for a tree without uids. */
+export function lowestUid(nodes: EditableNode[]): number {
+  let lowest = Infinity;
+  const visit = (list: EditableNode[]) => {
+    for (const node of list) {
+      if (node.uid !== undefined && node.uid < lowest) lowest = node.uid;
+      visit(node.children);
+    }
+  };
+  visit(nodes);
+  return Number.isFinite(lowest) ? lowest : 0;
+}
+
+/**
+ * A saved tree renumbered to match a fresh parse of its document. Parsing
+ * numbers nodes in document order from a page-wide counter, so the uids of
+ * the same document differ only by an offset.
+ */
+export function rebaseUids(
+  nodes: EditableNode[],
+  offset: number,
+): EditableNode[] {
+  if (offset === 0) return nodes;
+  return nodes.map((node) => ({
+    ...node,
+    uid: node.uid !== undefined ? node.uid + offset : undefined,
+    content: node.content?.map((item) =>
+      "child" in item ? { child: item.child + offset } : item,
+    ),
+    children: rebaseUids(node.children, offset),
+  }));
+}
+
+export function bytesToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function exportWorkspaceJson(workspace: Workspace, state: WorkspaceState) {
+  const json = JSON.stringify({
+    type: "femtoxml-studio/workspace",
+    version: 1,
+    workspace,
+    state,
+  });
+  const blob = new Blob([json], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${workspace.name.replace(/[^\w.-]+/g, "_") || "workspace"}.workspace.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parse an exported workspace. It gets a fresh id so importing never
+ * overwrites a stored workspace.
+ */
+export function parseWorkspaceJson(json: string): {
+  workspace: Workspace;
+  state: WorkspaceState;
+} {
+  const data = JSON.parse(json);
+  if (data?.type !== "femtoxml-studio/workspace" || !data.state?.view) {
+    throw new Error("Not a FemtoXML Studio workspace file.");
+  }
+  if (data.version !== 1) {
+    throw new Error(`Unsupported workspace file version ${data.version}.`);
+  }
+  const name =
+    typeof data.workspace?.name === "string" && data.workspace.name.trim()
+      ? data.workspace.name.trim()
+      : "Imported workspace";
+  return {
+    workspace: {
+      ...newWorkspace(name),
+      createdAt: data.workspace?.createdAt ?? new Date().toISOString(),
+    },
+    state: data.state as WorkspaceState,
+  };
+}
@@ -2,6 +2,20 @@
  * Shared XML editable tree types and helpers for editor and bulk editor.
  */
 
+import { xml2js, js2xml } from "xml-js";
+import {
+  type NamespaceScope,
+  type NamespaceTable,
+  createPathDisplay,
+  extendScope,
+  qualifiedSegmentName,
+  resolveNamespaceUri,
+  splitQName,
+} from "./namespaces";
+
+/** One item of an element's original content: a child element (by uid) or a verbatim xml-js node. */
+export type EditableContentItem = { child: number } | { node: any };
+
 export type EditableNode = {
   id: string;
   path: string;
@@ -10,12 +24,77 @@ export type EditableNode = {
   attributes: Record<string, string>;
   isText: boolean;
   children: EditableNode[];
+  /** Stable identity that survives id regeneration; links children to `content`. */
+  uid?: number;
+  /**
+   * Original content order, kept only for elements with comments, CDATA,
+   * processing instructions or mixed text, so they are written back in place.
+   */
+  content?: EditableContentItem[];
+  /** Text value as parsed, to tell whether `value` was edited. */
+  sourceValue?: string;
+};
+
+/** Document-level parts the tree does not model: the declaration and top-level non-element nodes. */
+export type XmlDocumentShell = {
+  declaration?: any;
+  content: EditableContentItem[];
+};
+
+let nextUid = 1;
+
+/** Elements whose content is more than "text, then child elements" need their order recorded. */
+function needsContentOrder(items: any[]): boolean {
+  let hasText = false;
+  let hasElement = false;
+  for (const n of items) {
+    if (n.type === "element") hasElement = true;
+    else if (n.type === "text") hasText = true;
+    else return true;
+  }
+  return hasText && hasElement;
+}
+
+function contentItems(items: any[], children: EditableNode[]): EditableContentItem[] {
+  let childIndex = 0;
+  return items.map((n) =>
+    n.type === "element" ? { child: children[childIndex++].uid! } : { node: n },
+  );
+}
+
+/** Namespace context while building a tree with comparison-style ids. */
+type TreeNaming = {
+  display: (path: string) => string;
+  scope: NamespaceScope;
+  /** Namespace of the document root; null while the root itself is being built. */
+  rootUri: string | null;
 };
 
+/**
+ * Build the editable tree. Ids use the raw element names unless `namespaces`
+ * (the table from a comparison) is given: then ids follow the comparison's
+ * namespace-aware paths, so diff rows can be located in the tree. Element and
+ * attribute names, including xmlns declarations, are kept as written either way.
+ */
 export function buildEditableTree(
   elements: any[] | undefined,
   path: string = "",
   parentPath: string = "",
+  namespaces?: NamespaceTable,
+): EditableNode[] {
+  const naming: TreeNaming | undefined = namespaces && {
+    display: createPathDisplay(namespaces),
+    scope: {},
+    rootUri: null,
+  };
+  return buildNodes(elements, path, parentPath, naming);
+}
+
+function buildNodes(
+  elements: any[] | undefined,
+  path: string,
+  parentPath: string,
+  naming: TreeNaming | undefined,
 ): EditableNode[] {
   if (!elements) return [];
 
@@ -26,11 +105,24 @@ export function buildEditableTree(
     if (el.type !== "element") return;
 
     const name = el.name || "unnamed";
-    const count = (siblingCounts[name] || 0) + 1;
-    siblingCounts[name] = count;
+    let segmentName = name;
+    let childNaming = naming;
+    if (naming) {
+      const scope = extendScope(naming.scope, el.attributes ?? {});
+      const uri = resolveNamespaceUri(name, scope);
+      const isRoot = naming.rootUri === null;
+      const rootUri = isRoot ? uri : (naming.rootUri as string);
+      segmentName = naming.display(
+        qualifiedSegmentName(splitQName(name).local, uri, rootUri, isRoot),
+      );
+      childNaming = { display: naming.display, scope, rootUri };
+    }
+
+    const count = (siblingCounts[segmentName] || 0) + 1;
+    siblingCounts[segmentName] = count;
     const currentPath = path
-      ? `${path}.${name}[${count}]`
-      : `${name}[${count}]`;
+      ? `${path}.${segmentName}[${count}]`
+      : `${segmentName}[${count}]`;
     const id = currentPath;
     const fullParentPath = parentPath ? `${parentPath}.${name}` : name;
 
@@ -39,20 +131,21 @@ export function buildEditableTree(
         (n: any) => n.type === "text" || n.type === "cdata",
       ) || [];
     const textValue = textNodes
-      .map((n: any) => n.text || "")
+      .map((n: any) => (n.type === "cdata" ? n.cdata : n.text) || "")
       .join("")
       .trim();
 
     const attributes = el.attributes || {};
     const childElements =
       el.elements?.filter((n: any) => n.type === "element") || [];
-    const children = buildEditableTree(
+    const children = buildNodes(
       childElements,
       currentPath,
       fullParentPath,
+      childNaming,
     );
 
-    result.push({
+    const node: EditableNode = {
       id,
       path: currentPath,
       name,
@@ -60,7 +153,13 @@ export function buildEditableTree(
       attributes,
       isText: true,
       children,
-    });
+      uid: nextUid++,
+    };
+    if (el.elements && needsContentOrder(el.elements)) {
+      node.content = contentItems(el.elements, children);
+      node.sourceValue = textValue;
+    }
+    result.push(node);
   });
 
   return result;
@@ -77,6 +176,11 @@ export function buildXmlFromEditable(nodes: EditableNode[]): any[] {
       element.attributes = node.attributes;
     }
 
+    if (node.content) {
+      element.elements = interleaveContent(node.content, node.children, node);
+      return element;
+    }
+
     element.elements = [];
     if (node.value) {
       element.elements.push({ type: "text", text: node.value });
@@ -90,6 +194,134 @@ export function buildXmlFromEditable(nodes: EditableNode[]): any[] {
   });
 }
 
+/**
+ * Write children back between the preserved non-element nodes in their original
+ * order. Unedited text is kept as is (CDATA stays CDATA). The value joins all
+ * text of the element, so an edited value goes into the first text node and the
+ * other non-blank text and CDATA are dropped; the save reloads as the value typed.
+ * Children without a slot (added or duplicated) go last.
+ */
+function interleaveContent(
+  content: EditableContentItem[],
+  children: EditableNode[],
+  owner?: EditableNode,
+): any[] {
+  const textChanged = !!owner && owner.value !== owner.sourceValue;
+  const slots = new Map<number, EditableNode[]>();
+  for (const child of children) {
+    if (child.uid === undefined) continue;
+    const queue = slots.get(child.uid);
+    if (queue) queue.push(child);
+    else slots.set(child.uid, [child]);
+  }
+  const placed = new Set<EditableNode>();
+  const out: any[] = [];
+  let textWritten = false;
+
+  for (const item of content) {
+    if ("child" in item) {
+      const child = slots.get(item.child)?.shift();
+      if (child) {
+        placed.add(child);
+        out.push(...buildXmlFromEditable([child]));
+      }
+    } else if (
+      textChanged &&
+      (item.node.type === "text" || item.node.type === "cdata")
+    ) {
+      if (!textWritten && owner!.value) {
+        out.push(
+          item.node.type === "cdata"
+            ? { type: "cdata", cdata: owner!.value }
+            : { type: "text", text: owner!.value },
+        );
+        textWritten = true;
+      } else if (item.node.type === "text" && !String(item.node.text ?? "").trim()) {
+        out.push(item.node);
+      }
+    } else {
+      out.push(item.node);
+    }
+  }
+
+  if (textChanged && !textWritten && owner!.value) {
+    out.unshift({ type: "text", text: owner!.value });
+  }
+  out.push(...buildXmlFromEditable(children.filter((c) => !placed.has(c))));
+  return out;
+}
+
+/**
+ * Parse XML for editing. The shell keeps what the tree does not model (the
+ * declaration, top-level comments, processing instructions and doctype) so
+ * `serializeEditableXml` can write the document back without losing them.
+ */
+export function parseEditableXml(
+  xml: string,
+  namespaces?: NamespaceTable,
+): { tree: EditableNode[]; shell: XmlDocumentShell } {
+  const parsed = xml2js(xml, { compact: false }) as any;
+  const items: any[] = parsed.elements ?? [];
+  const tree = buildEditableTree(items, "", "", namespaces);
+  return {
+    tree,
+    shell: {
+      declaration: parsed.declaration,
+      content: contentItems(items, tree),
+    },
+  };
+}
+
+/** NUL cannot occur in XML text, so this marker never collides with real content. */
+const RAW_MARKER = "\u0000raw:";
+
+/**
+ * Indenting would add whitespace inside elements that mix text with other
+ * nodes, changing their text. Such elements are rendered unindented up front
+ * and spliced back in through a marker text node.
+ */
+function protectMixedContent(elements: any[], raw: string[]): any[] {
+  return elements.map((el) => {
+    if (el.type !== "element" || !el.elements) return el;
+    const hasText = el.elements.some(
+      (n: any) => n.type === "text" || n.type === "cdata",
+    );
+    const hasOther = el.elements.some(
+      (n: any) => n.type !== "text" && n.type !== "cdata",
+    );
+    if (hasText && hasOther) {
+      raw.push(js2xml({ elements: el.elements }, { compact: false }));
+      return {
+        ...el,
+        elements: [{ type: "text", text: `${RAW_MARKER}${raw.length - 1}` }],
+      };
+    }
+    return { ...el, elements: protectMixedContent(el.elements, raw) };
+  });
+}
+
+export function serializeEditableXml(
+  tree: EditableNode[],
+  shell?: XmlDocumentShell,
+  indent: number | string = 2,
+): string {
+  const raw: string[] = [];
+  const elements = shell
+    ? interleaveContent(shell.content, tree)
+    : buildXmlFromEditable(tree);
+  const doc: any = { elements: protectMixedContent(elements, raw) };
+  if (shell?.declaration) doc.declaration = shell.declaration;
+  return js2xml(doc, {
+    compact: false,
+    spaces: indent,
+    indentInstruction: true,
+    textFn: (text: string) =>
+      text.startsWith(RAW_MARKER)
+        ? raw[Number(text.slice(RAW_MARKER.length))]
+        : text,
+  });
+}
+
 /** Parse a parameter path segment: "name" or "name[1]" -> { name, index?: number } */
 function parsePathSegment(segment: string): { name: string; index?: number } {
   const match = segment.trim().match(/^(.+?)(?:\[(\d+)\])?$/);
@@ -145,6 +377,8 @@ export function findNodeByParameterPath(
 
 /**
  * Apply a value to the node at the given path. Mutates the tree.
+ * A trailing "/@name" sets that attribute instead of the text; a trailing
+ * "/#text" (as in comparison paths) is accepted and ignored.
  * Returns true if the path was found and updated.
  */
 export function setNodeValueByPath(
@@ -152,8 +386,194 @@ export function setNodeValueByPath(
   pathStr: string,
   value: string,
 ): boolean {
-  const node = findNodeByParameterPath(nodes, pathStr);
+  const trimmed = pathStr.trim().replace(/[./]#text$/, "");
+  const attrMatch = trimmed.match(/^(.*?)[./]@([^./]+)$/);
+  const node = findNodeByParameterPath(nodes, attrMatch ? attrMatch[1] : trimmed);
   if (!node) return false;
-  node.value = value;
+  if (attrMatch) {
+    node.attributes = { ...node.attributes, [attrMatch[2]]: value };
+  } else {
+    node.value = value;
+  }
   return true;
 }
+
+/**
+ * Flatten an editable tree into path -> value entries using the same keys as the
+ * comparison worker: "a[1].b[2]/#text" for text and "a[1].b[2]/@attr" for attributes.
+ */
+export function flattenEditableTree(
+  nodes: EditableNode[],
+  out: Record<string, string> = {},
+): Record<string, string> {
+  for (const node of nodes) {
+    for (const [attrName, attrValue] of Object.entries(node.attributes)) {
+      out[`${node.id}/@${attrName}`] = String(attrValue);
+    }
+    if (node.value) {
+      out[`${node.id}/#text`] = node.value;
+    }
+    flattenEditableTree(node.children, out);
+  }
+  return out;
+}
+
+/** One row of the editor tree: a node whose ancestors are all expanded. */
+export type EditorTreeRow = {
+  node: EditableNode;
+  depth: number;
+  /** Row index of the parent, or -1 for a root. */
+  parent: number;
+};
+
+/**
+ * Depth-first list of the rows shown for the given expansion state. Collapsed
+ * branches are not walked, and empty leaves (no value, no children) are left out.
+ */
+export function visibleEditorRows(
+  nodes: EditableNode[],
+  expanded: Set<string>,
+  depth = 0,
+  parent = -1,
+  out: EditorTreeRow[] = [],
+): EditorTreeRow[] {
+  for (const node of nodes) {
+    if (node.value.trim() === "" && node.children.length === 0) continue;
+    const index = out.length;
+    out.push({ node, depth, parent });
+    if (node.children.length > 0 && expanded.has(node.id)) {
+      visibleEditorRows(node.children, expanded, depth + 1, index, out);
+    }
+  }
+  return out;
+}
+
+/** Split a flat key into its element id and the "#text" or "@attr" target. */
+export function splitFlatPath(flatPath: string): {
+  elementPath: string;
+  target: string;
+} {
+  const slash = flatPath.lastIndexOf("/");
+  if (slash < 0) return { elementPath: flatPath, target: "#text" };
+  return {
+    elementPath: flatPath.slice(0, slash),
+    target: flatPath.slice(slash + 1),
+  };
+}
+
+/**
+ * Split an element path on "." outside brackets, so keyed segments whose values
+ * contain dots (e.g. "i[IPAddress=10.0.0.1]") stay whole.
+ */
+export function splitPathSegments(elementPath: string): string[] {
+  const segments: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < elementPath.length; i++) {
+    const ch = elementPath[i];
+    if (ch === "[") depth += 1;
+    else if (ch === "]") depth = Math.max(0, depth - 1);
+    else if (ch === "." && depth === 0) {
+      segments.push(elementPath.slice(start, i));
+      start = i + 1;
+    }
+  }
+  segments.push(elementPath.slice(start));
+  return segments.filter(Boolean);
+}
+
+/**
+ * Find the node with the given id, creating missing elements along the way when
+ * `create` is set. Lookups use the ids assigned at build time, so earlier
+ * insertions or removals do not shift the meaning of later paths.
+ */
+function resolveNodeById(
+  nodes: EditableNode[],
+  elementPath: string,
+  create: boolean,
+): EditableNode | null {
+  const segments = elementPath.split(".").filter(Boolean);
+  let siblings = nodes;
+  let node: EditableNode | null = null;
+
+  for (const segment of segments) {
+    const id = node ? `${node.id}.${segment}` : segment;
+    let next = siblings.find((n) => n.id === id);
+    if (!next) {
+      if (!create) return null;
+      next = {
+        id,
+        path: id,
+        name: parsePathSegment(segment).name,
+        value: "",
+        attributes: {},
+        isText: true,
+        children: [],
+      };
+      siblings.push(next);
+    }
+    node = next;
+    siblings = next.children;
+  }
+
+  return node;
+}
+
+/**
+ * Set (or, with `undefined`, remove) the value behind a flat key. Mutates the tree.
+ * Missing elements are created; an element left without value, attributes and
+ * children after a removal is dropped as well. Returns false if nothing matched.
+ */
+export function applyFlatValue(
+  nodes: EditableNode[],
+  flatPath: string,
+  value: string | undefined,
+): boolean {
+  const { elementPath, target } = splitFlatPath(flatPath);
+  const node = resolveNodeById(nodes, elementPath, value !== undefined);
+  if (!node) return false;
+
+  if (target.startsWith("@")) {
+    const attrName = target.slice(1);
+    const newAttrs = { ...node.attributes };
+    if (value === undefined) {
+      delete newAttrs[attrName];
+    } else {
+      newAttrs[attrName] = value;
+    }
+    node.attributes = newAttrs;
+  } else {
+    node.value = value ?? "";
+  }
+
+  if (value === undefined) {
+    pruneEmptyNode(nodes, elementPath);
+  }
+  return true;
+}
+
+/** Remove the element with the given id if it carries no data, then walk up. */
+function pruneEmptyNode(nodes: EditableNode[], elementPath: string) {
+  let path = elementPath;
+  while (path) {
+    const parentPath = path.includes(".")
+      ? path.slice(0, path.lastIndexOf("."))
+      : "";
+    const siblings = parentPath
+      ? resolveNodeById(nodes, parentPath, false)?.children
+      : nodes;
+    if (!siblings) return;
+    const idx = siblings.findIndex((n) => n.id === path);
+    if (idx < 0) return;
+    const node = siblings[idx];
+    if (
+      node.value ||
+      node.children.length > 0 ||
+      Object.keys(node.attributes).length > 0
+    ) {
+      return;
+    }
+    siblings.splice(idx, 1);
+    path = parentPath;
+  }
+}
@@ -0,0 +1,1393 @@
+/**
+ * XML Schema (XSD 1.0) validation: schema files are compiled into element,
+ * type and group declarations, then a document is streamed through sax and
+ * each element checked against its content model, attributes and value type.
+ * Covers what vendor configuration schemas use; identity constraints
+ * (key/keyref/unique), substitution groups and xs:redefine are not checked.
+ */
+
+import sax from "sax";
+import { xml2js } from "xml-js";
+import {
+  type NamespaceScope,
+  extendScope,
+  isNamespaceDeclaration,
+  resolveNamespaceUri,
+  splitQName,
+} from "./namespaces";
+
+const XSD_NAMESPACE_URI = "http://www.w3.org/2001/XMLSchema";
+const XSI_NAMESPACE_URI = "http://www.w3.org/2001/XMLSchema-instance";
+
+const STORAGE_KEY = "femtoxml-studio.schemaValidation";
+
+export type SchemaSource = { name: string; text: string };
+
+type SchemaPattern = { source: string; regex: RegExp };
+
+type Facets = {
+  enumerations: string[];
+  /** Alternatives of one derivation step; a value has to match one of them. */
+  patterns: SchemaPattern[];
+  minInclusive?: string;
+  maxInclusive?: string;
+  minExclusive?: string;
+  maxExclusive?: string;
+  length?: number;
+  minLength?: number;
+  maxLength?: number;
+  totalDigits?: number;
+  fractionDigits?: number;
+};
+
+/** Simple types form a chain of restrictions ending in a built-in, list or union. */
+type SimpleType = {
+  kind: "simple";
+  name: string;
+  builtin?: string;
+  base?: SimpleType;
+  facets: Facets;
+  itemType?: SimpleType;
+  memberTypes?: SimpleType[];
+};
+
+type AttributeDecl = {
+  key: string;
+  name: string;
+  type: SimpleType;
+  required: boolean;
+  prohibited: boolean;
+  fixed?: string;
+};
+
+type AttributeSet = {
+  attributes: AttributeDecl[];
+  groups: AttributeSet[];
+  anyAttribute: boolean;
+};
+
+type ComplexType = {
+  kind: "complex";
+  name: string;
+  mixed: boolean;
+  base?: TypeDefinition;
+  derivation?: "extension" | "restriction";
+  particle: Particle | null;
+  attributes: AttributeSet;
+  simpleContent: boolean;
+  /** Facets of a simple-content restriction. */
+  valueFacets?: Facets;
+};
+
+type TypeDefinition = SimpleType | ComplexType;
+
+type ElementDecl = {
+  /** Expanded name, "{uri}local" or just "local" without a namespace. */
+  key: string;
+  name: string;
+  type: TypeDefinition;
+  nillable: boolean;
+  fixed?: string;
+};
+
+type Wildcard = {
+  namespace: string;
+  targetNamespace: string;
+  process: "strict" | "lax" | "skip";
+};
+
+type Particle = { min: number; max: number } & (
+  | { kind: "element"; decl: ElementDecl }
+  | ({ kind: "any" } & Wildcard)
+  | { kind: "sequence" | "choice" | "all"; items: Particle[] }
+);
+
+export type SchemaSet = {
+  sources: SchemaSource[];
+  elements: Map<string, ElementDecl>;
+  types: Map<string, TypeDefinition>;
+  /** Undefined references and unsupported patterns; these are not checked. */
+  warnings: string[];
+};
+
+/** A place where the document breaks the schema. */
+export type SchemaViolation = {
+  /** Element path in the editor's notation ("Device[1].Services[1]"); attributes end in "/@name". */
+  path: string;
+  line: number;
+  /** The schema rule broken, e.g. "maxLength", "xs:int" or "content model". */
+  rule: string;
+  message: string;
+  /** Comparison side the document comes from; unset in the editors. */
+  side?: "left" | "right";
+};
+
+/** Validation stops collecting after this many violations. */
+export const maxSchemaViolations = 1000;
+
+export type InvalidDownloadPolicy = "warn" | "block";
+
+export type SchemaSettings = { onInvalidDownload: InvalidDownloadPolicy };
+
+export function loadSchemaSettings(): SchemaSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Partial<SchemaSettings>) : {};
+    return {
+      onInvalidDownload: parsed.onInvalidDownload === "block" ? "block" : "warn",
+    };
+  } catch {
+    return { onInvalidDownload: "warn" };
+  }
+}
+
+export function saveSchemaSettings(settings: SchemaSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage unavailable: settings stay in memory only.
+  }
+}
+
+/**
+ * Whether a document with these violations may be downloaded: "block" refuses,
+ * "warn" asks for confirmation.
+ */
+export function allowInvalidDownload(violations: SchemaViolation[]): boolean {
+  if (violations.length === 0) return true;
+  if (loadSchemaSettings().onInvalidDownload === "block") return false;
+  const count = `${violations.length}${violations.length >= maxSchemaViolations ? "+" : ""}`;
+  return window.confirm(
+    `The document breaks the loaded schemas in ${count} place${violations.length === 1 ? "" : "s"}. Download it anyway?`,
+  );
+}
+
+function expandedName(uri: string, local: string) {
+  return uri ? `{${uri}}${local}` : local;
+}
+
+function noFacets(): Facets {
+  return { enumerations: [], patterns: [] };
+}
+
+function emptyComplexType(name: string): ComplexType {
+  return {
+    kind: "complex",
+    name,
+    mixed: false,
+    particle: null,
+    attributes: { attributes: [], groups: [], anyAttribute: false },
+    simpleContent: false,
+  };
+}
+
+const builtins = new Map<string, SimpleType>();
+
+function builtinType(local: string): SimpleType {
+  let type = builtins.get(local);
+  if (!type) {
+    type = { kind: "simple", name: `xs:${local}`, builtin: local, facets: noFacets() };
+    builtins.set(local, type);
+  }
+  return type;
+}
+
+const anySimpleType = builtinType("anySimpleType");
+
+const anyType: ComplexType = {
+  kind: "complex",
+  name: "xs:anyType",
+  mixed: true,
+  particle: {
+    kind: "any",
+    min: 0,
+    max: Infinity,
+    namespace: "##any",
+    targetNamespace: "",
+    process: "lax",
+  },
+  attributes: { attributes: [], groups: [], anyAttribute: true },
+  simpleContent: false,
+};
+
+const integerRanges: Record<string, [bigint | null, bigint | null]> = {
+  integer: [null, null],
+  nonPositiveInteger: [null, 0n],
+  negativeInteger: [null, -1n],
+  long: [-(2n ** 63n), 2n ** 63n - 1n],
+  int: [-(2n ** 31n), 2n ** 31n - 1n],
+  short: [-32768n, 32767n],
+  byte: [-128n, 127n],
+  nonNegativeInteger: [0n, null],
+  unsignedLong: [0n, 2n ** 64n - 1n],
+  unsignedInt: [0n, 2n ** 32n - 1n],
+  unsignedShort: [0n, 65535n],
+  unsignedByte: [0n, 255n],
+  positiveInteger: [1n, null],
+};
+
+const timezone = "(Z|[+-]\\d{2}:\\d{2})?";
+const ncName = "[_\\p{L}][-._\\p{L}\\p{N}]*";
+
+/** Lexical forms of the built-ins; types not listed accept any string. */
+const builtinPatterns: Record<string, RegExp> = {
+  boolean: /^(true|false|1|0)$/,
+  decimal: /^[+-]?(\d+(\.\d*)?|\.\d+)$/,
+  float: /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|-?INF|NaN)$/,
+  double: /^([+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?|-?INF|NaN)$/,
+  duration:
+    /^-?P(?=\d|T\d)(\d+Y)?(\d+M)?(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/,
+  dateTime: new RegExp(
+    `^-?\\d{4,}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?${timezone}$`,
+  ),
+  date: new RegExp(`^-?\\d{4,}-\\d{2}-\\d{2}${timezone}$`),
+  time: new RegExp(`^\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?${timezone}$`),
+  gYearMonth: new RegExp(`^-?\\d{4,}-\\d{2}${timezone}$`),
+  gYear: new RegExp(`^-?\\d{4,}${timezone}$`),
+  gMonthDay: new RegExp(`^--\\d{2}-\\d{2}${timezone}$`),
+  gDay: new RegExp(`^---\\d{2}${timezone}$`),
+  gMonth: new RegExp(`^--\\d{2}${timezone}$`),
+  hexBinary: /^([0-9a-fA-F]{2})*$/,
+  base64Binary:
+    /^(([A-Za-z0-9+/] ?){4})*(([A-Za-z0-9+/] ?){2}(= ?)=|([A-Za-z0-9+/] ?){3}=)?$/,
+  language: /^[a-zA-Z]{1,8}(-[a-zA-Z0-9]{1,8})*$/,
+  Name: /^[_:\p{L}][-._:\p{L}\p{N}]*$/u,
+  NCName: new RegExp(`^${ncName}$`, "u"),
+  ID: new RegExp(`^${ncName}$`, "u"),
+  IDREF: new RegExp(`^${ncName}$`, "u"),
+  ENTITY: new RegExp(`^${ncName}$`, "u"),
+  NMTOKEN: /^[-._:\p{L}\p{N}]+$/u,
+  QName: new RegExp(`^(${ncName}:)?${ncName}$`, "u"),
+};
+
+/** Built-in list types and the type of their items. */
+const builtinLists: Record<string, string> = {
+  NMTOKENS: "NMTOKEN",
+  IDREFS: "IDREF",
+  ENTITIES: "ENTITY",
+};
+
+const knownBuiltins = new Set([
+  "anySimpleType",
+  "string",
+  "normalizedString",
+  "token",
+  "anyURI",
+  ...Object.keys(integerRanges),
+  ...Object.keys(builtinPatterns),
+  ...Object.keys(builtinLists),
+]);
+
+/** XSD regular expressions are implicitly anchored and know \i and \c. */
+function schemaPattern(source: string): SchemaPattern | null {
+  const translated = source
+    .replace(/\\i/g, "[_:A-Za-z]")
+    .replace(/\\I/g, "[^_:A-Za-z]")
+    .replace(/\\c/g, "[-._:A-Za-z0-9]")
+    .replace(/\\C/g, "[^-._:A-Za-z0-9]");
+  for (const flags of ["u", ""]) {
+    try {
+      return { source, regex: new RegExp(`^(?:${translated})$`, flags) };
+    } catch {
+      // Try again without Unicode mode, which rejects some escapes
+    }
+  }
+  return null;
+}
+
+function childElements(el: any, name?: string): any[] {
+  return ((el.elements ?? []) as any[]).filter(
+    (c) => c.type === "element" && (!name || splitQName(c.name).local === name),
+  );
+}
+
+function firstChild(el: any, ...names: string[]) {
+  return childElements(el).find((c) => names.includes(splitQName(c.name).local));
+}
+
+function optionalNumber(value: string | undefined) {
+  return value === undefined || value === "" ? undefined : Number(value);
+}
+
+function occurs(el: any) {
+  const attrs = el.attributes ?? {};
+  return {
+    min: optionalNumber(attrs.minOccurs) ?? 1,
+    max:
+      attrs.maxOccurs === "unbounded"
+        ? Infinity
+        : optionalNumber(attrs.maxOccurs) ?? 1,
+  };
+}
+
+/** Per-file compilation state: target namespace, form defaults and prefixes. */
+type SchemaContext = {
+  targetNamespace: string;
+  elementQualified: boolean;
+  attributeQualified: boolean;
+  scope: NamespaceScope;
+};
+
+function withScope(ctx: SchemaContext, el: any): SchemaContext {
+  const scope = extendScope(ctx.scope, el.attributes ?? {});
+  return scope === ctx.scope ? ctx : { ...ctx, scope };
+}
+
+function qualifiedName(ctx: SchemaContext, qname: string) {
+  const { local } = splitQName(qname);
+  return { uri: resolveNamespaceUri(qname, ctx.scope), local };
+}
+
+/**
+ * Compile schema files into one set. References between the files resolve by
+ * namespace and name, so includes and imports only need the file loaded too.
+ * Throws if a file is not an XML Schema.
+ */
+export function loadSchemas(sources: SchemaSource[]): SchemaSet {
+  const elements = new Map<string, ElementDecl>();
+  const types = new Map<string, TypeDefinition>();
+  const groups = new Map<string, Particle>();
+  const attributeGroups = new Map<string, AttributeSet>();
+  const attributes = new Map<string, AttributeDecl>();
+  const warnings = new Set<string>();
+  const fill: (() => void)[] = [];
+
+  const documents = sources.map((source) => {
+    const doc = xml2js(source.text, { compact: false }) as any;
+    const root = childElements(doc)[0];
+    if (!root || splitQName(root.name).local !== "schema") {
+      throw new Error(`${source.name} is not an XML Schema (no xs:schema root).`);
+    }
+    return { source, root };
+  });
+
+  // A schema without a target namespace takes the one of the schema including it
+  const chameleons = new Map<string, string>();
+  for (const { root } of documents) {
+    const tns = root.attributes?.targetNamespace;
+    if (!tns) continue;
+    for (const include of childElements(root, "include")) {
+      const location = String(include.attributes?.schemaLocation ?? "");
+      chameleons.set(location.split(/[\\/]/).pop()!, tns);
+    }
+  }
+
+  const missing = (what: string, key: string) =>
+    warnings.add(`${what} ${key} is not defined in the loaded schemas`);
+
+  const resolveType = (ctx: SchemaContext, qname: string) => {
+    const { uri, local } = qualifiedName(ctx, qname);
+    if (uri === XSD_NAMESPACE_URI) {
+      if (local === "anyType") return anyType;
+      if (knownBuiltins.has(local)) return builtinType(local);
+    }
+    const key = expandedName(uri, local);
+    const type = types.get(key);
+    if (!type) missing("Type", key);
+    return type;
+  };
+
+  const resolveSimpleType = (ctx: SchemaContext, qname: string): SimpleType => {
+    const type = resolveType(ctx, qname);
+    return type?.kind === "simple" ? type : anySimpleType;
+  };
+
+  const readFacets = (el: any): Facets => {
+    const facets = noFacets();
+    for (const facet of childElements(el)) {
+      const value = String(facet.attributes?.value ?? "");
+      const name = splitQName(facet.name).local;
+      switch (name) {
+        case "enumeration":
+          facets.enumerations.push(value);
+          break;
+        case "pattern": {
+          const pattern = schemaPattern(value);
+          if (pattern) facets.patterns.push(pattern);
+          else warnings.add(`Pattern ${value} is not supported and is not checked`);
+          break;
+        }
+        case "minInclusive":
+        case "maxInclusive":
+        case "minExclusive":
+        case "maxExclusive":
+          facets[name] = value;
+          break;
+        case "length":
+        case "minLength":
+        case "maxLength":
+        case "totalDigits":
+        case "fractionDigits":
+          facets[name] = optionalNumber(value);
+          break;
+      }
+    }
+    return facets;
+  };
+
+  const compileSimpleType = (
+    el: any,
+    outer: SchemaContext,
+    type: SimpleType = { kind: "simple", name: "", facets: noFacets() },
+  ): SimpleType => {
+    const ctx = withScope(outer, el);
+    const inline = (parent: any) => {
+      const child = firstChild(parent, "simpleType");
+      return child ? compileSimpleType(child, ctx) : anySimpleType;
+    };
+    const restriction = firstChild(el, "restriction");
+    const list = firstChild(el, "list");
+    const union = firstChild(el, "union");
+    if (restriction) {
+      const base = restriction.attributes?.base;
+      type.base = base ? resolveSimpleType(ctx, base) : inline(restriction);
+      type.facets = readFacets(restriction);
+    } else if (list) {
+      const itemType = list.attributes?.itemType;
+      type.itemType = itemType ? resolveSimpleType(ctx, itemType) : inline(list);
+    } else if (union) {
+      const names = String(union.attributes?.memberTypes ?? "")
+        .split(/\s+/)
+        .filter(Boolean);
+      type.memberTypes = [
+        ...names.map((n) => resolveSimpleType(ctx, n)),
+        ...childElements(union, "simpleType").map((c) => compileSimpleType(c, ctx)),
+      ];
+    } else {
+      type.base = anySimpleType;
+    }
+    return type;
+  };
+
+  const compileAttribute = (
+    el: any,
+    outer: SchemaContext,
+    global: boolean,
+  ): AttributeDecl => {
+    const ctx = withScope(outer, el);
+    const attrs = el.attributes ?? {};
+    const use = {
+      required: attrs.use === "required",
+      prohibited: attrs.use === "prohibited",
+      ...(attrs.fixed !== undefined && { fixed: String(attrs.fixed) }),
+    };
+    if (attrs.ref) {
+      const { uri, local } = qualifiedName(ctx, attrs.ref);
+      const key = expandedName(uri, local);
+      const declared = attributes.get(key);
+      if (!declared) missing("Attribute", key);
+      return {
+        key,
+        name: attrs.ref,
+        type: declared?.type ?? anySimpleType,
+        ...(declared?.fixed !== undefined && { fixed: declared.fixed }),
+        ...use,
+      };
+    }
+    const qualified =
+      global || (attrs.form ?? (ctx.attributeQualified ? "qualified" : "")) === "qualified";
+    const name = String(attrs.name ?? "");
+    const inline = firstChild(el, "simpleType");
+    return {
+      key: expandedName(qualified ? ctx.targetNamespace : "", name),
+      name,
+      type: attrs.type
+        ? resolveSimpleType(ctx, attrs.type)
+        : inline
+          ? compileSimpleType(inline, ctx)
+          : anySimpleType,
+      ...use,
+    };
+  };
+
+  const compileAttributeSet = (el: any, ctx: SchemaContext): AttributeSet => {
+    const set: AttributeSet = { attributes: [], groups: [], anyAttribute: false };
+    for (const child of childElements(el)) {
+      const name = splitQName(child.name).local;
+      if (name === "attribute") {
+        set.attributes.push(compileAttribute(child, ctx, false));
+      } else if (name === "attributeGroup" && child.attributes?.ref) {
+        const { uri, local } = qualifiedName(ctx, child.attributes.ref);
+        const key = expandedName(uri, local);
+        const group = attributeGroups.get(key);
+        if (group) set.groups.push(group);
+        else missing("Attribute group", key);
+      } else if (name === "anyAttribute") {
+        set.anyAttribute = true;
+      }
+    }
+    return set;
+  };
+
+  const compileParticle = (el: any, outer: SchemaContext): Particle | null => {
+    const ctx = withScope(outer, el);
+    const attrs = el.attributes ?? {};
+    switch (splitQName(el.name).local) {
+      case "element": {
+        if (!attrs.ref) {
+          return { kind: "element", decl: compileElement(el, ctx, false), ...occurs(el) };
+        }
+        const { uri, local } = qualifiedName(ctx, attrs.ref);
+        const key = expandedName(uri, local);
+        let decl = elements.get(key);
+        if (!decl) {
+          missing("Element", key);
+          decl = { key, name: attrs.ref, type: anyType, nillable: false };
+        }
+        return { kind: "element", decl, ...occurs(el) };
+      }
+      case "sequence":
+      case "choice":
+      case "all":
+        return {
+          kind: splitQName(el.name).local as "sequence" | "choice" | "all",
+          items: childElements(el)
+            .map((c) => compileParticle(c, ctx))
+            .filter((p): p is Particle => p !== null),
+          ...occurs(el),
+        };
+      case "group": {
+        const { uri, local } = qualifiedName(ctx, String(attrs.ref ?? ""));
+        const key = expandedName(uri, local);
+        const group = groups.get(key);
+        if (!group) {
+          missing("Group", key);
+          return null;
+        }
+        return { kind: "sequence", items: [group], ...occurs(el) };
+      }
+      case "any":
+        return {
+          kind: "any",
+          namespace: String(attrs.namespace ?? "##any"),
+          targetNamespace: ctx.targetNamespace,
+          process: attrs.processContents ?? "strict",
+          ...occurs(el),
+        };
+      default:
+        return null;
+    }
+  };
+
+  const compileComplexType = (
+    el: any,
+    outer: SchemaContext,
+    type: ComplexType = emptyComplexType(""),
+  ): ComplexType => {
+    let ctx = withScope(outer, el);
+    type.mixed = el.attributes?.mixed === "true";
+    let body = el;
+    const content = firstChild(el, "simpleContent", "complexContent");
+    if (content) {
+      ctx = withScope(ctx, content);
+      type.simpleContent = splitQName(content.name).local === "simpleContent";
+      if (content.attributes?.mixed === "true") type.mixed = true;
+      const derivation = firstChild(content, "extension", "restriction");
+      if (derivation) {
+        ctx = withScope(ctx, derivation);
+        type.derivation = splitQName(derivation.name).local as
+          | "extension"
+          | "restriction";
+        const base = derivation.attributes?.base;
+        type.base =
+          (base && resolveType(ctx, base)) ||
+          (type.simpleContent ? anySimpleType : anyType);
+        if (type.simpleContent && type.derivation === "restriction") {
+          type.valueFacets = readFacets(derivation);
+        }
+        body = derivation;
+      }
+    }
+    const particle = firstChild(body, "sequence", "choice", "all", "group");
+    type.particle = particle ? compileParticle(particle, ctx) : null;
+    type.attributes = compileAttributeSet(body, ctx);
+    return type;
+  };
+
+  const compileElement = (
+    el: any,
+    outer: SchemaContext,
+    global: boolean,
+    decl?: ElementDecl,
+  ): ElementDecl => {
+    const ctx = withScope(outer, el);
+    const attrs = el.attributes ?? {};
+    const name = String(attrs.name ?? "");
+    const qualified =
+      global || (attrs.form ?? (ctx.elementQualified ? "qualified" : "")) === "qualified";
+    const complex = firstChild(el, "complexType");
+    const simple = firstChild(el, "simpleType");
+    const compiled: ElementDecl = {
+      key: expandedName(qualified ? ctx.targetNamespace : "", name),
+      name,
+      type:
+        (attrs.type && resolveType(ctx, attrs.type)) ||
+        (complex && compileComplexType(complex, ctx)) ||
+        (simple && compileSimpleType(simple, ctx)) ||
+        anyType,
+      nillable: attrs.nillable === "true",
+      ...(attrs.fixed !== undefined && { fixed: String(attrs.fixed) }),
+    };
+    return decl ? Object.assign(decl, compiled) : compiled;
+  };
+
+  // First register every global component, so references resolve in any order
+  for (const { source, root } of documents) {
+    const targetNamespace =
+      root.attributes?.targetNamespace ?? chameleons.get(source.name) ?? "";
+    const ctx: SchemaContext = {
+      targetNamespace,
+      elementQualified: root.attributes?.elementFormDefault === "qualified",
+      attributeQualified: root.attributes?.attributeFormDefault === "qualified",
+      scope: extendScope(
+        // Chameleon schemas refer to their own components without a prefix
+        targetNamespace && !root.attributes?.targetNamespace
+          ? { "": targetNamespace }
+          : {},
+        root.attributes ?? {},
+      ),
+    };
+    for (const el of childElements(root)) {
+      const name = String(el.attributes?.name ?? "");
+      const key = expandedName(ctx.targetNamespace, name);
+      switch (splitQName(el.name).local) {
+        case "element": {
+          const decl: ElementDecl = { key, name, type: anyType, nillable: false };
+          elements.set(key, decl);
+          fill.push(() => compileElement(el, ctx, true, decl));
+          break;
+        }
+        case "complexType": {
+          const type = emptyComplexType(name);
+          types.set(key, type);
+          fill.push(() => compileComplexType(el, ctx, type));
+          break;
+        }
+        case "simpleType": {
+          const type: SimpleType = { kind: "simple", name, facets: noFacets() };
+          types.set(key, type);
+          fill.push(() => compileSimpleType(el, ctx, type));
+          break;
+        }
+        case "group": {
+          const group: Particle = { kind: "sequence", items: [], min: 1, max: 1 };
+          groups.set(key, group);
+          fill.push(() => {
+            const content = firstChild(el, "sequence", "choice", "all");
+            const particle = content && compileParticle(content, withScope(ctx, el));
+            if (particle) Object.assign(group, particle);
+          });
+          break;
+        }
+        case "attributeGroup": {
+          const set: AttributeSet = { attributes: [], groups: [], anyAttribute: false };
+          attributeGroups.set(key, set);
+          fill.push(() => Object.assign(set, compileAttributeSet(el, withScope(ctx, el))));
+          break;
+        }
+        case "attribute": {
+          const decl: AttributeDecl = {
+            key,
+            name,
+            type: anySimpleType,
+            required: false,
+            prohibited: false,
+          };
+          attributes.set(key, decl);
+          fill.push(() => Object.assign(decl, compileAttribute(el, ctx, true)));
+          break;
+        }
+      }
+    }
+  }
+  fill.forEach((step) => step());
+
+  return { sources, elements, types, warnings: [...warnings] };
+}
+
+// --- Effective content of derived types ---------------------------------
+
+const particleCache = new WeakMap<ComplexType, Particle | null>();
+const attributeCache = new WeakMap<
+  ComplexType,
+  { attributes: Map<string, AttributeDecl>; anyAttribute: boolean }
+>();
+const childCache = new WeakMap<ComplexType, Map<string, ElementDecl>>();
+const wildcardCache = new WeakMap<ComplexType, Wildcard[]>();
+
+/** Content model including what an extension inherits from its base. */
+function effectiveParticle(type: ComplexType): Particle | null {
+  if (particleCache.has(type)) return particleCache.get(type)!;
+  particleCache.set(type, type.particle);
+  let particle = type.particle;
+  if (type.derivation === "extension" && type.base?.kind === "complex") {
+    const inherited = effectiveParticle(type.base);
+    if (inherited && particle) {
+      particle = { kind: "sequence", items: [inherited, particle], min: 1, max: 1 };
+    } else {
+      particle = inherited ?? particle;
+    }
+  }
+  particleCache.set(type, particle);
+  return particle;
+}
+
+function collectAttributes(
+  set: AttributeSet,
+  into: Map<string, AttributeDecl>,
+  seen = new Set<AttributeSet>(),
+): boolean {
+  if (seen.has(set)) return false;
+  seen.add(set);
+  let anyAttribute = set.anyAttribute;
+  for (const group of set.groups) {
+    anyAttribute = collectAttributes(group, into, seen) || anyAttribute;
+  }
+  for (const attr of set.attributes) {
+    if (attr.prohibited) into.delete(attr.key);
+    else into.set(attr.key, attr);
+  }
+  return anyAttribute;
+}
+
+function effectiveAttributes(type: ComplexType) {
+  let cached = attributeCache.get(type);
+  if (cached) return cached;
+  const attributes = new Map<string, AttributeDecl>();
+  attributeCache.set(type, { attributes, anyAttribute: false });
+  let anyAttribute = false;
+  if (type.base?.kind === "complex") {
+    const inherited = effectiveAttributes(type.base);
+    inherited.attributes.forEach((attr, key) => attributes.set(key, attr));
+    anyAttribute = type.derivation === "extension" && inherited.anyAttribute;
+  }
+  anyAttribute = collectAttributes(type.attributes, attributes) || anyAttribute;
+  cached = { attributes, anyAttribute };
+  attributeCache.set(type, cached);
+  return cached;
+}
+
+/** Type of the character data of a simple-content type, or null. */
+function valueType(type: TypeDefinition): SimpleType | null {
+  if (type.kind === "simple") return type;
+  if (!type.simpleContent) return null;
+  const base = type.base ? valueType(type.base) ?? anySimpleType : anySimpleType;
+  return type.valueFacets
+    ? { kind: "simple", name: type.name, base, facets: type.valueFacets }
+    : base;
+}
+
+function walkParticles(
+  particle: Particle | null,
+  visit: (p: Particle) => void,
+  seen = new Set<Particle>(),
+) {
+  if (!particle || seen.has(particle)) return;
+  seen.add(particle);
+  visit(particle);
+  if ("items" in particle) particle.items.forEach((p) => walkParticles(p, visit, seen));
+}
+
+function wildcardAllows(wildcard: Wildcard, uri: string) {
+  const { namespace, targetNamespace } = wildcard;
+  if (namespace === "##any") return true;
+  if (namespace === "##other") return uri !== "" && uri !== targetNamespace;
+  return namespace.split(/\s+/).some((ns) =>
+    ns === "##local"
+      ? uri === ""
+      : ns === "##targetNamespace"
+        ? uri === targetNamespace
+        : ns === uri,
+  );
+}
+
+/** Declaration a child element gets from its parent's content model. */
+function childDeclaration(
+  type: ComplexType,
+  uri: string,
+  local: string,
+  schemas: SchemaSet,
+): TypeDefinition | null {
+  let children = childCache.get(type);
+  let wildcards = wildcardCache.get(type);
+  if (!children || !wildcards) {
+    const declared = new Map<string, ElementDecl>();
+    const found: Wildcard[] = [];
+    walkParticles(effectiveParticle(type), (p) => {
+      if (p.kind === "element" && !declared.has(p.decl.key)) {
+        declared.set(p.decl.key, p.decl);
+      } else if (p.kind === "any") {
+        found.push(p);
+      }
+    });
+    children = declared;
+    wildcards = found;
+    childCache.set(type, children);
+    wildcardCache.set(type, wildcards);
+  }
+  const key = expandedName(uri, local);
+  const decl = children.get(key);
+  if (decl) return decl.type;
+  const wildcard = wildcards.find((w) => wildcardAllows(w, uri));
+  if (!wildcard || wildcard.process === "skip") return null;
+  return schemas.elements.get(key)?.type ?? null;
+}
+
+// --- Simple values ------------------------------------------------------
+
+type Problem = { rule: string; message: string };
+
+function rootOf(type: SimpleType) {
+  let root = type;
+  while (root.base) root = root.base;
+  return root;
+}
+
+function normalizeSpace(type: SimpleType, value: string) {
+  const root = rootOf(type);
+  if (root.builtin === "string" || root.builtin === "anySimpleType") return value;
+  if (root.builtin === "normalizedString") return value.replace(/[\t\n\r]/g, " ");
+  return value.replace(/[\t\n\r ]+/g, " ").trim();
+}
+
+function compareValues(a: string, b: string) {
+  if (/^[+-]?\d+$/.test(a) && /^[+-]?\d+$/.test(b)) {
+    const x = BigInt(a);
+    const y = BigInt(b);
+    return x < y ? -1 : x > y ? 1 : 0;
+  }
+  const x = Number(a);
+  const y = Number(b);
+  if (a.trim() && b.trim() && !Number.isNaN(x) && !Number.isNaN(y)) {
+    return Math.sign(x - y);
+  }
+  // Dates and times in the same form order as strings
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function valueLength(root: SimpleType, value: string) {
+  if (root.itemType || builtinLists[root.builtin ?? ""]) {
+    return value ? value.split(" ").length : 0;
+  }
+  if (root.builtin === "hexBinary") return value.length / 2;
+  if (root.builtin === "base64Binary") {
+    const data = value.replace(/ /g, "");
+    return (data.length * 3) / 4 - (data.match(/=+$/)?.[0].length ?? 0);
+  }
+  return [...value].length;
+}
+
+function checkBuiltin(name: string, value: string): Problem | null {
+  const rule = `xs:${name}`;
+  const items = builtinLists[name];
+  if (items) {
+    if (!value) return { rule, message: `${rule} needs at least one item` };
+    for (const item of value.split(" ")) {
+      const problem = checkBuiltin(items, item);
+      if (problem) return { rule, message: problem.message };
+    }
+    return null;
+  }
+  const range = integerRanges[name];
+  if (range) {
+    if (!/^[+-]?\d+$/.test(value)) {
+      return { rule, message: `"${value}" is not a valid ${rule}` };
+    }
+    const number = BigInt(value);
+    const [min, max] = range;
+    if ((min !== null && number < min) || (max !== null && number > max)) {
+      return { rule, message: `"${value}" is outside the range of ${rule}` };
+    }
+    return null;
+  }
+  const pattern = builtinPatterns[name];
+  if (pattern && !pattern.test(value)) {
+    return { rule, message: `"${value}" is not a valid ${rule}` };
+  }
+  return null;
+}
+
+function checkFacets(facets: Facets, root: SimpleType, value: string): Problem | null {
+  const { enumerations, patterns } = facets;
+  if (enumerations.length > 0 && !enumerations.includes(value)) {
+    const shown = enumerations.slice(0, 10).join(", ");
+    return {
+      rule: "enumeration",
+      message: `"${value}" is not one of: ${shown}${enumerations.length > 10 ? ", …" : ""}`,
+    };
+  }
+  if (patterns.length > 0 && !patterns.some((p) => p.regex.test(value))) {
+    return {
+      rule: "pattern",
+      message: `"${value}" does not match ${patterns.map((p) => p.source).join(" | ")}`,
+    };
+  }
+  const bounds = [
+    ["minInclusive", (c: number) => c >= 0, "below the minimum"],
+    ["maxInclusive", (c: number) => c <= 0, "above the maximum"],
+    ["minExclusive", (c: number) => c > 0, "not above"],
+    ["maxExclusive", (c: number) => c < 0, "not below"],
+  ] as const;
+  for (const [facet, holds, phrase] of bounds) {
+    const bound = facets[facet];
+    if (bound !== undefined && !holds(compareValues(value, bound))) {
+      return { rule: facet, message: `"${value}" is ${phrase} ${bound}` };
+    }
+  }
+  const length = valueLength(root, value);
+  if (facets.length !== undefined && length !== facets.length) {
+    return { rule: "length", message: `Length ${length} is not ${facets.length}` };
+  }
+  if (facets.minLength !== undefined && length < facets.minLength) {
+    return {
+      rule: "minLength",
+      message: `Length ${length} is below the minimum ${facets.minLength}`,
+    };
+  }
+  if (facets.maxLength !== undefined && length > facets.maxLength) {
+    return {
+      rule: "maxLength",
+      message: `Length ${length} exceeds the maximum ${facets.maxLength}`,
+    };
+  }
+  if (facets.totalDigits !== undefined || facets.fractionDigits !== undefined) {
+    const [whole, fraction = ""] = value.replace(/^[+-]/, "").split(".");
+    const integerDigits = whole.replace(/^0+/, "");
+    const fractionDigits = fraction.replace(/0+$/, "");
+    if (
+      facets.totalDigits !== undefined &&
+      integerDigits.length + fractionDigits.length > facets.totalDigits
+    ) {
+      return {
+        rule: "totalDigits",
+        message: `"${value}" has more than ${facets.totalDigits} digits`,
+      };
+    }
+    if (
+      facets.fractionDigits !== undefined &&
+      fractionDigits.length > facets.fractionDigits
+    ) {
+      return {
+        rule: "fractionDigits",
+        message: `"${value}" has more than ${facets.fractionDigits} fraction digits`,
+      };
+    }
+  }
+  return null;
+}
+
+/** Why a value does not belong to a simple type, or null if it does. */
+function checkSimple(type: SimpleType, raw: string): Problem | null {
+  const value = normalizeSpace(type, raw);
+  const chain: SimpleType[] = [];
+  for (let t: SimpleType | undefined = type; t; t = t.base) chain.push(t);
+  const root = chain[chain.length - 1];
+
+  if (root.builtin) {
+    const problem = checkBuiltin(root.builtin, value);
+    if (problem) return problem;
+  } else if (root.itemType) {
+    for (const item of value ? value.split(" ") : []) {
+      const problem = checkSimple(root.itemType, item);
+      if (problem) return { rule: problem.rule, message: `List item ${problem.message}` };
+    }
+  } else if (root.memberTypes && root.memberTypes.length > 0) {
+    if (root.memberTypes.every((member) => checkSimple(member, value))) {
+      return {
+        rule: "union",
+        message: `"${value}" matches none of ${root.memberTypes
+          .map((m) => m.name || "(anonymous)")
+          .join(", ")}`,
+      };
+    }
+  }
+  // The restrictions closest to the built-in apply first
+  for (let i = chain.length - 1; i >= 0; i--) {
+    const problem = checkFacets(chain[i].facets, root, value);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+// --- Content models -----------------------------------------------------
+
+type ChildElement = { uri: string; local: string; name: string; path: string; line: number };
+
+type ContentMismatch = {
+  /** Index of the first child that does not fit, or the child count if content is missing. */
+  at: number;
+  expected: string[];
+};
+
+/**
+ * Match the children against a content model. Positions reachable after each
+ * particle are tracked as sets, so choices and optional items need no backtracking.
+ */
+function matchContent(
+  particle: Particle | null,
+  children: ChildElement[],
+): ContentMismatch | null {
+  const count = children.length;
+  let furthest = 0;
+  let expected = new Set<string>();
+
+  const arrive = (position: number) => {
+    if (position > furthest) {
+      furthest = position;
+      expected = new Set();
+    }
+  };
+  const attempt = (position: number, label: string) => {
+    if (position === furthest) expected.add(label);
+  };
+
+  const matchOnce = (p: Particle, from: Set<number>): Set<number> => {
+    const next = new Set<number>();
+    switch (p.kind) {
+      case "element":
+        for (const i of from) {
+          attempt(i, `<${p.decl.name}>`);
+          const child = children[i];
+          if (child && expandedName(child.uri, child.local) === p.decl.key) {
+            next.add(i + 1);
+            arrive(i + 1);
+          }
+        }
+        return next;
+      case "any":
+        for (const i of from) {
+          attempt(i, "any element");
+          if (i < count && wildcardAllows(p, children[i].uri)) {
+            next.add(i + 1);
+            arrive(i + 1);
+          }
+        }
+        return next;
+      case "sequence": {
+        let current = from;
+        for (const item of p.items) {
+          if (current.size === 0) break;
+          current = matchRepeated(item, current);
+        }
+        return current;
+      }
+      case "choice":
+        for (const item of p.items) {
+          matchRepeated(item, from).forEach((i) => next.add(i));
+        }
+        return next;
+      case "all":
+        for (const start of from) {
+          const used = new Map<Particle, number>();
+          let i = start;
+          for (; i < count; i++) {
+            const child = children[i];
+            const item = p.items.find(
+              (it) =>
+                it.kind === "element" &&
+                it.decl.key === expandedName(child.uri, child.local) &&
+                (used.get(it) ?? 0) < it.max,
+            );
+            if (!item) break;
+            used.set(item, (used.get(item) ?? 0) + 1);
+            arrive(i + 1);
+          }
+          const absent = p.items.filter((it) => it.min > 0 && !used.has(it));
+          if (absent.length === 0) next.add(i);
+          for (const it of absent) {
+            if (it.kind === "element") attempt(i, `<${it.decl.name}>`);
+          }
+        }
+        return next;
+    }
+  };
+
+  const matchRepeated = (p: Particle, from: Set<number>): Set<number> => {
+    const result = new Set<number>(p.min === 0 ? from : []);
+    let current = from;
+    for (let n = 1; n <= p.max && current.size > 0; n++) {
+      let next = matchOnce(p, current);
+      if (n >= p.min) {
+        // Positions already reached cannot lead anywhere new
+        next = new Set([...next].filter((i) => !result.has(i)));
+        next.forEach((i) => result.add(i));
+      }
+      current = next;
+    }
+    return result;
+  };
+
+  const end = particle ? matchRepeated(particle, new Set([0])) : new Set([0]);
+  if (end.has(count)) return null;
+  return { at: furthest, expected: [...expected] };
+}
+
+/** "<Cell> (CellType)"; anonymous types go by their element alone. */
+function describeElement(name: string, type: TypeDefinition) {
+  return type.name ? `<${name}> (${type.name})` : `<${name}>`;
+}
+
+function describeExpected(expected: string[]) {
+  if (expected.length === 0) return "";
+  const shown = expected.slice(0, 5).join(", ");
+  return `; expected ${shown}${expected.length > 5 ? ", …" : ""}`;
+}
+
+// --- Documents ----------------------------------------------------------
+
+type Frame = {
+  name: string;
+  path: string;
+  line: number;
+  /** Null while an element is not validated (undeclared or skipped by a wildcard). */
+  type: TypeDefinition | null;
+  fixed?: string;
+  nil: boolean;
+  children: ChildElement[];
+  siblingCounts: Record<string, number>;
+  text: string;
+  hasText: boolean;
+};
+
+/**
+ * Validate a document against the loaded schemas. Paths use the editor's
+ * notation; lines are 1-based and point at the start tag.
+ */
+export function validateXml(schemas: SchemaSet, xml: string): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const report = (path: string, line: number, rule: string, message: string) => {
+    if (violations.length < maxSchemaViolations) {
+      violations.push({ path, line, rule, message });
+    }
+  };
+
+  const stack: Frame[] = [];
+  const rootCounts: Record<string, number> = {};
+  let tagLine = 1;
+
+  const parser = sax.parser(true, { trim: false, normalize: false, position: true, xmlns: true });
+  parser.onerror = (err) => {
+    // Undeclared prefixes are common in hand-edited exports; sax then uses the prefix as URI.
+    if (err.message.startsWith("Unbound namespace prefix")) {
+      parser.resume();
+      return;
+    }
+    throw err;
+  };
+
+  parser.onopentagstart = () => {
+    tagLine = parser.line + 1;
+  };
+
+  parser.onopentag = (openTag) => {
+    const tag = openTag as sax.QualifiedTag;
+    const parent = stack[stack.length - 1];
+    const counts = parent ? parent.siblingCounts : rootCounts;
+    const index = (counts[tag.name] ?? 0) + 1;
+    counts[tag.name] = index;
+    const positional = `${tag.name}[${index}]`;
+    const path = parent ? `${parent.path}.${positional}` : positional;
+
+    let type: TypeDefinition | null = null;
+    let decl: ElementDecl | undefined;
+    if (!parent) {
+      decl = schemas.elements.get(expandedName(tag.uri, tag.local));
+      if (decl) type = decl.type;
+      else {
+        report(
+          path,
+          tagLine,
+          "element declaration",
+          `No global element <${tag.name}> is declared in the loaded schemas`,
+        );
+      }
+    } else if (parent.type) {
+      parent.children.push({
+        uri: tag.uri,
+        local: tag.local,
+        name: tag.name,
+        path,
+        line: tagLine,
+      });
+      if (valueType(parent.type)) {
+        report(
+          path,
+          tagLine,
+          "simple content",
+          `<${parent.name}> has a simple type and cannot contain <${tag.name}>`,
+        );
+      } else if (parent.type.kind === "complex") {
+        type = childDeclaration(parent.type, tag.uri, tag.local, schemas);
+      }
+    }
+
+    const xsiType = Object.values(tag.attributes).find(
+      (a) => a.uri === XSI_NAMESPACE_URI && a.local === "type",
+    );
+    if (type && xsiType) {
+      const { local } = splitQName(xsiType.value);
+      const uri = resolveNamespaceUri(xsiType.value, tag.ns);
+      const override =
+        uri === XSD_NAMESPACE_URI && knownBuiltins.has(local)
+          ? builtinType(local)
+          : uri === XSD_NAMESPACE_URI && local === "anyType"
+            ? anyType
+            : schemas.types.get(expandedName(uri, local));
+      if (override) type = override;
+      else {
+        report(
+          `${path}/@${xsiType.name}`,
+          tagLine,
+          "xsi:type",
+          `Type ${xsiType.value} is not defined in the loaded schemas`,
+        );
+      }
+    }
+
+    const nil = Object.values(tag.attributes).some(
+      (a) => a.uri === XSI_NAMESPACE_URI && a.local === "nil" && a.value === "true",
+    );
+    if (type && nil && decl && !decl.nillable) {
+      report(path, tagLine, "nillable", `<${tag.name}> is not nillable`);
+    }
+
+    if (type) checkAttributes(type, tag, path);
+
+    stack.push({
+      name: tag.name,
+      path,
+      line: tagLine,
+      type,
+      ...(decl?.fixed !== undefined && { fixed: decl.fixed }),
+      nil,
+      children: [],
+      siblingCounts: {},
+      text: "",
+      hasText: false,
+    });
+  };
+
+  const checkAttributes = (
+    type: TypeDefinition,
+    tag: sax.QualifiedTag,
+    path: string,
+  ) => {
+    const declared =
+      type.kind === "complex"
+        ? effectiveAttributes(type)
+        : { attributes: new Map<string, AttributeDecl>(), anyAttribute: false };
+    const present = new Set<string>();
+    for (const attr of Object.values(tag.attributes)) {
+      if (isNamespaceDeclaration(attr.name) || attr.uri === XSI_NAMESPACE_URI) continue;
+      const key = expandedName(attr.uri, attr.local);
+      present.add(key);
+      const decl = declared.attributes.get(key);
+      const attrPath = `${path}/@${attr.name}`;
+      if (!decl) {
+        if (!declared.anyAttribute) {
+          report(
+            attrPath,
+            tagLine,
+            "attribute declaration",
+            `Attribute ${attr.name} is not declared for <${tag.name}>`,
+          );
+        }
+        continue;
+      }
+      const problem = checkSimple(decl.type, attr.value);
+      if (problem) report(attrPath, tagLine, problem.rule, problem.message);
+      else if (decl.fixed !== undefined && attr.value !== decl.fixed) {
+        report(
+          attrPath,
+          tagLine,
+          "fixed",
+          `Attribute ${attr.name} must be "${decl.fixed}"`,
+        );
+      }
+    }
+    for (const decl of declared.attributes.values()) {
+      if (decl.required && !present.has(decl.key)) {
+        report(
+          path,
+          tagLine,
+          "required attribute",
+          `<${tag.name}> is missing the required attribute ${decl.name}`,
+        );
+      }
+    }
+  };
+
+  const appendText = (text: string) => {
+    const frame = stack[stack.length - 1];
+    if (!frame?.type) return;
+    if (valueType(frame.type)) frame.text += text;
+    else if (!frame.hasText && text.trim()) frame.hasText = true;
+  };
+  parser.ontext = appendText;
+  parser.oncdata = appendText;
+
+  parser.onclosetag = () => {
+    const frame = stack.pop();
+    if (!frame?.type) return;
+    const { type, path, line, name } = frame;
+
+    if (frame.nil) {
+      if (frame.children.length > 0 || frame.hasText || frame.text.trim()) {
+        report(path, line, "nillable", `<${name}> has xsi:nil="true" but is not empty`);
+      }
+      return;
+    }
+
+    const simple = valueType(type);
+    if (simple) {
+      const problem = checkSimple(simple, frame.text);
+      if (problem) report(path, line, problem.rule, problem.message);
+      else if (frame.fixed !== undefined && frame.text !== frame.fixed) {
+        report(path, line, "fixed", `<${name}> must be "${frame.fixed}"`);
+      }
+      return;
+    }
+    if (type.kind !== "complex") return;
+
+    if (frame.hasText && !type.mixed) {
+      report(
+        path,
+        line,
+        "element-only content",
+        `${describeElement(name, type)} cannot contain text`,
+      );
+    }
+    const mismatch = matchContent(effectiveParticle(type), frame.children);
+    if (mismatch) {
+      const child = frame.children[mismatch.at];
+      if (child) {
+        report(
+          child.path,
+          child.line,
+          "content model",
+          `<${child.name}> is not allowed here in ${describeElement(name, type)}${describeExpected(mismatch.expected)}`,
+        );
+      } else {
+        report(
+          path,
+          line,
+          "content model",
+          `${describeElement(name, type)} is incomplete${describeExpected(mismatch.expected)}`,
+        );
+      }
+    }
+  };
+
+  try {
+    parser.write(xml).close();
+  } catch (err) {
+    report(
+      stack[stack.length - 1]?.path ?? "",
+      parser.line + 1,
+      "well-formedness",
+      (err as Error).message.split("\n")[0],
+    );
+  }
+  // Content models are checked at the end tag; list in document order
+  return violations.sort((a, b) => a.line - b.line);
+}
@@ -1,199 +1,527 @@
-import { Element, xml2js } from 'xml-js';
+import sax from 'sax';
+import { type IgnoreMatcher, type IgnoreRule, compileIgnoreRules } from '../utils/ignoreRules';
+import {
+  type NamespaceTable,
+  chooseDisplayPrefixes,
+  createPathDisplay,
+  isNamespaceDeclaration,
+  qualifiedSegmentName
+} from '../utils/namespaces';
+import {
+  type ValueComparator,
+  type ValueComparisonSettings,
+  compileValueComparison
+} from '../utils/valueComparison';
 
-type ChangeKind = 'added' | 'removed' | 'changed';
+export type ChangeKind = 'added' | 'removed' | 'changed' | 'renumbered' | 'equivalent';
+
+export type ComparisonSide = 'left' | 'right';
 
 export type Diff = {
   path: string;
   leftValue?: string;
   rightValue?: string;
   change: ChangeKind;
+  /** Normalization that made the values equal ('equivalent') or decided they differ. */
+  comparison?: string;
+};
+
+/**
+ * Pairs instances of a multi-instance object by identity instead of position.
+ * `objectPath` is matched against the tail of the index-free element path
+ * (e.g. "NeighborList.LTECell"); `keys` are child parameter names whose values
+ * together identify an instance (e.g. ["PhyCellID", "EUTRACarrierARFCN"]).
+ */
+export type MatchKeyRule = {
+  objectPath: string;
+  keys: string[];
 };
 
-type WorkerRequest = {
-  leftXml: string;
-  rightXml: string;
+/**
+ * XML input. Files are sent as UTF-8 ArrayBuffers in the transfer list so the
+ * document is not copied into a giant string message; strings are still accepted.
+ */
+export type XmlSource = ArrayBuffer | string;
+
+export type ComparisonOptions = {
+  matchKeys?: MatchKeyRule[];
+  ignoreRules?: IgnoreRule[];
+  valueComparison?: ValueComparisonSettings;
 };
 
-type WorkerProgress = {
+/**
+ * Comparisons run on a pair of workers: the "flatten" worker parses the right
+ * document and hands its flat map over `peer`; the "diff" worker parses the
+ * left document in parallel, waits for the peer's map and diffs both.
+ */
+export type WorkerRequest =
+  | {
+      type: 'flatten';
+      jobId: number;
+      side: ComparisonSide;
+      source: XmlSource;
+      matchKeys?: MatchKeyRule[];
+      peer: MessagePort;
+    }
+  | ({
+      type: 'diff';
+      jobId: number;
+      side: ComparisonSide;
+      source: XmlSource;
+      peer: MessagePort;
+    } & ComparisonOptions);
+
+export type WorkerProgress = {
   ok: true;
   type: 'progress';
-  phase: 'left' | 'right' | 'diff';
+  jobId: number;
+  phase: ComparisonSide | 'diff';
   percent: number;
   message?: string;
 };
 
-type WorkerDone =
+export type WorkerDone =
   | {
       ok: true;
       type: 'done';
+      jobId: number;
       differences: Diff[];
       stats: Record<ChangeKind, number>;
+      /** Entries skipped by ignore rules before diffing. */
+      ignored: number;
+      /** Per side, keyed instance path -> positional segment (empty without match keys). */
+      instances: Record<ComparisonSide, Record<string, string>>;
+      /** Display prefix -> namespace URI for the prefixes used in paths. */
+      namespaces: NamespaceTable;
     }
   | {
       ok: false;
       type: 'error';
+      jobId: number;
       leftError?: string;
       rightError?: string;
     };
 
-type WorkerResponse = WorkerProgress | WorkerDone;
+export type WorkerResponse = WorkerProgress | WorkerDone;
+
+/** Normalize a rule path ("Device.X.{i}.NeighborList.LTECell[1]") to bare element names. */
+function ruleSegments(objectPath: string): string[] {
+  return objectPath
+    .split(/[./]/)
+    .map((s) => s.trim().replace(/\[\d+\]$/, ''))
+    .filter((s) => s && s !== '{i}');
+}
+
+function endsWithSegments(namePath: string[], segments: string[]): boolean {
+  if (segments.length === 0 || segments.length > namePath.length) return false;
+  const offset = namePath.length - segments.length;
+  return segments.every((seg, i) => namePath[offset + i] === seg);
+}
+
+function findRule(rules: Array<{ segments: string[]; keys: string[] }>, namePath: string[]) {
+  return rules.find((r) => endsWithSegments(namePath, r.segments));
+}
+
+/**
+ * Build the identity segment for a keyed instance, or null when any key parameter is missing.
+ * Numbered instances ("i3") drop their number so the same instance matches across renumbering.
+ */
+function keyedSegment(
+  name: string,
+  keyValues: Record<string, string>,
+  keys: string[],
+  isNumberedInstance: boolean
+): string | null {
+  const values: string[] = [];
+  for (const key of keys) {
+    if (!(key in keyValues)) return null;
+    values.push(`${key}=${keyValues[key]}`);
+  }
+  const base = isNumberedInstance ? name.replace(/\d+$/, '') : name;
+  return `${base}[${values.join(',')}]`;
+}
+
+type FlatResult = {
+  map: Record<string, string>;
+  /** Keyed instance path -> positional segment it was found at (e.g. "i3[1]"). */
+  instances: Record<string, string>;
+  /** Namespace URI -> first prefix the document used for it ("" = default namespace). */
+  namespaces: Record<string, string>;
+  rootUri: string;
+  error?: string;
+};
+
+/** An open element while streaming. */
+type Frame = {
+  /** Path name: local name, with a "{token}:" namespace marker where needed. */
+  name: string;
+  local: string;
+  /** Full path using the positional segment for this element. */
+  path: string;
+  positional: string;
+  namePath: string[];
+  text: string;
+  siblingCounts: Record<string, number>;
+  /** Keyed segments already used by children (duplicates stay positional). */
+  seenKeys: Set<string>;
+  /** Match-key rule whose instances are this element's numbered children. */
+  containerRule?: CompiledMatchKeyRule;
+  /** Set when this element is a keyed instance: its entries are held until the keys are known. */
+  keyed?: {
+    rule: CompiledMatchKeyRule;
+    numbered: boolean;
+    keyValues: Record<string, string>;
+    entries: Array<[string, string]>;
+    instances: Array<[string, string]>;
+  };
+};
 
-function extractText(nodes: Element[] | undefined): string {
-  if (!nodes) return '';
-  let out = '';
-  for (const node of nodes) {
-    if (node.type === 'text' || node.type === 'cdata') {
-      out += (node as { text?: string }).text ?? '';
+type CompiledMatchKeyRule = { segments: string[]; keys: string[] };
+
+const CHUNK_BYTES = 1 << 20;
+
+/** Feed the source to the parser in chunks, reporting the fraction of bytes consumed. */
+function feedSource(source: XmlSource, parser: sax.SAXParser, onProgress: (ratio: number) => void) {
+  if (typeof source === 'string') {
+    for (let offset = 0; offset < source.length; offset += CHUNK_BYTES) {
+      parser.write(source.slice(offset, offset + CHUNK_BYTES));
+      onProgress(Math.min(1, (offset + CHUNK_BYTES) / source.length));
+    }
+  } else {
+    const bytes = new Uint8Array(source);
+    const decoder = new TextDecoder('utf-8');
+    for (let offset = 0; offset < bytes.byteLength; offset += CHUNK_BYTES) {
+      const chunk = bytes.subarray(offset, offset + CHUNK_BYTES);
+      parser.write(decoder.decode(chunk, { stream: true }));
+      onProgress(Math.min(1, (offset + chunk.byteLength) / bytes.byteLength));
     }
+    parser.write(decoder.decode());
   }
-  return out.trim();
+  parser.close();
 }
 
+/**
+ * Flatten XML into `path -> value` entries straight from parser events, without
+ * building an object tree. Paths match the previous tree-based output:
+ * "a[1].b[2]/#text" for trimmed text and "a[1].b[2]/@attr" for attributes.
+ */
 function mapXmlToFlat(
-  xml: string,
-  opts: { phase: 'left' | 'right'; basePercent: number; spanPercent: number; postProgress: (p: number, msg?: string) => void }
-): { map: Record<string, string>; error?: string } {
+  source: XmlSource,
+  opts: {
+    basePercent: number;
+    spanPercent: number;
+    matchKeys: MatchKeyRule[];
+    postProgress: (p: number, msg?: string) => void;
+  }
+): FlatResult {
+  const collector: Record<string, string> = {};
+  const instances: Record<string, string> = {};
+  const namespaces: Record<string, string> = {};
+  let rootUri = '';
   try {
-    opts.postProgress(opts.basePercent, 'Parsing XML…');
-    const parsed = xml2js(xml, { compact: false, ignoreDeclaration: true });
-    const rootElements = (parsed as { elements?: Element[] }).elements;
-    const collector: Record<string, string> = {};
+    const rules: CompiledMatchKeyRule[] = opts.matchKeys
+      .map((r) => ({ segments: ruleSegments(r.objectPath), keys: r.keys.filter(Boolean) }))
+      .filter((r) => r.segments.length > 0 && r.keys.length > 0);
 
-    // Iterative DFS to avoid deep recursion hazards on large docs
-    const stack: Array<{ elements: Element[] | undefined; path: string[] }> = [
-      { elements: rootElements, path: [] }
-    ];
+    const root: Frame = {
+      name: '',
+      local: '',
+      path: '',
+      positional: '',
+      namePath: [],
+      text: '',
+      siblingCounts: {},
+      seenKeys: new Set()
+    };
+    const stack: Frame[] = [root];
 
-    let processedElements = 0;
-    let lastEmit = 0;
+    // Entries go to the innermost pending keyed instance, or straight to the result.
+    const emit = (path: string, value: string) => {
+      for (let i = stack.length - 1; i > 0; i--) {
+        const keyed = stack[i].keyed;
+        if (keyed) {
+          keyed.entries.push([path, value]);
+          return;
+        }
+      }
+      collector[path] = value;
+    };
+    const emitInstance = (path: string, positional: string) => {
+      for (let i = stack.length - 1; i > 0; i--) {
+        const keyed = stack[i].keyed;
+        if (keyed) {
+          keyed.instances.push([path, positional]);
+          return;
+        }
+      }
+      instances[path] = positional;
+    };
 
-    while (stack.length) {
-      const item = stack.pop()!;
-      const elements = item.elements;
-      if (!elements) continue;
+    // Names in paths compare by namespace URI, not by the prefix a document happens to use.
+    const pathName = (local: string, uri: string, prefix: string, isRoot: boolean) => {
+      const name = qualifiedSegmentName(local, uri, rootUri, isRoot);
+      if (name !== local && !(uri in namespaces)) namespaces[uri] = prefix;
+      return name;
+    };
 
-      const siblingCounts: Record<string, number> = {};
-      for (const el of elements) {
-        if (el.type !== 'element') continue;
+    const parser = sax.parser(true, { trim: false, normalize: false, position: true, xmlns: true });
+    parser.onerror = (err) => {
+      // Undeclared prefixes are common in hand-edited exports; sax then uses the prefix as URI.
+      if (err.message.startsWith('Unbound namespace prefix')) {
+        parser.resume();
+        return;
+      }
+      throw err;
+    };
 
-        processedElements += 1;
+    parser.onopentag = (openTag) => {
+      const tag = openTag as sax.QualifiedTag;
+      const parent = stack[stack.length - 1];
+      const isRoot = stack.length === 1;
+      if (isRoot) rootUri = tag.uri;
+      const local = tag.local || 'unnamed';
+      const name = pathName(local, tag.uri, tag.prefix, isRoot);
+      const index = (parent.siblingCounts[name] ?? 0) + 1;
+      parent.siblingCounts[name] = index;
 
-        const name = el.name ?? 'unnamed';
-        const currentIndex = (siblingCounts[name] ?? 0) + 1;
-        siblingCounts[name] = currentIndex;
+      const positional = `${name}[${index}]`;
+      const path = parent.path ? `${parent.path}.${positional}` : positional;
+      const namePath = [...parent.namePath, local];
 
-        const currentPath = [...item.path, `${name}[${currentIndex}]`];
-        const pathString = currentPath.join('.');
+      // Instances are either repeated siblings matching the rule path (LTECell[3])
+      // or numbered children of the matched object (LTECell.i3).
+      const numbered = !!parent.containerRule && /^i\d+$/.test(local);
+      const rule = numbered ? parent.containerRule : rules.length ? findRule(rules, namePath) : undefined;
 
-        if (el.attributes) {
-          for (const [attrName, attrValue] of Object.entries(el.attributes)) {
-            collector[`${pathString}/@${attrName}`] = String(attrValue);
-          }
-        }
+      const frame: Frame = {
+        name,
+        local,
+        path,
+        positional,
+        namePath,
+        text: '',
+        siblingCounts: {},
+        seenKeys: new Set(),
+        containerRule: rules.length ? findRule(rules, namePath) : undefined,
+        keyed: rule ? { rule, numbered, keyValues: {}, entries: [], instances: [] } : undefined
+      };
+      stack.push(frame);
 
-        const textContent = extractText(el.elements);
-        if (textContent) {
-          collector[`${pathString}/#text`] = textContent;
-        }
+      for (const attr of Object.values(tag.attributes)) {
+        // Declarations only bind prefixes; the bound URIs are compared through the names.
+        if (isNamespaceDeclaration(attr.name)) continue;
+        const attrName = attr.uri ? pathName(attr.local, attr.uri, attr.prefix, true) : attr.name;
+        emit(`${path}/@${attrName}`, attr.value);
+      }
+    };
 
-        // Push children for later processing (only if there are any element nodes)
-        const children = el.elements?.filter((n) => n.type === 'element') as Element[] | undefined;
-        if (children && children.length > 0) {
-          stack.push({ elements: children, path: currentPath });
-        }
+    const appendText = (text: string) => {
+      stack[stack.length - 1].text += text;
+    };
+    parser.ontext = appendText;
+    parser.oncdata = appendText;
 
-        // Progress estimate without needing a full pre-count:
-        // ratio ~= processed / (processed + remaining_work)
-        // remaining_work is approximated by stack size (number of pending batches).
-        if (processedElements - lastEmit >= 250) {
-          lastEmit = processedElements;
-          const ratio = processedElements / (processedElements + stack.length + 1);
-          const pct = Math.min(
-            99,
-            Math.max(0, Math.round(opts.basePercent + ratio * opts.spanPercent))
-          );
-          opts.postProgress(pct, 'Scanning elements…');
-        }
+    parser.onclosetag = () => {
+      // Emit the text while the frame is still open so a keyed instance holds it too.
+      const frame = stack[stack.length - 1];
+      const text = frame.text.trim();
+      if (text) {
+        emit(`${frame.path}/#text`, text);
       }
-    }
+      stack.pop();
+      const parent = stack[stack.length - 1];
+
+      const parentKeyed = parent.keyed;
+      if (parentKeyed && parentKeyed.rule.keys.includes(frame.local) && !(frame.local in parentKeyed.keyValues)) {
+        parentKeyed.keyValues[frame.local] = text;
+      }
+
+      const keyed = frame.keyed;
+      if (!keyed) return;
+
+      // Keys are known now: rewrite the held entries from the positional prefix to the identity.
+      const segment = keyedSegment(frame.name, keyed.keyValues, keyed.rule.keys, keyed.numbered);
+      let finalPath = frame.path;
+      if (segment && !parent.seenKeys.has(segment)) {
+        parent.seenKeys.add(segment);
+        finalPath = parent.path ? `${parent.path}.${segment}` : segment;
+      }
+      const rebase = (p: string) => (p === frame.path ? finalPath : finalPath + p.slice(frame.path.length));
+
+      frame.keyed = undefined;
+      for (const [p, v] of keyed.entries) emit(rebase(p), v);
+      for (const [p, v] of keyed.instances) emitInstance(rebase(p), v);
+      if (finalPath !== frame.path) emitInstance(finalPath, frame.positional);
+    };
+
+    opts.postProgress(opts.basePercent, 'Parsing XML…');
+    let lastEmit = 0;
+    feedSource(source, parser, (ratio) => {
+      const pct = Math.min(99, Math.round(opts.basePercent + ratio * opts.spanPercent));
+      if (pct > lastEmit) {
+        lastEmit = pct;
+        opts.postProgress(pct, 'Scanning elements…');
+      }
+    });
 
     opts.postProgress(opts.basePercent + opts.spanPercent, 'Flatten complete');
-    return { map: collector };
+    return { map: collector, instances, namespaces, rootUri };
   } catch (error) {
-    return { map: {}, error: (error as Error).message };
+    return { map: {}, instances: {}, namespaces: {}, rootUri: '', error: (error as Error).message };
+  }
+}
+
+function diffMaps(
+  left: FlatResult,
+  right: FlatResult,
+  isIgnored: IgnoreMatcher | null,
+  compare: ValueComparator | null,
+  display: (path: string) => string
+) {
+  const differences: Diff[] = [];
+  const stats: Record<ChangeKind, number> = {
+    added: 0,
+    removed: 0,
+    changed: 0,
+    renumbered: 0,
+    equivalent: 0
+  };
+  const counter = { ignored: 0 };
+
+  // A keyed instance present on both sides at different positions is reported once.
+  for (const [path, leftPosition] of Object.entries(left.instances)) {
+    const rightPosition = right.instances[path];
+    if (rightPosition !== undefined && rightPosition !== leftPosition) {
+      const shown = display(path);
+      if (isIgnored?.(shown)) {
+        counter.ignored += 1;
+        continue;
+      }
+      differences.push({
+        path: shown,
+        leftValue: display(leftPosition),
+        rightValue: display(rightPosition),
+        change: 'renumbered'
+      });
+      stats.renumbered += 1;
+    }
   }
+
+  differences.push(...diffValues(left.map, right.map, stats, isIgnored, compare, counter, display));
+  differences.sort((a, b) => a.path.localeCompare(b.path));
+  return { differences, stats, ignored: counter.ignored };
 }
 
-function diffMaps(left: Record<string, string>, right: Record<string, string>) {
+function diffValues(
+  left: Record<string, string>,
+  right: Record<string, string>,
+  stats: Record<ChangeKind, number>,
+  isIgnored: IgnoreMatcher | null,
+  compare: ValueComparator | null,
+  counter: { ignored: number },
+  display: (path: string) => string
+): Diff[] {
   const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
   const differences: Diff[] = [];
-  const stats: Record<ChangeKind, number> = { added: 0, removed: 0, changed: 0 };
 
   keys.forEach((key) => {
+    // Ignore rules, comparison rules and results all see the display form of the path
+    const path = display(key);
+    if (isIgnored?.(path, left[key], right[key])) {
+      counter.ignored += 1;
+      return;
+    }
     if (!(key in right)) {
-      differences.push({ path: key, leftValue: left[key], change: 'removed' });
+      differences.push({ path, leftValue: left[key], change: 'removed' });
       stats.removed += 1;
     } else if (!(key in left)) {
-      differences.push({ path: key, rightValue: right[key], change: 'added' });
+      differences.push({ path, rightValue: right[key], change: 'added' });
       stats.added += 1;
     } else if (left[key] !== right[key]) {
+      const result = compare?.(path, left[key], right[key]);
+      const change: ChangeKind = result?.equal ? 'equivalent' : 'changed';
       differences.push({
-        path: key,
+        path,
         leftValue: left[key],
         rightValue: right[key],
-        change: 'changed'
+        change,
+        ...(result?.via ? { comparison: result.via } : {})
       });
-      stats.changed += 1;
+      stats[change] += 1;
     }
   });
 
-  differences.sort((a, b) => a.path.localeCompare(b.path));
-  return { differences, stats };
+  return differences;
+}
+
+function postResponse(resp: WorkerResponse) {
+  // eslint-disable-next-line no-restricted-globals
+  self.postMessage(resp);
 }
 
 // eslint-disable-next-line no-restricted-globals
 self.onmessage = (event: MessageEvent<WorkerRequest>) => {
-  const { leftXml, rightXml } = event.data;
+  const request = event.data;
+  const { jobId, side, peer } = request;
 
-  const postProgress = (phase: 'left' | 'right' | 'diff', percent: number, message?: string) => {
-    const resp: WorkerResponse = { ok: true, type: 'progress', phase, percent, message };
-    // eslint-disable-next-line no-restricted-globals
-    self.postMessage(resp);
+  const postProgress = (phase: ComparisonSide | 'diff', percent: number, message?: string) => {
+    postResponse({ ok: true, type: 'progress', jobId, phase, percent, message });
   };
 
-  // Left: 0..45, Right: 45..90, Diff: 90..100
-  const left = mapXmlToFlat(leftXml, {
-    phase: 'left',
+  // Each side reports 0..100 for its own document.
+  const flat = mapXmlToFlat(request.source, {
     basePercent: 0,
-    spanPercent: 45,
-    postProgress: (p, msg) => postProgress('left', p, msg)
+    spanPercent: 100,
+    matchKeys: request.matchKeys ?? [],
+    postProgress: (p, msg) => postProgress(side, p, msg)
   });
 
-  const right = mapXmlToFlat(rightXml, {
-    phase: 'right',
-    basePercent: 45,
-    spanPercent: 45,
-    postProgress: (p, msg) => postProgress('right', p, msg)
-  });
-
-  if (left.error || right.error) {
-    const resp: WorkerResponse = {
-      ok: false,
-      type: 'error',
-      leftError: left.error,
-      rightError: right.error
-    };
-    // eslint-disable-next-line no-restricted-globals
-    self.postMessage(resp);
+  if (request.type === 'flatten') {
+    peer.postMessage(flat);
+    peer.close();
     return;
   }
 
-  postProgress('diff', 92, 'Diffing…');
-  const { differences, stats } = diffMaps(left.map, right.map);
-  postProgress('diff', 99, 'Finalizing…');
-  const resp: WorkerResponse = { ok: true, type: 'done', differences, stats };
-  // eslint-disable-next-line no-restricted-globals
-  self.postMessage(resp);
-};
+  postProgress(side, 100, 'Waiting for the other document…');
+  peer.onmessage = (peerEvent: MessageEvent<FlatResult>) => {
+    peer.close();
+    const other = peerEvent.data;
+    const left = side === 'left' ? flat : other;
+    const right = side === 'left' ? other : flat;
 
+    if (left.error || right.error) {
+      postResponse({ ok: false, type: 'error', jobId, leftError: left.error, rightError: right.error });
+      return;
+    }
 
+    postProgress('diff', 10, 'Diffing…');
+    const namespaces = chooseDisplayPrefixes(
+      [left.namespaces, right.namespaces],
+      left.rootUri === right.rootUri ? left.rootUri : ''
+    );
+    const display = createPathDisplay(namespaces);
+    const { differences, stats, ignored } = diffMaps(
+      left,
+      right,
+      compileIgnoreRules(request.ignoreRules ?? [], namespaces),
+      compileValueComparison(request.valueComparison),
+      display
+    );
+    const displayInstances = (map: Record<string, string>) => {
+      const shown: Record<string, string> = {};
+      for (const [path, positional] of Object.entries(map)) shown[display(path)] = display(positional);
+      return shown;
+    };
+    postProgress('diff', 90, 'Finalizing…');
+    postResponse({
+      ok: true,
+      type: 'done',
+      jobId,
+      differences,
+      stats,
+      ignored,
+      instances: { left: displayInstances(left.instances), right: displayInstances(right.instances) },
+      namespaces
+    });
+  };
+};
@@ -0,0 +1,567 @@
+import {
+  type EditableNode,
+  type EditorTreeRow,
+  type XmlDocumentShell,
+  parseEditableXml,
+  serializeEditableXml,
+  splitFlatPath,
+  visibleEditorRows
+} from '../utils/xmlTree';
+import { type SourceMap, createSourceMap, patchSourceXml } from '../utils/sourcePatch';
+import { type FileEncoding, decodeXml } from '../utils/encoding';
+import { type DataModel, type ValueViolation, validateValues } from '../utils/dataModel';
+import { type EditorState, lowestUid, rebaseUids } from '../utils/workspaces';
+
+export type SearchMode = 'parameter' | 'path' | 'value';
+
+/** A node as sent to the page: without its subtree, with what its inputs need. */
+export type NodeView = {
+  node: EditableNode;
+  /** Text value as loaded, for type inference. */
+  loadedValue?: string;
+  /** Data-model problem with the current value. */
+  problem?: string;
+};
+
+/** One visible row of the tree. */
+export type EditorRowView = NodeView & {
+  depth: number;
+  /** Row index of the parent, or -1 for a root. */
+  parent: number;
+  childCount: number;
+  expanded: boolean;
+};
+
+/** The parts of the workspace state the worker owns. */
+export type EditorDocumentState = Pick<
+  EditorState,
+  'xml' | 'uidBase' | 'tree' | 'history' | 'historyIndex' | 'expandedPaths'
+>;
+
+/**
+ * The worker owns the document: the page loads it, sends edits and the range
+ * of rows on screen, and gets back change notifications and that range only.
+ */
+export type EditorRequest =
+  | {
+      type: 'load';
+      jobId: number;
+      /** File bytes (transferred) to decode, or text. */
+      source: ArrayBuffer | string;
+      override?: string | null;
+      /** Edits, history and expansion of a saved workspace to apply. */
+      restore?: EditorDocumentState;
+    }
+  | { type: 'viewport'; start: number; end: number }
+  | { type: 'toggle'; id: string }
+  | { type: 'reveal'; requestId: number; id: string }
+  | { type: 'setValue'; id: string; value: string }
+  | { type: 'setAttribute'; id: string; name: string; value: string }
+  | { type: 'duplicate'; id: string }
+  | { type: 'delete'; id: string }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'search'; requestId: number; query: string; mode: SearchMode }
+  | { type: 'dataModel'; model: DataModel | null }
+  | { type: 'serialize'; requestId: number; keepFormatting: boolean }
+  | { type: 'snapshot'; requestId: number };
+
+/** Sent after every change to the document or to which rows are visible. */
+export type EditorChange = {
+  type: 'change';
+  /** Increases whenever the visible rows change. */
+  revision: number;
+  /** Increases whenever the document changes. */
+  version: number;
+  rowCount: number;
+  nodeCount: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Data-model violations, only when they were checked again. */
+  violations?: ValueViolation[];
+};
+
+export type EditorRows = {
+  type: 'rows';
+  revision: number;
+  start: number;
+  rows: EditorRowView[];
+};
+
+/** Current state of the listed search matches after an edit. */
+export type EditorMatches = { type: 'matches'; matches: NodeView[] };
+
+export type EditorResponse =
+  | { type: 'progress'; jobId: number; percent: number; message?: string }
+  | { type: 'loaded'; jobId: number; encoding: FileEncoding | null; nodeCount: number }
+  | { type: 'loadError'; jobId: number; error: string }
+  | EditorChange
+  | EditorRows
+  | EditorMatches
+  | { type: 'revealed'; requestId: number; index: number | null }
+  | { type: 'searched'; requestId: number; matches: NodeView[] }
+  | { type: 'serialized'; requestId: number; xml: string; patched: boolean; version: number }
+  | { type: 'snapshot'; requestId: number; state: EditorDocumentState | null }
+  | { type: 'failed'; requestId?: number; error: string };
+
+type EditorDocument = {
+  xml: string;
+  tree: EditableNode[];
+  shell: XmlDocumentShell;
+  sourceMap: SourceMap | null;
+  /** Text values as loaded, by node uid. */
+  loadedValues: Map<number, string>;
+  uidBase: number;
+  history: EditableNode[][];
+  historyIndex: number;
+  expanded: Set<string>;
+};
+
+// Limit history size to 50 states
+const maxHistory = 50;
+
+let doc: EditorDocument | null = null;
+let rows: EditorTreeRow[] = [];
+let revision = 0;
+let version = 0;
+let viewport = { start: 0, end: 0 };
+let dataModel: DataModel | null = null;
+let problems = new Map<string, string>();
+let searchIds: string[] = [];
+let nodesById: Map<string, EditableNode> | null = null;
+
+function postResponse(resp: EditorResponse) {
+  // eslint-disable-next-line no-restricted-globals
+  self.postMessage(resp);
+}
+
+function collectValues(nodes: EditableNode[], out: Map<number, string> = new Map()) {
+  for (const node of nodes) {
+    if (node.uid !== undefined) out.set(node.uid, node.value);
+    collectValues(node.children, out);
+  }
+  return out;
+}
+
+function nodeById(id: string): EditableNode | undefined {
+  if (!doc) return undefined;
+  if (!nodesById) {
+    const byId = new Map<string, EditableNode>();
+    const collect = (nodes: EditableNode[]) => {
+      for (const node of nodes) {
+        byId.set(node.id, node);
+        collect(node.children);
+      }
+    };
+    collect(doc.tree);
+    nodesById = byId;
+  }
+  return nodesById.get(id);
+}
+
+/**
+ * Copy of the tree with one node replaced; only the branch leading to it is
+ * copied, so an edit costs the depth of the node rather than the tree size.
+ * Trees are never changed in place, which lets the history share them.
+ */
+function updateNodeById(
+  nodes: EditableNode[],
+  id: string,
+  update: (node: EditableNode) => EditableNode
+): EditableNode[] {
+  return nodes.map((node) =>
+    node.id === id
+      ? update(node)
+      : id.startsWith(`${node.id}.`)
+        ? { ...node, children: updateNodeById(node.children, id, update) }
+        : node
+  );
+}
+
+/** Ancestors of a node, outermost first, or null if there is no such node. */
+function ancestorsOf(id: string): EditableNode[] | null {
+  const chain: EditableNode[] = [];
+  let level = doc?.tree ?? [];
+  for (;;) {
+    const next = level.find((n) => n.id === id || id.startsWith(`${n.id}.`));
+    if (!next) return null;
+    if (next.id === id) return chain;
+    chain.push(next);
+    level = next.children;
+  }
+}
+
+function deepCloneNode(node: EditableNode): EditableNode {
+  return {
+    ...node,
+    attributes: { ...node.attributes },
+    children: node.children.map(deepCloneNode)
+  };
+}
+
+function regenerateIds(
+  nodes: EditableNode[],
+  parentPath: string = '',
+  siblingCounts: Record<string, number> = {}
+): EditableNode[] {
+  return nodes.map((node) => {
+    const name = node.name;
+    const count = (siblingCounts[name] || 0) + 1;
+    siblingCounts[name] = count;
+    const currentPath = parentPath ? `${parentPath}.${name}[${count}]` : `${name}[${count}]`;
+
+    return {
+      ...node,
+      id: currentPath,
+      path: currentPath,
+      children: regenerateIds(node.children, currentPath, {})
+    };
+  });
+}
+
+/** The clone of a node named after the highest numbered sibling (i1, i2 -> i3). */
+function duplicateOf(source: EditableNode, siblings: EditableNode[]): EditableNode {
+  const duplicated = deepCloneNode(source);
+  // Extract base name and numeric suffix (e.g., "i" and 1 from "i1")
+  const nameMatch = source.name.match(/^(.*?)(\d+)?$/);
+  const baseName = nameMatch?.[1] ?? source.name;
+  const numbers = siblings
+    .filter((n) => n.name.match(/^(.*?)(\d+)?$/)?.[1] === baseName)
+    .map((n) => {
+      const m = n.name.match(/^(.*?)(\d+)$/);
+      return m ? parseInt(m[2], 10) : 0;
+    });
+  duplicated.name = `${baseName}${Math.max(0, ...numbers) + 1}`;
+  return duplicated;
+}
+
+function duplicateNode(tree: EditableNode[], id: string): EditableNode[] | null {
+  const source = nodeById(id);
+  const parents = ancestorsOf(id);
+  if (!source || !parents) return null;
+  if (parents.length === 0) {
+    return regenerateIds([...tree, duplicateOf(source, tree)]);
+  }
+  const parent = parents[parents.length - 1];
+  return regenerateIds(
+    updateNodeById(tree, parent.id, (node) => ({
+      ...node,
+      children: regenerateIds([...node.children, duplicateOf(source, node.children)], node.path)
+    }))
+  );
+}
+
+function removeNode(nodes: EditableNode[], id: string): EditableNode[] {
+  return nodes
+    .filter((node) => node.id !== id)
+    .map((node) =>
+      id.startsWith(`${node.id}.`) ? { ...node, children: removeNode(node.children, id) } : node
+    );
+}
+
+function view(node: EditableNode): NodeView {
+  const loadedValue = node.uid !== undefined ? doc?.loadedValues.get(node.uid) : undefined;
+  return {
+    node: { ...node, children: [], content: undefined },
+    ...(loadedValue !== undefined ? { loadedValue } : {}),
+    ...(problems.has(node.id) ? { problem: problems.get(node.id) } : {})
+  };
+}
+
+function rowView(row: EditorTreeRow): EditorRowView {
+  return {
+    ...view(row.node),
+    depth: row.depth,
+    parent: row.parent,
+    childCount: row.node.children.length,
+    expanded: !!doc?.expanded.has(row.node.id)
+  };
+}
+
+function postRows() {
+  const start = Math.min(viewport.start, rows.length);
+  postResponse({
+    type: 'rows',
+    revision,
+    start,
+    rows: rows.slice(start, Math.min(viewport.end, rows.length)).map(rowView)
+  });
+}
+
+/** Values of the document checked against the data model; edited values of read-only parameters are flagged. */
+function checkValues(): ValueViolation[] {
+  problems = new Map();
+  if (!dataModel || !doc) return [];
+  const values: { path: string; value: string; edited: boolean }[] = [];
+  const collect = (nodes: EditableNode[]) => {
+    for (const node of nodes) {
+      // Empty leaves are checked too: "" is not a valid int or enumeration value
+      if (node.value || node.children.length === 0) {
+        values.push({
+          path: `${node.id}/#text`,
+          value: node.value,
+          edited: node.uid !== undefined && doc!.loadedValues.get(node.uid) !== node.value
+        });
+      }
+      collect(node.children);
+    }
+  };
+  collect(doc.tree);
+  const violations = validateValues(dataModel, values);
+  for (const v of violations) problems.set(splitFlatPath(v.path).elementPath, v.message);
+  return violations;
+}
+
+/** Rebuild the visible rows and tell the page; `edited` marks a document change. */
+function refresh(edited: boolean) {
+  rows = doc ? visibleEditorRows(doc.tree, doc.expanded) : [];
+  revision += 1;
+  let violations: ValueViolation[] | undefined;
+  if (edited) {
+    version += 1;
+    nodesById = null;
+    violations = checkValues();
+  }
+  postResponse({
+    type: 'change',
+    revision,
+    version,
+    rowCount: rows.length,
+    nodeCount: doc?.loadedValues.size ?? 0,
+    canUndo: !!doc && doc.historyIndex > 0,
+    canRedo: !!doc && doc.historyIndex < doc.history.length - 1,
+    ...(violations ? { violations } : {})
+  });
+  postRows();
+  if (edited && searchIds.length > 0) {
+    postResponse({
+      type: 'matches',
+      matches: searchIds.flatMap((id) => {
+        const node = nodeById(id);
+        return node ? [view(node)] : [];
+      })
+    });
+  }
+}
+
+function commit(tree: EditableNode[]) {
+  if (!doc) return;
+  // Remove any history after current index (when new action after undo)
+  const history = doc.history.slice(0, doc.historyIndex + 1);
+  history.push(tree);
+  if (history.length > maxHistory) history.shift();
+  doc.history = history;
+  doc.historyIndex = history.length - 1;
+  doc.tree = tree;
+  refresh(true);
+}
+
+function load(request: Extract<EditorRequest, { type: 'load' }>) {
+  const { jobId, source, override, restore } = request;
+  const postProgress = (percent: number, message?: string) => {
+    postResponse({ type: 'progress', jobId, percent, message });
+  };
+
+  doc = null;
+  searchIds = [];
+  let encoding: FileEncoding | null = null;
+  try {
+    let xml: string;
+    if (typeof source === 'string') {
+      xml = source;
+    } else {
+      postProgress(0, 'Decoding…');
+      const { text, ...detected } = decodeXml(source, override);
+      xml = text;
+      encoding = detected;
+    }
+
+    if (xml.trim()) {
+      postProgress(10, 'Parsing XML…');
+      const { tree, shell } = parseEditableXml(xml);
+      postProgress(60, 'Mapping source positions…');
+      const sourceMap = createSourceMap(xml, tree);
+      postProgress(80, 'Indexing values…');
+      const uidBase = lowestUid(tree);
+      doc = {
+        xml,
+        tree,
+        shell,
+        sourceMap,
+        loadedValues: collectValues(tree),
+        uidBase,
+        history: [tree],
+        historyIndex: 0,
+        // Auto-expand first level
+        expanded: new Set(tree.map((n) => n.id))
+      };
+      if (restore && restore.xml === xml) {
+        // Parsing numbered the nodes afresh; move the saved trees onto those numbers
+        const offset = uidBase - restore.uidBase;
+        doc.history = restore.history.map((t) => rebaseUids(t, offset));
+        doc.historyIndex = restore.historyIndex;
+        doc.tree = rebaseUids(restore.tree, offset);
+        doc.expanded = new Set(restore.expandedPaths);
+      }
+      if (dataModel) postProgress(90, 'Checking values…');
+    }
+  } catch (err) {
+    doc = null;
+    postResponse({ type: 'loadError', jobId, error: (err as Error).message });
+    refresh(true);
+    return;
+  }
+
+  // Rows and counts first, so the page sees the document when the load resolves
+  refresh(true);
+  postResponse({ type: 'loaded', jobId, encoding, nodeCount: doc?.loadedValues.size ?? 0 });
+}
+
+function search(query: string, mode: SearchMode): NodeView[] {
+  const q = query.trim().toLowerCase();
+  searchIds = [];
+  if (!q || !doc) return [];
+
+  const matches: EditableNode[] = [];
+  const collect = (nodes: EditableNode[]) => {
+    for (const n of nodes) {
+      const matched =
+        mode === 'parameter'
+          ? n.name.toLowerCase().includes(q)
+          : mode === 'path'
+            ? n.path.replace(/\[\d+\]/g, '').toLowerCase().includes(q)
+            : n.value.toLowerCase().includes(q);
+      if (matched) matches.push(n);
+      if (n.children.length > 0) collect(n.children);
+    }
+  };
+  collect(doc.tree);
+  searchIds = matches.map((n) => n.id);
+  return matches.map(view);
+}
+
+function handle(request: EditorRequest) {
+  switch (request.type) {
+    case 'load':
+      load(request);
+      return;
+    case 'viewport':
+      viewport = { start: request.start, end: request.end };
+      postRows();
+      return;
+    case 'dataModel':
+      dataModel = request.model;
+      refresh(true);
+      return;
+    case 'search':
+      postResponse({
+        type: 'searched',
+        requestId: request.requestId,
+        matches: search(request.query, request.mode)
+      });
+      return;
+    case 'snapshot':
+      postResponse({
+        type: 'snapshot',
+        requestId: request.requestId,
+        state: doc && {
+          xml: doc.xml,
+          uidBase: doc.uidBase,
+          tree: doc.tree,
+          history: doc.history,
+          historyIndex: doc.historyIndex,
+          expandedPaths: [...doc.expanded]
+        }
+      });
+      return;
+  }
+
+  if (!doc) {
+    if (request.type === 'reveal') {
+      postResponse({ type: 'revealed', requestId: request.requestId, index: null });
+    } else if (request.type === 'serialize') {
+      postResponse({ type: 'failed', requestId: request.requestId, error: 'No document is loaded.' });
+    }
+    return;
+  }
+
+  switch (request.type) {
+    case 'toggle':
+      if (doc.expanded.has(request.id)) doc.expanded.delete(request.id);
+      else doc.expanded.add(request.id);
+      refresh(false);
+      return;
+    case 'reveal': {
+      const parents = ancestorsOf(request.id);
+      parents?.forEach((p) => doc!.expanded.add(p.id));
+      if (parents) doc.expanded.add(request.id);
+      refresh(false);
+      const index = rows.findIndex((row) => row.node.id === request.id);
+      postResponse({
+        type: 'revealed',
+        requestId: request.requestId,
+        index: index >= 0 ? index : null
+      });
+      return;
+    }
+    case 'setValue':
+      commit(updateNodeById(doc.tree, request.id, (node) => ({ ...node, value: request.value })));
+      return;
+    case 'setAttribute':
+      commit(
+        updateNodeById(doc.tree, request.id, (node) => {
+          const attributes = { ...node.attributes };
+          if (request.value.trim()) attributes[request.name] = request.value;
+          else delete attributes[request.name];
+          return { ...node, attributes };
+        })
+      );
+      return;
+    case 'duplicate': {
+      const tree = duplicateNode(doc.tree, request.id);
+      if (!tree) return;
+      // Expand the duplicated node
+      if (request.id.includes('.')) doc.expanded.add(request.id);
+      commit(tree);
+      return;
+    }
+    case 'delete':
+      commit(removeNode(doc.tree, request.id));
+      return;
+    case 'undo':
+    case 'redo': {
+      const index = doc.historyIndex + (request.type === 'undo' ? -1 : 1);
+      if (index < 0 || index >= doc.history.length) return;
+      doc.historyIndex = index;
+      doc.tree = doc.history[index];
+      refresh(true);
+      return;
+    }
+    case 'serialize': {
+      const patched =
+        request.keepFormatting && doc.sourceMap ? patchSourceXml(doc.sourceMap, doc.tree) : null;
+      postResponse({
+        type: 'serialized',
+        requestId: request.requestId,
+        xml: patched ?? serializeEditableXml(doc.tree, doc.shell),
+        patched: patched !== null,
+        version
+      });
+      return;
+    }
+  }
+}
+
+// eslint-disable-next-line no-restricted-globals
+self.onmessage = (event: MessageEvent<EditorRequest>) => {
+  const request = event.data;
+  try {
+    handle(request);
+  } catch (err) {
+    postResponse({
+      type: 'failed',
+      ...('requestId' in request ? { requestId: request.requestId } : {}),
+      error: (err as Error).message
+    });
+  }
+};